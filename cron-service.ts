@@ -4,10 +4,87 @@
  */
 
 import { createClient } from '@supabase/supabase-js';
-import { google } from 'googleapis';
 import { config } from 'dotenv';
-import { decrypt } from './lib/encryption';
-import { parseHDFCEmail, type ParsedTransaction } from './lib/email-parser';
+import { decrypt, hasKeyFor, loadKeyring } from './lib/encryption';
+import { extractBody } from './lib/mime';
+import { requestAccessToken, createGoogleClients, isGoogleApiError, type GmailClient, type SheetsClient } from './lib/google-auth';
+import { type ParsedTransaction, type ParseResult } from './lib/email-parser';
+import { filterNewTransactions, type TransactionSink, type TransactionStore } from './lib/transaction-store';
+import { createTransactionStore, usesSheet } from './lib/stores';
+import { buildManualTransaction, type ManualTransactionInput } from './lib/manual-transactions';
+import {
+  enqueueSyncJobs,
+  runWorker,
+  acquireUserLease,
+  renewUserLease,
+  releaseUserLease,
+  isUserLocked,
+  keepLeaseAlive,
+  userBusyError,
+  DEFAULT_WORKER_OPTIONS,
+  type SyncJob,
+} from './lib/job-queue';
+import { publishEvent } from './lib/events';
+import {
+  filterBankMessages,
+  getPushTopic,
+  isNewerHistory,
+  isWatchActive,
+  listHistoryMessageIds,
+  needsScheduledSync,
+  needsWatchRenewal,
+  startWatch,
+  type PushNotification,
+  type WatchState,
+} from './lib/gmail-watch';
+import { logger, runWithLogContext } from './lib/logger';
+import { createTransactionsSpreadsheet, isSheetSchemaError } from './lib/sheet-schema';
+import { buildReauthNotification, tokenStateUpdate, type TokenFailure, type TokenState } from './lib/token-health';
+import { emptySyncMetrics, recordRun, summariseRun, type SyncMetrics } from './lib/metrics';
+import { categorizeTransaction, type CategoryRule } from './lib/categorizer';
+import { getEnabledParsers, buildGmailQuery, findParserForEmail, type BankParser } from './lib/bank-registry';
+import { evaluateBudgets, buildBudgetNotification, type Budget, type BudgetAlert, type BudgetStatus } from './lib/budgets';
+import { createNotifiersFromEnv, sendNotification, type Notification } from './lib/notifiers';
+import { parseHDFCStatement, statementError, type StatementFormat } from './lib/statement-parser';
+import {
+  chunkQuery,
+  completeBackfillChunk,
+  createResumePoint,
+  listAllMessageIds,
+  newBackfillState,
+  nextBackfillChunk,
+  resumeBackfillState,
+  type BackfillState,
+} from './lib/email-sync';
+import {
+  accountKind,
+  buildBalanceTimeline,
+  discoverAccounts,
+  latestBalance,
+  summarizeCreditCard,
+  type Account,
+  type AccountKind,
+  type CreditCardSummary,
+  type DailyBalance,
+} from './lib/accounts';
+import type { AnalyticsFilter } from './lib/analytics';
+import { detectTransfers, isTransfer, markTransfers, NOT_A_TRANSFER, type TransferPair } from './lib/transfers';
+import {
+  reconcileStatement,
+  reconcileTransactions,
+  type DuplicateAction,
+  type DuplicateCandidate,
+  type DuplicateMatch,
+  type ReconcileOptions,
+  type StatementReconciliation,
+} from './lib/reconciliation';
+import {
+  detectRecurring,
+  findMissedPayments,
+  findAmountJumps,
+  buildRecurringNotification,
+  type RecurringGroup,
+} from './lib/recurring';
 
 // Helper to format date to Indian format
 function formatToIndianDateTime(date: Date): string {
@@ -25,240 +102,671 @@ function formatToIndianDateTime(date: Date): string {
 // In Docker, environment variables are injected by docker-compose
 config({ path: '.env' });
 
+const log = logger.child({ service: 'cron' });
+
 const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
 const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
-const GOOGLE_CLIENT_ID = process.env.GOOGLE_CLIENT_ID!;
-const GOOGLE_CLIENT_SECRET = process.env.GOOGLE_CLIENT_SECRET!;
-const ENCRYPTION_KEY = process.env.ENCRYPTION_SECRET_KEY;
 
-// Verify encryption key is loaded
-if (!ENCRYPTION_KEY) {
-  console.error('❌ ENCRYPTION_SECRET_KEY is not set in environment variables!');
+// Verify encryption keys are configured
+try {
+  const keyring = loadKeyring();
+  log.info('Encryption keys loaded', { keyIds: keyring.keys.map(key => key.id), currentKeyId: keyring.current.id });
+} catch (keyError) {
+  log.error('Encryption keys not configured', { error: (keyError as Error).message });
   process.exit(1);
 }
-console.log('✅ Encryption key loaded:', ENCRYPTION_KEY.substring(0, 8) + '...');
 
 const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+const notifiers = createNotifiersFromEnv();
+// Where users reconnect their Google account, linked from re-authentication notices
+const REAUTH_URL = process.env.REAUTH_URL;
 
-interface User {
+export interface User {
   id: string;
   google_email: string;
   google_access_token: string;
   google_refresh_token: string;
   google_sheet_id: string | null;
   last_processed_email_timestamp: string | null;
-  is_processing: boolean;
+  lock_owner: string | null;
+  lock_expires_at: string | null;
   is_active: boolean;
   missed_emails: any[];
+  enabled_banks: string[] | null;
+  backfill_state: BackfillState | null;
+  transaction_sink: TransactionSink | null;
+  self_vpas: string[] | null;
+  gmail_history_id: string | null;
+  gmail_watch_expires_at: string | null;
+  token_state: TokenState | null;
+  reauth_notified_at: string | null;
 }
 
-async function refreshAccessToken(refreshToken: string): Promise<string | null> {
-  try {
-    const response = await fetch('https://oauth2.googleapis.com/token', {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
-      body: new URLSearchParams({
-        client_id: GOOGLE_CLIENT_ID,
-        client_secret: GOOGLE_CLIENT_SECRET,
-        grant_type: 'refresh_token',
-        refresh_token: refreshToken,
-      }),
-    });
+interface SyncResult {
+  transactions: number;
+  missedEmails: any[];
+  latestTimestamp: Date | null;
+  // False when an email could not be fetched and must be read again next time
+  complete: boolean;
+  metrics: SyncMetrics;
+}
 
-    const data = await response.json();
-    if (!response.ok) {
-      console.error('Token refresh failed:', data);
-      return null;
-    }
+async function updateTokenState(user: User, state: TokenState, failure?: TokenFailure): Promise<void> {
+  const update = tokenStateUpdate(user, state, failure);
+  if (!update) return;
 
-    return data.access_token;
-  } catch (error) {
-    console.error('Error refreshing token:', error);
+  const { error } = await supabase.from('users').update(update).eq('id', user.id);
+  if (error) {
+    log.warn('Could not record token state', { userId: user.id, state, error: error.message });
+  }
+}
+
+/**
+ * Mark the user as needing to reconnect Google and tell them, once per failure.
+ * The user stays active and their tokens are kept.
+ */
+async function requestReauth(user: User, failure: TokenFailure): Promise<void> {
+  log.error('Google token unusable, user must reconnect', { userId: user.id, kind: failure.kind, reason: failure.reason });
+  await updateTokenState(user, 'needs_reauth', failure);
+  if (user.token_state === 'needs_reauth' && user.reauth_notified_at) return;
+
+  await publishEvent(supabase, user.id, 'auth.reauth_required', failure);
+  if (notifiers.length > 0 && await sendNotification(notifiers, buildReauthNotification(user, failure, REAUTH_URL))) {
+    await supabase.from('users').update({ reauth_notified_at: new Date().toISOString() }).eq('id', user.id);
+  }
+}
+
+/**
+ * Decrypt the user's refresh token and build authorised Gmail/Sheets clients.
+ * Returns null when the user must reconnect; throws on transient failures so the
+ * job is retried with backoff. A token written with a key that is not configured
+ * is an environment problem, so that throws too.
+ */
+async function getGoogleClients(user: User): Promise<{ gmail: GmailClient; sheets: SheetsClient } | null> {
+  if (!user.google_refresh_token) {
+    await requestReauth(user, { kind: 'revoked', reason: 'no_refresh_token' });
+    return null;
+  }
+  if (!hasKeyFor(user.google_refresh_token)) {
+    throw new Error('Refresh token was encrypted with a key that is not in ENCRYPTION_KEYS');
+  }
+
+  let refreshToken: string;
+  try {
+    refreshToken = decrypt(user.google_refresh_token);
+  } catch {
+    await requestReauth(user, { kind: 'key_mismatch', reason: 'decrypt_failed' });
     return null;
   }
+
+  const { accessToken, failure } = await requestAccessToken(refreshToken);
+  if (failure?.kind === 'transient') {
+    await updateTokenState(user, 'retrying', failure);
+    throw new Error(`Token refresh failed (${failure.reason}), will retry`);
+  }
+  if (failure) {
+    await requestReauth(user, failure);
+    return null;
+  }
+
+  await updateTokenState(user, 'ok');
+  return createGoogleClients(accessToken!);
 }
 
-async function processUser(user: User): Promise<{ transactions: number; missed: number } | null> {
-  const userStart = new Date();
-  console.log(`🔐 Processing user: ${user.google_email}`);
+/**
+ * Load a user's category rules. Failures fall back to the built-in defaults only.
+ */
+async function loadCategoryRules(userId: string): Promise<CategoryRule[]> {
+  const { data, error } = await supabase
+    .from('category_rules')
+    .select('*')
+    .eq('user_id', userId);
 
-  if (!user.google_sheet_id) {
-    console.log(`⏭️  Skipping - No Google Sheet configured`);
-    return { transactions: 0, missed: 0 };
+  if (error) {
+    log.warn('Could not load category rules', { userId, error: error.message });
+    return [];
   }
+  return (data || []) as CategoryRule[];
+}
+
+interface FetchedEmail {
+  subject: string;
+  from: string;
+  body: string;
+  receivedDate: Date;
+  parser: BankParser | null;
+  result: ParseResult;
+}
+
+/**
+ * Fetch one message and run it through the parser for its bank
+ */
+async function fetchAndParseEmail(gmail: GmailClient, parsers: BankParser[], messageId: string): Promise<FetchedEmail> {
+  const msgResponse = await gmail.users.messages.get({
+    userId: 'me',
+    id: messageId,
+    format: 'full',
+  });
+
+  const msg = msgResponse.data;
+  const headers = msg.payload?.headers || [];
 
-  if (user.is_processing) {
-    console.log(`⏭️  Skipping - User already being processed`);
-    return { transactions: 0, missed: 0 };
+  const subject = headers.find(h => h.name?.toLowerCase() === 'subject')?.value || '';
+  const from = headers.find(h => h.name?.toLowerCase() === 'from')?.value || '';
+  const dateHeader = headers.find(h => h.name?.toLowerCase() === 'date')?.value;
+  const receivedDate = dateHeader ? new Date(dateHeader) : new Date(parseInt(msg.internalDate || '0'));
+
+  const body = extractBody(msg.payload);
+
+  const parser = findParserForEmail(parsers, from, subject, body);
+  const result: ParseResult = parser
+    ? parser.parse(body, subject, receivedDate, messageId)
+    : { success: false, error: 'No parser registered for sender' };
+
+  return { subject, from, body, receivedDate, parser, result };
+}
+
+/**
+ * Append transactions after reconciling them with the user's stored history.
+ * Likely duplicates are merged (not written) or flagged for review in
+ * duplicate_candidates. Returns the transactions actually written.
+ */
+async function appendReconciled(
+  userId: string,
+  store: TransactionStore,
+  transactions: ParsedTransaction[],
+  options: Partial<ReconcileOptions> = {}
+): Promise<ParsedTransaction[]> {
+  const existingRefs = await store.findExistingRefs(transactions.map(t => t.referenceNumber));
+  const fresh = filterNewTransactions(transactions, existingRefs);
+  if (fresh.length === 0) return [];
+
+  const { keep, merged, flagged } = reconcileTransactions(fresh, await store.list(), options);
+  const written = await store.append(keep);
+  const writtenRefs = new Set(written.map(t => t.referenceNumber));
+
+  const toRow = (match: DuplicateMatch, status: 'pending' | 'merged') => ({
+    user_id: userId,
+    reference_number: match.transaction.referenceNumber,
+    matched_reference_number: match.matched.referenceNumber,
+    score: match.score,
+    reasons: match.reasons,
+    status,
+    removed_reference_number: status === 'merged' ? match.transaction.referenceNumber : null,
+    transaction: match.transaction,
+    matched_transaction: match.matched,
+    resolved_at: status === 'merged' ? new Date().toISOString() : null,
+  });
+
+  const rows = [
+    ...merged.map(match => toRow(match, 'merged')),
+    ...flagged.filter(match => writtenRefs.has(match.transaction.referenceNumber)).map(match => toRow(match, 'pending')),
+  ];
+
+  if (rows.length > 0) {
+    const { error } = await supabase
+      .from('duplicate_candidates')
+      .upsert(rows, { onConflict: 'user_id,reference_number,matched_reference_number', ignoreDuplicates: true });
+
+    if (error) {
+      log.warn('Could not record duplicate candidates', { userId, error: error.message });
+    }
+    log.info('Reconciled near-duplicates', { merged: merged.length, flagged: flagged.length });
   }
 
-  await supabase.from('users').update({ is_processing: true }).eq('id', user.id);
+  return written;
+}
 
-  try {
-    console.log(`🔑 Attempting to decrypt refresh token (length: ${user.google_refresh_token?.length || 0})`);
+/**
+ * Fetch, parse and append the given messages, oldest first.
+ * latestTimestamp stops advancing at the first email that could not be fetched,
+ * so the next run picks it up again.
+ */
+async function syncMessages(
+  user: User,
+  gmail: GmailClient,
+  store: TransactionStore,
+  parsers: BankParser[],
+  messageIds: string[],
+  rules: CategoryRule[]
+): Promise<SyncResult> {
+  log.info('Found emails', { count: messageIds.length });
 
-    let refreshToken: string;
+  const parsed: ParsedTransaction[] = [];
+  const missedEmails: any[] = [];
+  const resumePoint = createResumePoint();
+  let googleApiErrors = 0;
+
+  for (const messageId of messageIds) {
     try {
-      refreshToken = decrypt(user.google_refresh_token);
-      console.log(`✅ Token decrypted successfully`);
-    } catch (decryptError) {
-      console.error(`❌ Failed to decrypt token - token was encrypted with a different key or algorithm`);
-      console.error(`   User needs to re-authenticate on the frontend`);
-      await supabase
-        .from('users')
-        .update({
-          is_active: false,
-          is_processing: false,
-          google_access_token: '',
-          google_refresh_token: '',
-        })
-        .eq('id', user.id);
-      return null;
+      const { subject, from, body, receivedDate, parser, result } = await fetchAndParseEmail(gmail, parsers, messageId);
+
+      if (result.success && result.transaction) {
+        parsed.push(categorizeTransaction(result.transaction, rules));
+        log.debug('Parsed email', { messageId, bank: parser?.name });
+      } else {
+        log.warn('Parse failed', { messageId, bank: parser?.name || 'unknown', subject, error: result.error || 'Unknown error' });
+        missedEmails.push({
+          email_id: messageId,
+          subject,
+          body_snippet: body.substring(0, 200),
+          received_date: receivedDate.toISOString(),
+          from: from || parser?.senders[0] || 'unknown',
+        });
+      }
+
+      resumePoint.processed(receivedDate);
+    } catch (emailError) {
+      log.error('Error processing email', { messageId, error: emailError });
+      if (isGoogleApiError(emailError)) googleApiErrors++;
+      resumePoint.failed();
     }
+  }
 
-    const accessToken = await refreshAccessToken(refreshToken);
+  // Exact reference repeats are dropped; near-duplicates are merged or flagged
+  const newTransactions = await appendReconciled(user.id, store, parsed);
+  const duplicates = parsed.length - newTransactions.length;
+  if (duplicates > 0) {
+    log.info('Duplicates skipped', { count: duplicates });
+  }
 
-    if (!accessToken) {
-      console.error(`❌ Token refresh failed`);
-      await supabase
-        .from('users')
-        .update({ is_active: false, is_processing: false })
-        .eq('id', user.id);
-      return null;
+  if (newTransactions.length > 0) {
+    await publishEvent(supabase, user.id, 'transactions.appended', {
+      count: newTransactions.length,
+      transactions: newTransactions,
+    });
+  }
+  if (missedEmails.length > 0) {
+    await publishEvent(supabase, user.id, 'missed_emails.recorded', {
+      count: missedEmails.length,
+      emails: missedEmails.map(({ email_id, subject, received_date }) => ({ email_id, subject, received_date })),
+    });
+  }
+
+  return {
+    transactions: newTransactions.length,
+    missedEmails,
+    latestTimestamp: resumePoint.latest,
+    complete: resumePoint.complete,
+    metrics: {
+      ...emptySyncMetrics(),
+      emails_fetched: messageIds.length,
+      emails_parsed: parsed.length,
+      emails_missed: missedEmails.length,
+      duplicates,
+      transactions: newTransactions.length,
+      google_api_errors: googleApiErrors,
+    },
+  };
+}
+
+/**
+ * Load a user's budgets. Failures are logged and treated as no budgets.
+ */
+async function loadBudgets(userId: string): Promise<Budget[]> {
+  const { data, error } = await supabase
+    .from('budgets')
+    .select('*')
+    .eq('user_id', userId);
+
+  if (error) {
+    log.warn('Could not load budgets', { userId, error: error.message });
+    return [];
+  }
+  return (data || []) as Budget[];
+}
+
+/**
+ * Alert on budget thresholds crossed in the current period. Each threshold is
+ * claimed in budget_alerts before sending, so it fires once per period; when
+ * several are crossed at once only the highest is sent.
+ */
+async function checkBudgets(user: User, history: ParsedTransaction[]): Promise<number> {
+  const budgets = await loadBudgets(user.id);
+  if (budgets.length === 0) return 0;
+
+  const statuses = evaluateBudgets(budgets, history);
+  let sent = 0;
+
+  for (const status of statuses.filter(s => s.crossed.length > 0)) {
+    const { data: claimed, error } = await supabase
+      .from('budget_alerts')
+      .upsert(
+        status.crossed.map(threshold => ({
+          budget_id: status.budget.id,
+          user_id: user.id,
+          period_start: status.periodStart,
+          threshold,
+          spent: status.spent,
+        })),
+        { onConflict: 'budget_id,period_start,threshold', ignoreDuplicates: true }
+      )
+      .select('id, threshold');
+
+    if (error) {
+      log.warn('Could not record budget alert', { userId: user.id, error: error.message });
+      continue;
     }
+    if (!claimed || claimed.length === 0) continue;
+
+    const alert: BudgetAlert = {
+      userId: user.id,
+      email: user.google_email,
+      category: status.budget.category,
+      period: status.budget.period,
+      periodStart: status.periodStart,
+      periodEnd: status.periodEnd,
+      threshold: Math.max(...claimed.map(row => row.threshold)),
+      budgetAmount: status.budget.amount,
+      spent: status.spent,
+      percent: status.percent,
+    };
 
-    const auth = new google.auth.OAuth2();
-    auth.setCredentials({ access_token: accessToken });
+    await publishEvent(supabase, user.id, 'budget.alert', alert);
+    if (notifiers.length > 0 && !(await sendNotification(notifiers, buildBudgetNotification(alert)))) {
+      // Nothing was delivered - release the claim so the next sync tries again
+      await supabase.from('budget_alerts').delete().in('id', claimed.map(row => row.id));
+      continue;
+    }
 
-    const gmail = google.gmail({ version: 'v1', auth });
-    const sheets = google.sheets({ version: 'v4', auth });
+    log.info('Budget alert sent', { category: alert.category, percent: alert.percent, threshold: alert.threshold });
+    sent++;
+  }
 
-    let query = 'from:alerts@hdfcbank.net (credited OR debited OR UPI OR transaction)';
-    const lastProcessed = user.last_processed_email_timestamp;
+  return sent;
+}
 
-    if (lastProcessed) {
-      const timestamp = Math.floor(new Date(lastProcessed).getTime() / 1000);
-      query += ` after:${timestamp}`;
+/**
+ * Re-detect a user's recurring payments from their history and replace the stored groups
+ */
+async function refreshRecurringPayments(userId: string, history: ParsedTransaction[]): Promise<RecurringGroup[]> {
+  const groups = detectRecurring(history);
+  const updatedAt = new Date().toISOString();
+
+  if (groups.length > 0) {
+    const { error } = await supabase
+      .from('recurring_payments')
+      .upsert(groups.map(group => ({ ...group, user_id: userId, updated_at: updatedAt })), { onConflict: 'user_id,group_key' });
+
+    if (error) {
+      throw new Error(`Failed to save recurring payments: ${error.message}`);
     }
+  }
 
-    const listResponse = await gmail.users.messages.list({
-      userId: 'me',
-      q: query,
-      maxResults: 50,
-    });
+  const { data: stored } = await supabase
+    .from('recurring_payments')
+    .select('id, group_key')
+    .eq('user_id', userId);
 
-    const messages = listResponse.data.messages || [];
-    console.log(`📬 Found ${messages.length} emails`);
+  const current = new Set(groups.map(group => group.group_key));
+  const stale = (stored || []).filter(row => !current.has(row.group_key)).map(row => row.id);
+  if (stale.length > 0) {
+    await supabase.from('recurring_payments').delete().in('id', stale);
+  }
 
-    if (messages.length === 0) {
-      await supabase
-        .from('users')
-        .update({ is_processing: false, last_sync_time: new Date().toISOString() })
-        .eq('id', user.id);
-      return { transactions: 0, missed: 0 };
+  return groups;
+}
+
+/**
+ * Send a recurring payment alert unless it was already sent. Returns whether it went out.
+ */
+async function notifyRecurringOnce(
+  userId: string,
+  key: { group_key: string; expected_date: string; kind: 'missed' | 'amount_changed' },
+  notification: Notification
+): Promise<boolean> {
+  const { data: claimed, error } = await supabase
+    .from('recurring_alerts')
+    .upsert({ ...key, user_id: userId }, { onConflict: 'user_id,group_key,expected_date,kind', ignoreDuplicates: true })
+    .select('id');
+
+  if (error) {
+    log.warn('Could not record recurring alert', { userId, error: error.message });
+    return false;
+  }
+  if (!claimed || claimed.length === 0) return false;
+
+  await publishEvent(supabase, userId, notification.type, notification.data);
+  if (notifiers.length > 0 && !(await sendNotification(notifiers, notification))) {
+    // Nothing was delivered - release the claim so the next sync tries again
+    await supabase.from('recurring_alerts').delete().in('id', claimed.map(row => row.id));
+    return false;
+  }
+
+  log.info('Recurring payment alert sent', { type: notification.type, groupKey: key.group_key });
+  return true;
+}
+
+/**
+ * Alert on missed recurring debits, and on amount jumps when new transactions
+ * arrived. The stored groups are re-detected only when history is given.
+ */
+async function checkRecurringPayments(user: User, history: ParsedTransaction[] | null): Promise<void> {
+  let groups: RecurringGroup[];
+  if (history) {
+    groups = await refreshRecurringPayments(user.id, history);
+  } else {
+    const { data, error } = await supabase
+      .from('recurring_payments')
+      .select('*')
+      .eq('user_id', user.id);
+
+    if (error) {
+      log.warn('Could not load recurring payments', { userId: user.id, error: error.message });
+      return;
     }
+    groups = (data || []) as RecurringGroup[];
+  }
+
+  for (const group of findMissedPayments(groups)) {
+    await notifyRecurringOnce(
+      user.id,
+      { group_key: group.group_key, expected_date: group.next_expected_date, kind: 'missed' },
+      buildRecurringNotification('missed', group, user)
+    );
+  }
+
+  if (history) {
+    for (const group of findAmountJumps(groups)) {
+      await notifyRecurringOnce(
+        user.id,
+        { group_key: group.group_key, expected_date: group.last_change!.date, kind: 'amount_changed' },
+        buildRecurringNotification('amount_changed', group, user)
+      );
+    }
+  }
+}
+
+/**
+ * Record the accounts seen in a user's history. User labels live in separate
+ * columns, so re-discovery only refreshes the detected kind and activity.
+ */
+async function refreshAccounts(userId: string, history: ParsedTransaction[]): Promise<void> {
+  const discovered = discoverAccounts(history);
+  if (discovered.length === 0) return;
+
+  const { error } = await supabase
+    .from('accounts')
+    .upsert(discovered.map(account => ({ ...account, user_id: userId })), { onConflict: 'user_id,last4' });
 
-    const existingRefs = new Set<string>();
+  if (error) {
+    log.warn('Could not save accounts', { userId, error: error.message });
+  }
+}
+
+/**
+ * Mark internal transfers among the user's unmarked transactions and write the
+ * marks back. Returns the history with the marks applied.
+ */
+async function markUserTransfers(
+  user: User,
+  store: TransactionStore,
+  history: ParsedTransaction[]
+): Promise<{ history: ParsedTransaction[]; pairs: TransferPair[] }> {
+  const pairs = detectTransfers(history, { selfVpas: user.self_vpas || [] });
+  if (pairs.length === 0) return { history, pairs };
+
+  const marked = markTransfers(pairs);
+  await store.updateMany(marked);
+  log.info('Marked internal transfers', { count: pairs.length });
+
+  const markedByRef = new Map(marked.map(transaction => [transaction.referenceNumber, transaction]));
+  return { history: history.map(transaction => markedByRef.get(transaction.referenceNumber) || transaction), pairs };
+}
+
+/**
+ * Follow-up for new or changed transactions from any source (sync, manual entry,
+ * reprocessing, statement import): mark transfers, refresh accounts and alert on
+ * budgets. Returns the history with transfer marks applied.
+ */
+async function checkNewTransactions(user: User, store: TransactionStore): Promise<ParsedTransaction[]> {
+  const { history } = await markUserTransfers(user, store, await store.list());
+  await refreshAccounts(user.id, history);
+  await checkBudgets(user, history);
+  return history;
+}
+
+/**
+ * Choose the messages to sync. With an active watch, only messages added since
+ * the stored historyId are read; otherwise the query since the last processed
+ * email is listed. In push mode the watch is started or renewed here, before
+ * listing, so no message falls between the query and the watch.
+ */
+async function listMessagesToSync(
+  user: User,
+  gmail: GmailClient,
+  parsers: BankParser[]
+): Promise<{ messageIds: string[]; source: 'history' | 'query'; watch: WatchState }> {
+  const topic = getPushTopic();
+  const watch: WatchState = {
+    gmail_history_id: user.gmail_history_id,
+    gmail_watch_expires_at: user.gmail_watch_expires_at,
+  };
+
+  const renewWatch = async (resetHistory: boolean) => {
     try {
-      const sheetData = await sheets.spreadsheets.values.get({
-        spreadsheetId: user.google_sheet_id,
-        range: 'Transactions!G2:G',
-      });
-      (sheetData.data.values || []).forEach(row => {
-        if (row[0]) existingRefs.add(row[0]);
-      });
-    } catch (e) {
-      console.warn(`⚠️  Could not fetch existing transactions`);
+      const started = await startWatch(gmail, topic!);
+      watch.gmail_watch_expires_at = started.expiresAt.toISOString();
+      if (resetHistory) watch.gmail_history_id = started.historyId;
+      log.info('Gmail watch started', { expiresAt: watch.gmail_watch_expires_at });
+    } catch (watchError) {
+      log.warn('Could not start Gmail watch, polling instead', { error: watchError });
+      if (resetHistory) watch.gmail_history_id = null;
     }
+  };
 
-    const newTransactions: ParsedTransaction[] = [];
-    const missedEmails: any[] = [];
-    let latestTimestamp: Date | null = null;
+  if (topic && user.gmail_history_id && isWatchActive(user.gmail_watch_expires_at)) {
+    const history = await listHistoryMessageIds(gmail, user.gmail_history_id);
+    if (history) {
+      watch.gmail_history_id = history.historyId;
+      if (needsWatchRenewal(user.gmail_watch_expires_at)) await renewWatch(false);
+      return { messageIds: await filterBankMessages(gmail, parsers, history.messageIds), source: 'history', watch };
+    }
+    log.warn('Gmail history has expired, listing by query instead');
+  }
 
-    for (const message of messages) {
-      try {
-        const msgResponse = await gmail.users.messages.get({
-          userId: 'me',
-          id: message.id!,
-          format: 'full',
-        });
+  if (topic) await renewWatch(true);
 
-        const msg = msgResponse.data;
-        const headers = msg.payload?.headers || [];
-
-        const subject = headers.find(h => h.name?.toLowerCase() === 'subject')?.value || '';
-        const dateHeader = headers.find(h => h.name?.toLowerCase() === 'date')?.value;
-        const receivedDate = dateHeader ? new Date(dateHeader) : new Date(parseInt(msg.internalDate || '0'));
-
-        let body = '';
-        if (msg.payload?.body?.data) {
-          body = Buffer.from(msg.payload.body.data, 'base64').toString('utf-8');
-        } else if (msg.payload?.parts) {
-          for (const part of msg.payload.parts) {
-            if (part.mimeType === 'text/plain' && part.body?.data) {
-              body = Buffer.from(part.body.data, 'base64').toString('utf-8');
-              break;
-            }
-          }
-        }
+  let query = buildGmailQuery(parsers);
+  const lastProcessed = user.last_processed_email_timestamp;
 
-        const result = parseHDFCEmail(body, subject, receivedDate, message.id!);
+  if (lastProcessed) {
+    const timestamp = Math.floor(new Date(lastProcessed).getTime() / 1000);
+    query += ` after:${timestamp}`;
+  }
 
-        if (result.success && result.transaction) {
-          if (!existingRefs.has(result.transaction.referenceNumber)) {
-            newTransactions.push(result.transaction);
-            existingRefs.add(result.transaction.referenceNumber);
-            console.log(`✅ Parsed: ₹${result.transaction.amount} ${result.transaction.type} - ${result.transaction.description}`);
-          } else {
-            console.log(`🔄 Duplicate skipped: ${result.transaction.referenceNumber}`);
-          }
-        } else {
-          console.log(`❌ Parse failed: ${result.error || 'Unknown error'}`);
-          console.log(`📧 Subject: ${subject}`);
-          console.log(`📝 Body preview: ${body.substring(0, 150)}...`);
-          missedEmails.push({
-            email_id: message.id,
-            subject,
-            body_snippet: body.substring(0, 200),
-            received_date: receivedDate.toISOString(),
-            from: 'alerts@hdfcbank.net',
-          });
-        }
+  return { messageIds: await listAllMessageIds(gmail, query), source: 'query', watch };
+}
 
-        if (!latestTimestamp || receivedDate > latestTimestamp) {
-          latestTimestamp = receivedDate;
-        }
-      } catch (emailError) {
-        console.error(`❌ Error processing email:`, emailError);
-      }
+/**
+ * Create a spreadsheet for a user who has none and save it on the user. If the
+ * main app set one meanwhile, theirs is kept and the new spreadsheet is left unused.
+ */
+async function provisionSheet(user: User, sheets: SheetsClient): Promise<string> {
+  const spreadsheetId = await createTransactionsSpreadsheet(sheets, `Finance Tracker - ${user.google_email}`);
+
+  const { data: saved, error } = await supabase
+    .from('users')
+    .update({ google_sheet_id: spreadsheetId })
+    .eq('id', user.id)
+    .is('google_sheet_id', null)
+    .select('google_sheet_id');
+
+  if (error) {
+    throw new Error(`Failed to save the new sheet: ${error.message}`);
+  }
+  if (!saved || saved.length === 0) {
+    const { data: current } = await supabase.from('users').select('google_sheet_id').eq('id', user.id).single();
+    if (!current?.google_sheet_id) {
+      throw new Error('User has no sheet and the new sheet could not be saved');
     }
+    log.warn('User was given a sheet while one was being created', { unused: spreadsheetId });
+    return current.google_sheet_id;
+  }
 
-    if (newTransactions.length > 0) {
-      console.log(`💾 Saving ${newTransactions.length} transactions`);
-
-      const values = newTransactions.map(t => [
-        t.dateTime,
-        t.amount,
-        t.type,
-        t.method,
-        t.account,
-        t.description,
-        t.referenceNumber,
-        t.availableBalance,
-        t.category,
-        t.notes,
-        t.emailReceivedDate,
-      ]);
-
-      await sheets.spreadsheets.values.append({
-        spreadsheetId: user.google_sheet_id,
-        range: 'Transactions!A:K',
-        valueInputOption: 'USER_ENTERED',
-        requestBody: { values },
-      });
+  log.info('Created Google Sheet', { spreadsheetId });
+  await publishEvent(supabase, user.id, 'sheet.created', {
+    spreadsheetId,
+    url: `https://docs.google.com/spreadsheets/d/${spreadsheetId}`,
+  });
+  return spreadsheetId;
+}
+
+/**
+ * Sync one user's new emails into their sheet.
+ * Returns null when the user's Google token is unusable (no point retrying);
+ * throws on unexpected errors so the job queue can retry with backoff.
+ */
+async function processUser(user: User): Promise<{ transactions: number; missed: number; metrics: SyncMetrics } | null> {
+  const userStart = new Date();
+  const skipped = { transactions: 0, missed: 0, metrics: emptySyncMetrics() };
+  log.info('Processing user');
+
+  if (!(await acquireUserLease(supabase, user.id))) {
+    // The worker requeues the job until the other run lets go
+    throw userBusyError();
+  }
+  const stopRenewing = keepLeaseAlive(() => renewUserLease(supabase, user.id), DEFAULT_WORKER_OPTIONS.leaseMs);
+
+  try {
+    const clients = await getGoogleClients(user);
+    if (!clients) {
+      return null;
+    }
+    const { gmail, sheets } = clients;
+
+    const parsers = getEnabledParsers(user.enabled_banks);
+    if (parsers.length === 0) {
+      log.info('Skipping user', { reason: 'no_banks' });
+      return skipped;
     }
 
-    if (latestTimestamp) {
+    if (usesSheet(user) && !user.google_sheet_id) {
+      user.google_sheet_id = await provisionSheet(user, sheets);
+    }
+
+    const { messageIds, source, watch } = await listMessagesToSync(user, gmail, parsers);
+
+    const store = createTransactionStore(user, { sheets, supabase });
+    const rules = await loadCategoryRules(user.id);
+    const { transactions, missedEmails, latestTimestamp, complete, metrics } = await syncMessages(
+      user, gmail, store, parsers, messageIds, rules
+    );
+
+    // After a failed fetch, history resumes from where it started; a query sync drops the
+    // cursor so the next run lists by query from the last processed email again
+    if (!complete) {
+      watch.gmail_history_id = source === 'history' ? user.gmail_history_id : null;
+    }
+
+    try {
+      const history = transactions > 0 ? await checkNewTransactions(user, store) : null;
+      await checkRecurringPayments(user, history);
+    } catch (alertError) {
+      log.warn('Post-sync checks failed', { error: alertError });
+    }
+
+    if (latestTimestamp && user.google_sheet_id) {
       try {
         // Update metadata with Indian formatted timestamp
         const indianFormattedTime = formatToIndianDateTime(latestTimestamp);
@@ -269,7 +777,7 @@ async function processUser(user: User): Promise<{ transactions: number; missed:
           requestBody: { values: [[indianFormattedTime]] },
         });
       } catch (metaError) {
-        console.warn(`⚠️  Failed to update metadata`);
+        log.warn('Failed to update metadata', { error: metaError });
       }
     }
 
@@ -279,86 +787,906 @@ async function processUser(user: User): Promise<{ transactions: number; missed:
       .update({
         last_processed_email_timestamp: latestTimestamp?.toISOString() || user.last_processed_email_timestamp,
         last_sync_time: new Date().toISOString(),
-        is_processing: false,
+        gmail_history_id: watch.gmail_history_id,
+        gmail_watch_expires_at: watch.gmail_watch_expires_at,
         missed_emails: [...currentMissed, ...missedEmails].slice(-50),
       })
       .eq('id', user.id);
 
     const userDuration = new Date().getTime() - userStart.getTime();
-    console.log(`✅ Completed in ${Math.floor(userDuration / 1000)}s`);
+    log.info('User sync completed', { durationMs: userDuration, ...metrics });
+
+    await publishEvent(supabase, user.id, 'sync.completed', {
+      transactions,
+      missed: missedEmails.length,
+      duration: Math.floor(userDuration / 1000),
+    });
 
-    return { transactions: newTransactions.length, missed: missedEmails.length };
+    return { transactions, missed: missedEmails.length, metrics };
 
   } catch (error) {
-    console.error(`💥 Error:`, error);
-    await supabase.from('users').update({ is_processing: false }).eq('id', user.id);
-    return null;
+    log.error('User sync failed', { error });
+    throw error;
+  } finally {
+    stopRenewing();
+    await releaseUserLease(supabase, user.id);
   }
 }
 
-export async function runCron() {
-  const cronStart = new Date();
-  console.log(`\n📨 Starting cron cycle at ${cronStart.toISOString()}`);
+/**
+ * Start importing a user's email history over a date range, one chunk at a time.
+ * Progress is saved to users.backfill_state after every chunk; starting again
+ * without a range resumes from the saved cursor. Everything that would stop the
+ * backfill from starting is checked before this returns, and the import itself
+ * runs in `finished`. Returns null when the user does not exist.
+ */
+export async function startBackfill(
+  userId: string,
+  options: { from?: Date; to?: Date; chunkDays?: number } = {}
+): Promise<{ state?: BackfillState; finished?: Promise<BackfillState>; error?: string; status?: 409 } | null> {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!user) return null;
+
+  const typedUser = user as User;
+  const state = options.from && options.to
+    ? newBackfillState(options.from, options.to, options.chunkDays)
+    : resumeBackfillState(typedUser.backfill_state);
+
+  if (!state) {
+    return { error: 'No backfill in progress - provide a date range', status: 409 };
+  }
+  if (usesSheet(typedUser) && !typedUser.google_sheet_id) {
+    return { error: 'No Google Sheet configured', status: 409 };
+  }
+  if (!(await acquireUserLease(supabase, userId))) {
+    return { error: userBusyError().message, status: 409 };
+  }
+
+  log.info('Backfill started', { userId, from: state.cursor, to: state.to });
+  await supabase.from('users').update({ backfill_state: state }).eq('id', userId);
+
+  return { state, finished: runBackfill(typedUser, state) };
+}
+
+/**
+ * Import the remaining chunks of a started backfill, then release the user's lease
+ */
+async function runBackfill(user: User, initial: BackfillState): Promise<BackfillState> {
+  let state = initial;
+  let missedEmails = user.missed_emails || [];
+  // A single chunk can outlast the lease, so renew it on a timer rather than between chunks
+  const stopRenewing = keepLeaseAlive(() => renewUserLease(supabase, user.id), DEFAULT_WORKER_OPTIONS.leaseMs);
+
+  try {
+    const clients = await getGoogleClients(user);
+    if (!clients) {
+      throw new Error('Google authorisation failed');
+    }
+    const { gmail, sheets } = clients;
+
+    const parsers = getEnabledParsers(user.enabled_banks);
+    const store = createTransactionStore(user, { sheets, supabase });
+    const rules = await loadCategoryRules(user.id);
+
+    for (let chunk = nextBackfillChunk(state); chunk; chunk = nextBackfillChunk(state)) {
+      log.info('Backfilling chunk', { userId: user.id, from: chunk.from.toISOString(), to: chunk.to.toISOString() });
+      const messageIds = await listAllMessageIds(gmail, chunkQuery(buildGmailQuery(parsers), chunk));
+      const result = await syncMessages(user, gmail, store, parsers, messageIds, rules);
+
+      missedEmails = [...missedEmails, ...result.missedEmails].slice(-50);
+      if (!result.complete) {
+        // Keep the cursor at this chunk so resuming fetches the emails that failed
+        await supabase.from('users').update({ missed_emails: missedEmails }).eq('id', user.id);
+        throw new Error('Some emails in the chunk could not be fetched');
+      }
+
+      state = completeBackfillChunk(state, chunk, { transactions: result.transactions, missed: result.missedEmails.length });
+      await supabase
+        .from('users')
+        .update({ backfill_state: state, missed_emails: missedEmails })
+        .eq('id', user.id);
+    }
+
+    state = { ...state, status: 'completed', updated_at: new Date().toISOString() };
+    log.info('Backfill completed', { userId: user.id, transactions: state.transactions, missed: state.missed });
+  } catch (backfillError) {
+    log.error('Backfill failed', { userId: user.id, error: backfillError });
+    state = {
+      ...state,
+      status: 'failed',
+      error: (backfillError as Error).message,
+      updated_at: new Date().toISOString(),
+    };
+  } finally {
+    stopRenewing();
+  }
+
+  await supabase
+    .from('users')
+    .update({ backfill_state: state })
+    .eq('id', user.id);
+  await releaseUserLease(supabase, user.id);
+
+  return state;
+}
+
+/**
+ * Run a whole backfill and wait for it to finish (the command-line script)
+ */
+export async function backfillUser(
+  userId: string,
+  options: { from?: Date; to?: Date; chunkDays?: number } = {}
+): Promise<BackfillState> {
+  const started = await startBackfill(userId, options);
+  if (!started) {
+    throw new Error('User not found');
+  }
+  if (!started.finished) {
+    throw new Error(started.error);
+  }
+  return started.finished;
+}
+
+export interface ReprocessResult {
+  recovered: { email_id: string; referenceNumber: string; amount: number; type: string }[];
+  duplicates: string[];
+  stillFailing: { email_id: string; subject: string; error: string }[];
+}
+
+/**
+ * Re-fetch every email in users.missed_emails and run it through the current parsers.
+ * Recovered transactions are appended (deduplicated by reference number) and removed
+ * from missed_emails; emails that still fail stay with their latest error.
+ */
+export async function reprocessMissedEmails(userId: string): Promise<ReprocessResult> {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .single();
+
+  if (error || !user) {
+    throw new Error(error?.message || 'User not found');
+  }
+
+  const typedUser = user as User;
+  const missedEmails = typedUser.missed_emails || [];
+  const outcome: ReprocessResult = { recovered: [], duplicates: [], stillFailing: [] };
+
+  if (usesSheet(typedUser) && !typedUser.google_sheet_id) {
+    throw new Error('No Google Sheet configured');
+  }
+  if (missedEmails.length === 0) {
+    return outcome;
+  }
+  if (!(await acquireUserLease(supabase, userId))) {
+    throw userBusyError();
+  }
+
+  log.info('Reprocessing missed emails', { userId, count: missedEmails.length });
 
   try {
-    const { data: users, error } = await supabase
+    const clients = await getGoogleClients(typedUser);
+    if (!clients) {
+      throw new Error('Google authorisation failed');
+    }
+    const { gmail, sheets } = clients;
+
+    const parsers = getEnabledParsers(typedUser.enabled_banks);
+    const store = createTransactionStore(typedUser, { sheets, supabase });
+    const rules = await loadCategoryRules(userId);
+    const parsed: { email_id: string; transaction: ParsedTransaction }[] = [];
+    const remaining: any[] = [];
+
+    for (const missed of missedEmails) {
+      let failure: string;
+      try {
+        const { result } = await fetchAndParseEmail(gmail, parsers, missed.email_id);
+
+        if (result.success && result.transaction) {
+          parsed.push({ email_id: missed.email_id, transaction: categorizeTransaction(result.transaction, rules) });
+          continue;
+        }
+        failure = result.error || 'Unknown error';
+      } catch (fetchError) {
+        failure = `Could not fetch email: ${(fetchError as Error).message}`;
+      }
+
+      log.info('Missed email still failing', { userId, messageId: missed.email_id, error: failure });
+      outcome.stillFailing.push({ email_id: missed.email_id, subject: missed.subject, error: failure });
+      remaining.push({ ...missed, last_error: failure, retried_at: new Date().toISOString() });
+    }
+
+    const existingRefs = await store.findExistingRefs(parsed.map(p => p.transaction.referenceNumber));
+    const candidates: typeof parsed = [];
+
+    for (const { email_id, transaction } of parsed) {
+      if (existingRefs.has(transaction.referenceNumber)) {
+        log.info('Recovered email already stored', { userId, messageId: email_id });
+        outcome.duplicates.push(email_id);
+        continue;
+      }
+      candidates.push({ email_id, transaction });
+      existingRefs.add(transaction.referenceNumber);
+    }
+
+    // Near-duplicates merged into a stored transaction are not written, so they are not recovered
+    const written = await appendReconciled(userId, store, candidates.map(c => c.transaction));
+    const writtenRefs = new Set(written.map(t => t.referenceNumber));
+
+    for (const { email_id, transaction } of candidates) {
+      if (!writtenRefs.has(transaction.referenceNumber)) {
+        log.info('Recovered email merged with a stored transaction', { userId, messageId: email_id });
+        outcome.duplicates.push(email_id);
+        continue;
+      }
+      log.debug('Recovered missed email', { userId, messageId: email_id });
+      outcome.recovered.push({
+        email_id,
+        referenceNumber: transaction.referenceNumber,
+        amount: transaction.amount,
+        type: transaction.type,
+      });
+    }
+
+    await supabase
       .from('users')
-      .select('*')
-      .eq('is_active', true);
+      .update({ missed_emails: remaining })
+      .eq('id', userId);
 
-    if (error) {
-      console.error('❌ Database error:', error.message);
-      return { success: false, error: error.message };
+    if (written.length > 0) {
+      await checkNewTransactions(typedUser, store)
+        .catch(checkError => log.warn('Post-reprocess checks failed', { userId, error: checkError }));
     }
 
-    console.log(`👥 Found ${users?.length || 0} active users`);
+    log.info('Missed email reprocessing completed', { userId, recovered: outcome.recovered.length, stillFailing: outcome.stillFailing.length });
+    return outcome;
 
-    if (!users || users.length === 0) {
-      return { success: true, message: 'No users to process' };
+  } finally {
+    await releaseUserLease(supabase, userId);
+  }
+}
+
+/**
+ * Load a user and their transaction store for work outside the sync cycle (API
+ * routes, scripts). Google is only asked for a token when the sink uses the sheet.
+ * Throws when the user has no sheet for a sheet-backed sink or no usable token.
+ */
+export async function getUserStore(userId: string): Promise<{ user: User; store: TransactionStore }> {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('*')
+    .eq('id', userId)
+    .single();
+
+  if (error || !user) {
+    throw new Error(error?.message || 'User not found');
+  }
+
+  const typedUser = user as User;
+  if (usesSheet(typedUser) && !typedUser.google_sheet_id) {
+    throw new Error('No Google Sheet configured');
+  }
+
+  if (!usesSheet(typedUser)) {
+    return { user: typedUser, store: createTransactionStore(typedUser, { supabase }) };
+  }
+
+  const clients = await getGoogleClients(typedUser);
+  if (!clients) {
+    throw new Error('Google authorisation failed');
+  }
+
+  return { user: typedUser, store: createTransactionStore(typedUser, { sheets: clients.sheets, supabase }) };
+}
+
+/**
+ * Every stored transaction for a user, in storage order
+ */
+export async function listUserTransactions(userId: string): Promise<ParsedTransaction[]> {
+  const { store } = await getUserStore(userId);
+  return store.list();
+}
+
+/**
+ * Current-period spend against each of a user's budgets
+ */
+export async function getBudgetStatus(userId: string): Promise<BudgetStatus[]> {
+  const budgets = await loadBudgets(userId);
+  if (budgets.length === 0) return [];
+
+  const { store } = await getUserStore(userId);
+  return evaluateBudgets(budgets, await store.list());
+}
+
+/**
+ * Re-detect a user's recurring payments now instead of waiting for new transactions
+ */
+export async function detectUserRecurringPayments(userId: string): Promise<RecurringGroup[]> {
+  const { store } = await getUserStore(userId);
+  return refreshRecurringPayments(userId, await store.list());
+}
+
+/**
+ * Re-run category rules over a user's stored transactions.
+ * Only transactions whose category or notes change are written back.
+ */
+export async function recategorizeTransactions(
+  userId: string,
+  overwrite = false
+): Promise<{ scanned: number; updated: number }> {
+  const { user, store } = await getUserStore(userId);
+
+  const rules = await loadCategoryRules(userId);
+  const transactions = await store.list();
+
+  const changed = transactions
+    .map(transaction => ({ transaction, categorized: categorizeTransaction(transaction, rules, overwrite) }))
+    .filter(({ transaction, categorized }) =>
+      categorized.category !== transaction.category || categorized.notes !== transaction.notes
+    )
+    .map(({ categorized }) => categorized);
+
+  const updated = changed.length > 0 ? await store.updateMany(changed) : 0;
+
+  log.info('Recategorised transactions', { userId, updated, total: transactions.length });
+  return { scanned: transactions.length, updated };
+}
+
+/**
+ * Add a manual transaction through the same append path as synced emails
+ */
+export async function addManualTransaction(userId: string, input: ManualTransactionInput): Promise<ParsedTransaction> {
+  const { user, store } = await getUserStore(userId);
+  const rules = await loadCategoryRules(userId);
+
+  const transaction = categorizeTransaction(buildManualTransaction(input), rules);
+  // The user asked for this entry, so a matching email is only flagged, never merged
+  await appendReconciled(userId, store, [transaction], { mergeThreshold: Infinity });
+  await checkNewTransactions(user, store)
+    .catch(checkError => log.warn('Post-entry checks failed', { userId, error: checkError }));
+
+  log.info('Manual transaction added', { userId, referenceNumber: transaction.referenceNumber });
+  return transaction;
+}
+
+/**
+ * Replace a manual transaction, found by its MANUAL_ reference number.
+ * Returns null when no such transaction exists.
+ */
+export async function updateManualTransaction(
+  userId: string,
+  referenceNumber: string,
+  input: ManualTransactionInput
+): Promise<ParsedTransaction | null> {
+  const { user, store } = await getUserStore(userId);
+
+  const transaction = buildManualTransaction(input, referenceNumber);
+  if ((await store.updateMany([transaction])) === 0) return null;
+  await checkNewTransactions(user, store)
+    .catch(checkError => log.warn('Post-entry checks failed', { userId, error: checkError }));
+
+  log.info('Manual transaction updated', { userId, referenceNumber });
+  return transaction;
+}
+
+/**
+ * Delete a manual transaction, found by its MANUAL_ reference number.
+ * Returns false when no such transaction exists.
+ */
+export async function deleteManualTransaction(userId: string, referenceNumber: string): Promise<boolean> {
+  const { store } = await getUserStore(userId);
+
+  if (!(await store.remove(referenceNumber))) return false;
+
+  log.info('Manual transaction deleted', { userId, referenceNumber });
+  return true;
+}
+
+/**
+ * Resolve a flagged pair: merge removes one side from the store (the newer one
+ * unless keep names it), dismiss keeps both, and restore puts a merged
+ * transaction back. Returns null when the candidate does not exist.
+ */
+export async function resolveDuplicate(
+  userId: string,
+  candidateId: string,
+  action: DuplicateAction,
+  keep?: string
+): Promise<{ candidate?: DuplicateCandidate; error?: string; status?: 400 | 409 } | null> {
+  const { data, error } = await supabase
+    .from('duplicate_candidates')
+    .select('*')
+    .eq('id', candidateId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!data) return null;
+
+  const candidate = data as DuplicateCandidate;
+  const expected = action === 'restore' ? 'merged' : 'pending';
+  if (candidate.status !== expected) {
+    return { error: `Cannot ${action} a ${candidate.status} pair`, status: 409 };
+  }
+
+  const pair = [candidate.matched_reference_number, candidate.reference_number];
+  const keepRef = keep || candidate.matched_reference_number;
+  if (!pair.includes(keepRef)) {
+    return { error: 'keep must be one of the two reference numbers in the pair', status: 400 };
+  }
+
+  const update: Partial<DuplicateCandidate> = { resolved_at: new Date().toISOString() };
+
+  if (action === 'merge') {
+    const { store } = await getUserStore(userId);
+    const removeRef = pair.find(ref => ref !== keepRef)!;
+    await store.remove(removeRef);
+    update.status = 'merged';
+    update.removed_reference_number = removeRef;
+  } else if (action === 'restore') {
+    const { store } = await getUserStore(userId);
+    const removed = candidate.removed_reference_number === candidate.matched_reference_number
+      ? candidate.matched_transaction
+      : candidate.transaction;
+    await store.append([removed]);
+    update.status = 'dismissed';
+    update.removed_reference_number = null;
+  } else {
+    update.status = 'dismissed';
+  }
+
+  const { data: updated, error: updateError } = await supabase
+    .from('duplicate_candidates')
+    .update(update)
+    .eq('id', candidateId)
+    .select()
+    .single();
+
+  if (updateError) {
+    throw new Error(updateError.message);
+  }
+
+  log.info('Duplicate pair resolved', { userId, candidateId, status: update.status });
+  return { candidate: updated as DuplicateCandidate };
+}
+
+/**
+ * Run transfer detection over a user's whole history now. Returns the newly marked pairs.
+ */
+export async function detectUserTransfers(userId: string): Promise<TransferPair[]> {
+  const { user, store } = await getUserStore(userId);
+  return (await markUserTransfers(user, store, await store.list())).pairs;
+}
+
+/**
+ * Marked transfers, newest first, each with its debit and credit leg
+ */
+export async function listUserTransfers(
+  userId: string
+): Promise<{ transferId: string; debit: ParsedTransaction | null; credit: ParsedTransaction | null }[]> {
+  const { store } = await getUserStore(userId);
+  const pairs = new Map<string, { transferId: string; debit: ParsedTransaction | null; credit: ParsedTransaction | null }>();
+
+  for (const transaction of (await store.list()).filter(isTransfer)) {
+    const pair = pairs.get(transaction.transferId!) || { transferId: transaction.transferId!, debit: null, credit: null };
+    pair[transaction.type === 'Debit' ? 'debit' : 'credit'] = transaction;
+    pairs.set(transaction.transferId!, pair);
+  }
+
+  return Array.from(pairs.values()).reverse();
+}
+
+/**
+ * Unmark a wrongly detected transfer. Both legs are kept out of future
+ * detection. Returns false when no transaction carries the id.
+ */
+export async function unmarkTransfer(userId: string, transferId: string): Promise<boolean> {
+  if (transferId === NOT_A_TRANSFER) return false;
+
+  const { store } = await getUserStore(userId);
+  const legs = (await store.list()).filter(transaction => transaction.transferId === transferId);
+  if (legs.length === 0) return false;
+
+  await store.updateMany(legs.map(transaction => ({ ...transaction, transferId: NOT_A_TRANSFER })));
+  log.info('Transfer unmarked', { userId, transferId });
+  return true;
+}
+
+export interface AccountOverview extends Account {
+  effective_kind: AccountKind;
+  latest_balance: { balance: number; date: string } | null;
+}
+
+async function loadAccounts(userId: string): Promise<Account[]> {
+  const { data, error } = await supabase
+    .from('accounts')
+    .select('*')
+    .eq('user_id', userId)
+    .order('last_seen', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load accounts: ${error.message}`);
+  }
+  return (data || []) as Account[];
+}
+
+/**
+ * A user's accounts with the kind they are treated as and their latest balance.
+ * Accounts are re-discovered from the stored history first.
+ */
+export async function getAccountOverview(userId: string): Promise<AccountOverview[]> {
+  const { store } = await getUserStore(userId);
+  const history = await store.list();
+  await refreshAccounts(userId, history);
+
+  return (await loadAccounts(userId)).map(account => ({
+    ...account,
+    effective_kind: accountKind(account),
+    latest_balance: latestBalance(history, account.last4),
+  }));
+}
+
+/**
+ * Daily closing balances for one account. Returns null when the account is unknown.
+ */
+export async function getAccountBalances(
+  userId: string,
+  last4: string,
+  filter: AnalyticsFilter
+): Promise<DailyBalance[] | null> {
+  const accounts = await loadAccounts(userId);
+  if (!accounts.some(account => account.last4 === last4)) return null;
+
+  const { store } = await getUserStore(userId);
+  return buildBalanceTimeline(await store.list(), last4, filter);
+}
+
+/**
+ * Billing cycle, outstanding amount and payments for a credit card.
+ * Returns null when the account is unknown.
+ */
+export async function getCreditCardSummary(
+  userId: string,
+  last4: string
+): Promise<{ summary?: CreditCardSummary; error?: string } | null> {
+  const account = (await loadAccounts(userId)).find(a => a.last4 === last4);
+  if (!account) return null;
+
+  if (accountKind(account) !== 'credit_card') {
+    return { error: 'Account is not a credit card - label it with kind credit_card first' };
+  }
+
+  const { store } = await getUserStore(userId);
+  return { summary: summarizeCreditCard(account, await store.list()) };
+}
+
+export interface StatementImport {
+  id: string;
+  user_id: string;
+  format: StatementFormat;
+  account: string;
+  period_from: string | null;
+  period_to: string | null;
+  statement_rows: number;
+  matched: number;
+  inserted: number;
+  warnings: string[];
+  report: StatementReconciliation;
+  created_at: string;
+}
+
+/**
+ * Import an HDFC statement file: rows already stored (by reference, or by date
+ * and amount) are skipped, and rows only in the statement are inserted. The gap
+ * report is saved to statement_imports.
+ */
+export async function importStatement(userId: string, file: Buffer, account?: string): Promise<StatementImport> {
+  const statement = await parseHDFCStatement(file, account);
+  if (statement.transactions.length === 0) {
+    throw statementError(statement.warnings[0] || 'No transactions were found in the statement');
+  }
+
+  const { user, store } = await getUserStore(userId);
+  if (!(await acquireUserLease(supabase, userId))) {
+    throw userBusyError();
+  }
+
+  try {
+    log.info('Importing statement', { userId, format: statement.format, rows: statement.transactions.length });
+
+    const rules = await loadCategoryRules(userId);
+    const report = reconcileStatement(statement.transactions, await store.list());
+    report.missing = report.missing.map(transaction => categorizeTransaction(transaction, rules));
+
+    const inserted = await store.append(report.missing);
+    if (inserted.length > 0) {
+      await publishEvent(supabase, userId, 'transactions.appended', {
+        count: inserted.length,
+        transactions: inserted,
+        source: 'statement',
+      });
+      await checkNewTransactions(user, store)
+        .catch(checkError => log.warn('Post-import checks failed', { userId, error: checkError }));
     }
 
-    let totalTransactions = 0;
-    let totalMissed = 0;
+    const { data, error } = await supabase
+      .from('statement_imports')
+      .insert({
+        user_id: userId,
+        format: statement.format,
+        account: statement.account,
+        period_from: report.period.from,
+        period_to: report.period.to,
+        statement_rows: statement.transactions.length,
+        matched: report.matchedByReference + report.matchedByAmount.length,
+        inserted: inserted.length,
+        warnings: statement.warnings,
+        report,
+      })
+      .select()
+      .single();
+
+    if (error) {
+      throw new Error(`Statement imported but the report could not be saved: ${error.message}`);
+    }
+
+    log.info('Statement imported', { userId, from: report.period.from, to: report.period.to, inserted: inserted.length });
+    return data as StatementImport;
+
+  } finally {
+    await releaseUserLease(supabase, userId);
+  }
+}
+
+export interface SyncStatus {
+  user_id: string;
+  last_sync_time: string | null;
+  last_processed_email_timestamp: string | null;
+  token_state: TokenState;
+  in_progress: boolean;
+  active_job: SyncJob | null;
+  last_run: { transactions: number; missed: number; finished_at: string | null; status: string } | null;
+  recent_missed_emails: any[];
+}
+
+/**
+ * Current sync state for a user: Google token state, lease/job activity, last run counts and recent missed emails
+ */
+export async function getSyncStatus(userId: string): Promise<SyncStatus | null> {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('id, last_sync_time, last_processed_email_timestamp, token_state, lock_expires_at, missed_emails')
+    .eq('id', userId)
+    .single();
+
+  if (error || !user) {
+    return null;
+  }
+
+  const { data: jobs } = await supabase
+    .from('sync_jobs')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(10);
 
-    for (const user of users) {
+  const recentJobs = (jobs || []) as SyncJob[];
+  const activeJob = recentJobs.find(job => job.status === 'queued' || job.status === 'running') || null;
+  const lastFinished = recentJobs.find(job => job.status === 'succeeded' || job.status === 'failed');
+
+  return {
+    user_id: user.id,
+    last_sync_time: user.last_sync_time,
+    last_processed_email_timestamp: user.last_processed_email_timestamp,
+    token_state: user.token_state || 'ok',
+    in_progress: isUserLocked(user) || activeJob?.status === 'running',
+    active_job: activeJob,
+    last_run: lastFinished
+      ? {
+          transactions: lastFinished.result?.transactions || 0,
+          missed: lastFinished.result?.missed || 0,
+          finished_at: lastFinished.finished_at,
+          status: lastFinished.status,
+        }
+      : null,
+    recent_missed_emails: (user.missed_emails || []).slice(-10).reverse(),
+  };
+}
+
+/**
+ * Queue a sync for the mailbox a Gmail push notification is about. Notifications
+ * for unknown or inactive users, users who must reconnect, or history already
+ * synced are ignored.
+ */
+export async function handleGmailPush(notification: PushNotification): Promise<{ queued: boolean; reason?: string }> {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('id, is_active, token_state, gmail_history_id')
+    .ilike('google_email', notification.emailAddress.replace(/[\\%_]/g, '\\$&'))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!user || !user.is_active) {
+    return { queued: false, reason: 'unknown_user' };
+  }
+  if (user.token_state === 'needs_reauth') {
+    return { queued: false, reason: 'needs_reauth' };
+  }
+  if (user.gmail_history_id && !isNewerHistory(notification.historyId, user.gmail_history_id)) {
+    return { queued: false, reason: 'already_synced' };
+  }
+
+  const { jobs } = await enqueueSyncJobs(supabase, [user.id]);
+  return jobs.length > 0 ? { queued: true } : { queued: false, reason: 'already_queued' };
+}
+
+/**
+ * Queue a sync for a single user. When one is already queued or running, that
+ * job is returned with queued false. Returns null when the user does not exist,
+ * and a 409 when the user is inactive or must reconnect Google first.
+ */
+export async function triggerUserSync(
+  userId: string
+): Promise<{ job?: SyncJob; queued?: boolean; error?: string; status?: 409 } | null> {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('id, is_active, token_state')
+    .eq('id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  if (!user) return null;
+  if (!user.is_active) {
+    return { error: 'User is not active', status: 409 };
+  }
+  if (user.token_state === 'needs_reauth') {
+    return { error: 'User must reconnect Google before syncing', status: 409 };
+  }
+
+  const { jobs, existing } = await enqueueSyncJobs(supabase, [userId]);
+  return jobs.length > 0 ? { job: jobs[0], queued: true } : { job: existing[0], queued: false };
+}
+
+// Google API errors from failed job attempts, by batch; the retried job's result only counts its last attempt
+const attemptErrors = new Map<string, number>();
+
+/**
+ * Job handler: sync the job's user. Log lines inside carry the cycle, job and user ids.
+ */
+export async function runSyncJob(
+  job: SyncJob
+): Promise<{ transactions: number; missed: number; metrics: SyncMetrics; tokenFailure?: boolean }> {
+  return runWithLogContext({ cycleId: job.batch_id, jobId: job.id, userId: job.user_id }, async () => {
+    const { data: user, error } = await supabase
+      .from('users')
+      .select('*')
+      .eq('id', job.user_id)
+      .single();
+
+    if (error || !user) {
+      throw new Error(error?.message || 'User not found');
+    }
+    if (!user.is_active || user.token_state === 'needs_reauth') {
+      log.info('Skipping user', { reason: user.is_active ? 'needs_reauth' : 'inactive' });
+      return { transactions: 0, missed: 0, metrics: emptySyncMetrics() };
+    }
+
+    try {
       const result = await processUser(user as User);
-      if (result) {
-        totalTransactions += result.transactions;
-        totalMissed += result.missed;
+      return result || { transactions: 0, missed: 0, metrics: { ...emptySyncMetrics(), token_failures: 1 }, tokenFailure: true };
+    } catch (syncError) {
+      if (isGoogleApiError(syncError)) {
+        attemptErrors.set(job.batch_id, (attemptErrors.get(job.batch_id) || 0) + 1);
+      }
+      if (isSheetSchemaError(syncError)) {
+        // Nothing was written; the user has to fix the sheet before syncing can continue
+        log.error('Sheet layout is not valid', { problems: syncError.problems });
+        await publishEvent(supabase, job.user_id, 'sheet.invalid', { problems: syncError.problems });
       }
+      throw syncError;
     }
+  });
+}
+
+/**
+ * Save the run and its metrics once every job in a cycle has finished
+ */
+async function logCycleComplete(batchId: string, jobs: SyncJob[]): Promise<void> {
+  const run = summariseRun(batchId, jobs, { google_api_errors: attemptErrors.get(batchId) || 0 });
 
-    const duration = new Date().getTime() - cronStart.getTime();
-    console.log(`🏁 Cycle completed - ${totalTransactions} transactions, ${totalMissed} missed, ${Math.floor(duration / 1000)}s\n`);
+  let recorded = true;
+  try {
+    recorded = await recordRun(supabase, run);
+  } catch (recordError) {
+    log.warn('Could not record sync run', { cycleId: batchId, error: recordError });
+  }
+  attemptErrors.delete(batchId);
+  // Another job of the batch that finished at the same time already recorded it
+  if (!recorded) return;
+
+  const { id, ...totals } = run;
+  log.info('Cycle completed', { cycleId: id, ...totals });
+}
+
+/**
+ * Queue a sync job for every active user who does not need to reconnect Google.
+ * Scheduled cycles in push mode skip users whose Gmail watch is healthy. The jobs
+ * are run by the worker in the cron service; poll getJobs(batchId) for progress.
+ */
+export async function runCron(options: { scheduled?: boolean } = {}) {
+  log.info('Queueing cron cycle', { scheduled: !!options.scheduled });
+
+  try {
+    const { data: activeUsers, error } = await supabase
+      .from('users')
+      .select('id, gmail_history_id, gmail_watch_expires_at, last_sync_time')
+      .eq('is_active', true)
+      .neq('token_state', 'needs_reauth');
+
+    if (error) {
+      log.error('Could not load active users', { error: error.message });
+      return { success: false, error: error.message };
+    }
+
+    // In push mode the schedule only covers users without a healthy watch; the rest sync on notification
+    const users = options.scheduled && getPushTopic()
+      ? (activeUsers || []).filter(user => needsScheduledSync(user))
+      : activeUsers || [];
+
+    if (users.length === 0) {
+      return { success: true, message: 'No users to process' };
+    }
+
+    const { batchId, jobs } = await enqueueSyncJobs(supabase, users.map(user => user.id));
+    log.info('Queued sync jobs', { cycleId: batchId, users: users.length, watched: (activeUsers || []).length - users.length, jobs: jobs.length });
 
     return {
       success: true,
-      totalTransactions,
-      totalMissed,
-      duration: Math.floor(duration / 1000),
+      batchId,
+      queued: jobs.length,
+      jobIds: jobs.map(job => job.id),
     };
 
   } catch (error) {
-    console.error('💥 Critical error:', error);
+    log.error('Failed to queue cron cycle', { error });
     return { success: false, error: (error as Error).message };
   }
 }
 
-// Infinite loop mode
+// Infinite loop mode: queue a cycle every 5 minutes while the worker runs jobs
 async function runInfiniteCron() {
-  console.log('🚀 Starting cron service - running every 5 minutes\n');
+  log.info('Starting cron service', { intervalMinutes: 5, gmailPush: !!getPushTopic() });
   let cycleCount = 0;
 
+  runWorker(supabase, runSyncJob, { onBatchComplete: logCycleComplete })
+    .catch(error => {
+      log.error('Worker crashed', { error });
+      process.exit(1);
+    });
+
   while (true) {
     cycleCount++;
-    console.log(`\n🔄 === CYCLE ${cycleCount} ===`);
 
     try {
-      await runCron();
-      console.log(`⏳ Next cycle in 5 minutes...`);
+      await runCron({ scheduled: true });
       await new Promise(resolve => setTimeout(resolve, 5 * 60 * 1000));
     } catch (error) {
-      console.error(`❌ Cycle failed, retrying in 1 minute...`);
+      log.error('Cycle failed, retrying in 1 minute', { cycle: cycleCount, error });
       await new Promise(resolve => setTimeout(resolve, 60 * 1000));
     }
   }
@@ -366,5 +1694,5 @@ async function runInfiniteCron() {
 
 // Run if executed directly
 if (require.main === module) {
-  runInfiniteCron().catch(console.error);
+  runInfiniteCron().catch(error => log.error('Cron service stopped', { error }));
 }
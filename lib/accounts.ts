@@ -0,0 +1,284 @@
+/**
+ * Accounts
+ * Bank accounts and cards discovered from the last four digits on alerts,
+ * labelled by the user, with balance timelines and credit card billing cycles
+ */
+
+import type { ParsedTransaction } from './email-parser';
+import type { AnalyticsFilter } from './analytics';
+import { parseTransactionDateTime, toDayKey } from './transaction-dates';
+import { bodyErrors, checkBody, type BodySchema } from './request-schema';
+
+export type AccountKind = 'savings' | 'salary' | 'credit_card';
+
+export const ACCOUNT_KINDS: AccountKind[] = ['savings', 'salary', 'credit_card'];
+
+export interface Account {
+  id: string;
+  user_id: string;
+  last4: string;
+  // Guessed from the alerts; kind (set by the user) wins when present
+  detected_kind: AccountKind;
+  kind: AccountKind | null;
+  nickname: string | null;
+  // Credit cards: day of the month the statement is generated and payment is due
+  statement_day: number | null;
+  due_day: number | null;
+  credit_limit: number | null;
+  first_seen: string;
+  last_seen: string;
+  transaction_count: number;
+  created_at: string;
+}
+
+export type DiscoveredAccount = Pick<Account, 'last4' | 'detected_kind' | 'first_seen' | 'last_seen' | 'transaction_count'>;
+
+export type AccountLabel = Partial<Pick<Account, 'kind' | 'nickname' | 'statement_day' | 'due_day' | 'credit_limit'>>;
+
+export interface DailyBalance {
+  date: string;
+  balance: number;
+}
+
+export interface CardCycle {
+  start: string;
+  end: string;
+  spent: number;
+  credits: number;
+}
+
+export interface CardStatement extends CardCycle {
+  dueDate: string;
+  billed: number;
+  paid: number;
+  remaining: number;
+  overdue: boolean;
+}
+
+export interface CreditCardSummary {
+  last4: string;
+  nickname: string | null;
+  outstanding: number;
+  availableCredit: number | null;
+  // Null until statement_day is set
+  currentCycle: CardCycle | null;
+  lastStatement: CardStatement | null;
+  payments: { dateTime: string; amount: number; referenceNumber: string; description: string }[];
+}
+
+// HDFC credit card dues fall about 20 days after the statement date
+const DEFAULT_DUE_DAYS = 20;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+/**
+ * The kind an account is treated as
+ */
+export function accountKind(account: Pick<Account, 'kind' | 'detected_kind'>): AccountKind {
+  return account.kind ?? account.detected_kind;
+}
+
+function datedFor(transactions: ParsedTransaction[], last4: string): { transaction: ParsedTransaction; date: Date }[] {
+  return transactions
+    .filter(transaction => transaction.account === last4)
+    .map(transaction => ({ transaction, date: parseTransactionDateTime(transaction.dateTime) }))
+    .filter((entry): entry is { transaction: ParsedTransaction; date: Date } => !!entry.date)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+}
+
+/**
+ * Group transactions by account number. An account is a credit card when most
+ * of its alerts are card spends with method Credit Card, and a salary account
+ * when it has received a salary credit.
+ */
+export function discoverAccounts(transactions: ParsedTransaction[]): DiscoveredAccount[] {
+  const last4s = new Set(transactions.map(transaction => transaction.account).filter(account => /^\d{3,4}$/.test(account)));
+
+  return Array.from(last4s).map(last4 => {
+    const entries = datedFor(transactions, last4);
+    const all = transactions.filter(transaction => transaction.account === last4);
+
+    const cardAlerts = all.filter(transaction => transaction.method === 'Credit Card').length;
+    const salaried = all.some(transaction =>
+      transaction.type === 'Credit' &&
+      (transaction.category.toLowerCase() === 'salary' || /\bsal(ary)?\b/i.test(transaction.description))
+    );
+
+    const today = toDayKey(new Date());
+    return {
+      last4,
+      detected_kind: cardAlerts * 2 > all.length ? 'credit_card' : salaried ? 'salary' : 'savings',
+      first_seen: entries.length > 0 ? toDayKey(entries[0].date) : today,
+      last_seen: entries.length > 0 ? toDayKey(entries[entries.length - 1].date) : today,
+      transaction_count: all.length,
+    };
+  });
+}
+
+export const ACCOUNT_LABEL_SCHEMA: BodySchema = {
+  kind: { type: 'string', optional: true, values: ACCOUNT_KINDS },
+  nickname: { type: 'string', optional: true, maxLength: 50 },
+  statement_day: { type: 'integer', optional: true, min: 1, max: 31 },
+  due_day: { type: 'integer', optional: true, min: 1, max: 31 },
+  credit_limit: { type: 'number', optional: true, min: 0.01 },
+};
+
+/**
+ * Validate an account label from a request body. Every field is optional and
+ * null clears it.
+ */
+export function validateAccountLabel(body: any): { label?: AccountLabel; error?: string; details?: string[] } {
+  const problems = checkBody(ACCOUNT_LABEL_SCHEMA, body);
+  if (problems.length > 0) {
+    return bodyErrors(problems);
+  }
+
+  const label: AccountLabel = {};
+  if (body.kind !== undefined) label.kind = body.kind;
+  if (body.nickname !== undefined) label.nickname = body.nickname?.trim() || null;
+  if (body.statement_day !== undefined) label.statement_day = body.statement_day;
+  if (body.due_day !== undefined) label.due_day = body.due_day;
+  if (body.credit_limit !== undefined) label.credit_limit = body.credit_limit === null ? null : round(body.credit_limit);
+
+  if (Object.keys(label).length === 0) {
+    return bodyErrors(['Nothing to update']);
+  }
+
+  return { label };
+}
+
+/**
+ * Closing available balance per day for one account, from the balances
+ * printed on its alerts
+ */
+export function buildBalanceTimeline(
+  transactions: ParsedTransaction[],
+  last4: string,
+  filter: AnalyticsFilter = { from: null, to: null }
+): DailyBalance[] {
+  const days = new Map<string, number>();
+
+  for (const { transaction, date } of datedFor(transactions, last4)) {
+    if (typeof transaction.availableBalance !== 'number') continue;
+    if ((filter.from && date < filter.from) || (filter.to && date > filter.to)) continue;
+    days.set(toDayKey(date), transaction.availableBalance);
+  }
+
+  return Array.from(days.entries()).map(([date, balance]) => ({ date, balance }));
+}
+
+/**
+ * Latest available balance seen for an account, if any
+ */
+export function latestBalance(transactions: ParsedTransaction[], last4: string): { balance: number; date: string } | null {
+  const withBalance = datedFor(transactions, last4).filter(entry => typeof entry.transaction.availableBalance === 'number');
+  const last = withBalance[withBalance.length - 1];
+  return last ? { balance: last.transaction.availableBalance as number, date: toDayKey(last.date) } : null;
+}
+
+// The statement date in a given month, clamped for short months
+function statementDate(year: number, month: number, day: number): Date {
+  const lastDay = new Date(year, month + 1, 0).getDate();
+  return new Date(year, month, Math.min(day, lastDay));
+}
+
+/**
+ * Statement dates around `now`: the last one generated (on or before today)
+ * and the ones either side of it
+ */
+export function getCardCycleDates(statementDay: number, now: Date = new Date()): { previous: Date; last: Date; next: Date } {
+  const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  let month = now.getMonth();
+  if (statementDate(now.getFullYear(), month, statementDay) > today) month--;
+
+  return {
+    previous: statementDate(now.getFullYear(), month - 1, statementDay),
+    last: statementDate(now.getFullYear(), month, statementDay),
+    next: statementDate(now.getFullYear(), month + 1, statementDay),
+  };
+}
+
+function addDays(date: Date, days: number): Date {
+  return new Date(date.getFullYear(), date.getMonth(), date.getDate() + days);
+}
+
+/**
+ * Billing cycle, outstanding amount and payments for a credit card. Card
+ * credits (bill payments and refunds) reduce what is owed. When a credit limit
+ * is set and the alerts carry the available limit, outstanding is read from
+ * that; otherwise it is spends minus credits across the stored history.
+ */
+export function summarizeCreditCard(
+  account: Pick<Account, 'last4' | 'nickname' | 'statement_day' | 'due_day' | 'credit_limit'>,
+  transactions: ParsedTransaction[],
+  now: Date = new Date()
+): CreditCardSummary {
+  const entries = datedFor(transactions, account.last4);
+
+  const flows = (start: Date, end: Date) => {
+    const inRange = entries.filter(entry => entry.date >= start && entry.date < end);
+    const sum = (type: 'Credit' | 'Debit') => round(
+      inRange.filter(entry => entry.transaction.type === type).reduce((total, entry) => total + entry.transaction.amount, 0)
+    );
+    return { spent: sum('Debit'), credits: sum('Credit') };
+  };
+
+  const everything = flows(new Date(0), new Date(8.64e15));
+  const available = latestBalance(transactions, account.last4);
+
+  let outstanding = Math.max(0, round(everything.spent - everything.credits));
+  if (account.credit_limit && available) {
+    outstanding = Math.max(0, round(account.credit_limit - available.balance));
+  }
+
+  let currentCycle: CardCycle | null = null;
+  let lastStatement: CardStatement | null = null;
+
+  if (account.statement_day) {
+    const { previous, last, next } = getCardCycleDates(account.statement_day, now);
+    const cycleStart = addDays(last, 1);
+    const statementStart = addDays(previous, 1);
+
+    currentCycle = { start: toDayKey(cycleStart), end: toDayKey(next), ...flows(cycleStart, addDays(next, 1)) };
+
+    let dueDate = addDays(last, DEFAULT_DUE_DAYS);
+    if (account.due_day) {
+      dueDate = statementDate(last.getFullYear(), last.getMonth() + (account.due_day > last.getDate() ? 0 : 1), account.due_day);
+    }
+
+    const statement = flows(statementStart, cycleStart);
+    const billed = Math.max(0, round(statement.spent - statement.credits));
+    const paid = currentCycle.credits;
+    const remaining = Math.max(0, round(billed - paid));
+
+    lastStatement = {
+      start: toDayKey(statementStart),
+      end: toDayKey(last),
+      ...statement,
+      dueDate: toDayKey(dueDate),
+      billed,
+      paid,
+      remaining,
+      overdue: remaining > 0 && toDayKey(now) > toDayKey(dueDate),
+    };
+  }
+
+  return {
+    last4: account.last4,
+    nickname: account.nickname,
+    outstanding,
+    availableCredit: account.credit_limit ? round(account.credit_limit - outstanding) : null,
+    currentCycle,
+    lastStatement,
+    payments: entries
+      .filter(entry => entry.transaction.type === 'Credit')
+      .reverse()
+      .slice(0, 12)
+      .map(({ transaction }) => ({
+        dateTime: transaction.dateTime,
+        amount: transaction.amount,
+        referenceNumber: transaction.referenceNumber,
+        description: transaction.description,
+      })),
+  };
+}
@@ -0,0 +1,244 @@
+/**
+ * Spending Analytics
+ * Summaries of a user's stored transactions for dashboard charts
+ */
+
+import type { ParsedTransaction } from './email-parser';
+import { extractVpa } from './categorizer';
+import { parseTransactionDateTime, toMonthKey } from './transaction-dates';
+import { isTransfer } from './transfers';
+
+export interface AnalyticsFilter {
+  from: Date | null;
+  to: Date | null;
+  // Last four digits, to keep card and bank account spending apart
+  account?: string;
+}
+
+export interface FlowTotals {
+  income: number;
+  spend: number;
+  net: number;
+  count: number;
+}
+
+export interface GroupTotals extends FlowTotals {
+  key: string;
+}
+
+export interface BalancePoint {
+  dateTime: string;
+  balance: number;
+  referenceNumber: string;
+}
+
+export interface SpendingAnalytics {
+  range: { from: string | null; to: string | null };
+  totals: FlowTotals;
+  byMonth: GroupTotals[];
+  byCategory: GroupTotals[];
+  byMethod: GroupTotals[];
+  byCounterparty: GroupTotals[];
+  balances: { account: string; points: BalancePoint[] }[];
+  // Transactions left out because their dateTime could not be read
+  undated: number;
+  // Internal transfer legs in range, left out of every total
+  transfers: number;
+}
+
+// Route names for the individual sections of SpendingAnalytics
+export const ANALYTICS_SECTIONS = {
+  totals: 'totals',
+  monthly: 'byMonth',
+  categories: 'byCategory',
+  methods: 'byMethod',
+  counterparties: 'byCounterparty',
+  balances: 'balances',
+} as const satisfies Record<string, keyof SpendingAnalytics>;
+
+export type AnalyticsSection = keyof typeof ANALYTICS_SECTIONS;
+
+const round = (value: number) => Math.round(value * 100) / 100;
+
+function parseFilterDate(value: any, endOfDay: boolean): Date | null | undefined {
+  if (value === undefined || value === null || value === '') return null;
+  if (typeof value !== 'string') return undefined;
+
+  // Date-only values are local calendar days; `to` covers the whole day
+  const dayMatch = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+  const date = dayMatch
+    ? new Date(parseInt(dayMatch[1], 10), parseInt(dayMatch[2], 10) - 1, parseInt(dayMatch[3], 10))
+    : new Date(value);
+
+  if (isNaN(date.getTime())) return undefined;
+  if (dayMatch && endOfDay) date.setHours(23, 59, 59, 999);
+  return date;
+}
+
+/**
+ * Read from/to query parameters (YYYY-MM-DD or ISO timestamps) and an optional account
+ */
+export function parseAnalyticsFilter(query: any): { filter?: AnalyticsFilter; error?: string } {
+  const from = parseFilterDate(query?.from, false);
+  const to = parseFilterDate(query?.to, true);
+
+  if (from === undefined || to === undefined) {
+    return { error: 'from and to must be dates (YYYY-MM-DD or ISO 8601)' };
+  }
+  if (from && to && from > to) {
+    return { error: 'from cannot be after to' };
+  }
+  if (query?.account !== undefined && (typeof query.account !== 'string' || !/^\d{3,4}$/.test(query.account))) {
+    return { error: 'account must be the last 4 digits' };
+  }
+
+  return { filter: query?.account ? { from, to, account: query.account } : { from, to } };
+}
+
+function emptyTotals(): FlowTotals {
+  return { income: 0, spend: 0, net: 0, count: 0 };
+}
+
+function addToTotals(totals: FlowTotals, transaction: ParsedTransaction): void {
+  if (transaction.type === 'Credit') {
+    totals.income += transaction.amount;
+  } else {
+    totals.spend += transaction.amount;
+  }
+  totals.net = totals.income - totals.spend;
+  totals.count++;
+}
+
+function roundTotals<T extends FlowTotals>(totals: T): T {
+  return { ...totals, income: round(totals.income), spend: round(totals.spend), net: round(totals.net) };
+}
+
+function groupBy(
+  transactions: ParsedTransaction[],
+  keyOf: (transaction: ParsedTransaction) => string | null
+): GroupTotals[] {
+  const groups = new Map<string, GroupTotals>();
+
+  for (const transaction of transactions) {
+    const key = keyOf(transaction);
+    if (key === null) continue;
+
+    const group = groups.get(key) || { key, ...emptyTotals() };
+    addToTotals(group, transaction);
+    groups.set(key, group);
+  }
+
+  return Array.from(groups.values()).map(roundTotals);
+}
+
+const bySpend = (a: GroupTotals, b: GroupTotals) => b.spend - a.spend || b.income - a.income;
+
+/**
+ * Build every analytics section for the transactions inside the filter range
+ */
+export function buildAnalytics(transactions: ParsedTransaction[], filter: AnalyticsFilter): SpendingAnalytics {
+  const dated: { transaction: ParsedTransaction; date: Date }[] = [];
+  let undated = 0;
+
+  for (const transaction of transactions) {
+    const date = parseTransactionDateTime(transaction.dateTime);
+    if (!date) {
+      undated++;
+      continue;
+    }
+    if ((filter.from && date < filter.from) || (filter.to && date > filter.to)) continue;
+    if (filter.account && transaction.account !== filter.account) continue;
+    dated.push({ transaction, date });
+  }
+
+  dated.sort((a, b) => a.date.getTime() - b.date.getTime());
+  const inRange = dated.map(entry => entry.transaction).filter(transaction => !isTransfer(transaction));
+  const monthOf = new Map(dated.map(entry => [entry.transaction, toMonthKey(entry.date)]));
+
+  const totals = emptyTotals();
+  inRange.forEach(transaction => addToTotals(totals, transaction));
+
+  const balances = new Map<string, BalancePoint[]>();
+  for (const { transaction, date } of dated) {
+    if (typeof transaction.availableBalance !== 'number') continue;
+
+    const account = transaction.account || 'unknown';
+    const points = balances.get(account) || [];
+    points.push({
+      dateTime: date.toISOString(),
+      balance: transaction.availableBalance,
+      referenceNumber: transaction.referenceNumber,
+    });
+    balances.set(account, points);
+  }
+
+  return {
+    range: { from: filter.from?.toISOString() || null, to: filter.to?.toISOString() || null },
+    totals: roundTotals(totals),
+    byMonth: groupBy(inRange, transaction => monthOf.get(transaction)!).sort((a, b) => a.key.localeCompare(b.key)),
+    byCategory: groupBy(inRange, transaction => transaction.category || 'Uncategorised').sort(bySpend),
+    byMethod: groupBy(inRange, transaction => transaction.method || 'Unknown').sort(bySpend),
+    byCounterparty: groupBy(inRange, transaction => extractVpa(transaction.description)).sort(bySpend),
+    balances: Array.from(balances.entries()).map(([account, points]) => ({ account, points })),
+    undated,
+    transfers: dated.length - inRange.length,
+  };
+}
+
+interface CacheEntry {
+  version: string | null;
+  transactions: Promise<ParsedTransaction[]>;
+  results: Map<string, SpendingAnalytics>;
+}
+
+/**
+ * Per-user cache of loaded transactions and computed analytics. An entry is
+ * reused while the version (the user's last sync time) is unchanged.
+ */
+export function createAnalyticsCache(maxUsers = 200) {
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get(
+      userId: string,
+      version: string | null,
+      filter: AnalyticsFilter,
+      load: () => Promise<ParsedTransaction[]>
+    ): Promise<{ analytics: SpendingAnalytics; cached: boolean }> {
+      let entry = entries.get(userId);
+      if (!entry || entry.version !== version) {
+        entry = { version, transactions: load(), results: new Map() };
+      }
+
+      // Re-insert so the least recently used user is evicted first
+      entries.delete(userId);
+      entries.set(userId, entry);
+      if (entries.size > maxUsers) {
+        entries.delete(entries.keys().next().value!);
+      }
+
+      const current = entry;
+      const filterKey = `${filter.from?.getTime() ?? ''}:${filter.to?.getTime() ?? ''}:${filter.account ?? ''}`;
+      const hit = current.results.get(filterKey);
+      if (hit) {
+        return { analytics: hit, cached: true };
+      }
+
+      let transactions: ParsedTransaction[];
+      try {
+        transactions = await current.transactions;
+      } catch (error) {
+        if (entries.get(userId) === current) entries.delete(userId);
+        throw error;
+      }
+
+      const analytics = buildAnalytics(transactions, filter);
+      current.results.set(filterKey, analytics);
+      return { analytics, cached: false };
+    },
+
+    invalidate(userId: string): void {
+      entries.delete(userId);
+    },
+  };
+}
@@ -0,0 +1,157 @@
+/**
+ * Audit Log
+ * One row per authenticated API call: who called, which route, for which user,
+ * and how it ended. Rows are only ever inserted (the table rejects updates and deletes).
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AuthPrincipal } from './auth';
+
+export type AuditOutcome = 'success' | 'invalid' | 'denied' | 'not_found' | 'rate_limited' | 'error';
+
+export const AUDIT_OUTCOMES: AuditOutcome[] = ['success', 'invalid', 'denied', 'not_found', 'rate_limited', 'error'];
+
+export interface AuditEntry {
+  request_id: string | null;
+  caller_kind: AuthPrincipal['kind'];
+  caller_user_id: string | null;
+  token_id: string | null;
+  method: string;
+  route: string;
+  target_user_id: string | null;
+  status: number;
+  outcome: AuditOutcome;
+  duration_ms: number;
+  ip: string | null;
+}
+
+export interface AuditRecord extends AuditEntry {
+  id: number;
+  created_at: string;
+}
+
+export interface AuditFilter {
+  userId?: string;
+  callerKind?: AuthPrincipal['kind'];
+  tokenId?: string;
+  route?: string;
+  outcome?: AuditOutcome;
+  from?: Date;
+  to?: Date;
+  limit: number;
+}
+
+export function auditOutcome(status: number): AuditOutcome {
+  if (status === 429) return 'rate_limited';
+  if (status === 401 || status === 403) return 'denied';
+  if (status === 404) return 'not_found';
+  if (status >= 500) return 'error';
+  if (status >= 400) return 'invalid';
+  return 'success';
+}
+
+/**
+ * Build the row for a finished call
+ */
+export function buildAuditEntry(
+  principal: AuthPrincipal,
+  call: { requestId?: string; method: string; route: string; targetUserId?: string; status: number; durationMs: number; ip?: string }
+): AuditEntry {
+  return {
+    request_id: call.requestId || null,
+    caller_kind: principal.kind,
+    caller_user_id: principal.kind === 'service' ? null : principal.userId,
+    token_id: principal.kind === 'token' ? principal.tokenId : null,
+    method: call.method,
+    route: call.route,
+    target_user_id: call.targetUserId || null,
+    status: call.status,
+    outcome: auditOutcome(call.status),
+    duration_ms: call.durationMs,
+    ip: call.ip || null,
+  };
+}
+
+export async function recordAudit(supabase: SupabaseClient, entry: AuditEntry): Promise<void> {
+  const { error } = await supabase.from('audit_log').insert(entry);
+  if (error) {
+    throw new Error(`Failed to write audit log: ${error.message}`);
+  }
+}
+
+/**
+ * Parse audit log query parameters
+ */
+export function parseAuditFilter(query: any): { filter?: AuditFilter; error?: string } {
+  const uuid = /^[0-9a-f-]{36}$/i;
+  const filter: AuditFilter = { limit: 100 };
+
+  if (query?.limit !== undefined) {
+    const limit = Number(query.limit);
+    if (!Number.isInteger(limit) || limit < 1 || limit > 1000) {
+      return { error: 'limit must be an integer from 1 to 1000' };
+    }
+    filter.limit = limit;
+  }
+  for (const field of ['userId', 'tokenId'] as const) {
+    if (query?.[field] !== undefined) {
+      if (typeof query[field] !== 'string' || !uuid.test(query[field])) {
+        return { error: `${field} must be a uuid` };
+      }
+      filter[field] = query[field];
+    }
+  }
+  if (query?.caller !== undefined) {
+    if (!['service', 'session', 'token'].includes(query.caller)) {
+      return { error: 'caller must be service, session or token' };
+    }
+    filter.callerKind = query.caller;
+  }
+  if (query?.outcome !== undefined) {
+    if (!AUDIT_OUTCOMES.includes(query.outcome)) {
+      return { error: `outcome must be one of: ${AUDIT_OUTCOMES.join(', ')}` };
+    }
+    filter.outcome = query.outcome;
+  }
+  if (query?.route !== undefined) {
+    if (typeof query.route !== 'string' || !query.route.startsWith('/')) {
+      return { error: 'route must be a path such as /api/users/:id/sync' };
+    }
+    filter.route = query.route;
+  }
+  for (const field of ['from', 'to'] as const) {
+    if (query?.[field] !== undefined) {
+      const date = new Date(query[field]);
+      if (typeof query[field] !== 'string' || isNaN(date.getTime())) {
+        return { error: `${field} must be a date` };
+      }
+      filter[field] = date;
+    }
+  }
+  if (filter.from && filter.to && filter.from > filter.to) {
+    return { error: 'from cannot be after to' };
+  }
+
+  return { filter };
+}
+
+/**
+ * Audit rows matching the filter, newest first. userId matches the caller or the target.
+ */
+export async function queryAuditLog(supabase: SupabaseClient, filter: AuditFilter): Promise<AuditRecord[]> {
+  let query = supabase.from('audit_log').select('*');
+
+  if (filter.userId) query = query.or(`caller_user_id.eq.${filter.userId},target_user_id.eq.${filter.userId}`);
+  if (filter.callerKind) query = query.eq('caller_kind', filter.callerKind);
+  if (filter.tokenId) query = query.eq('token_id', filter.tokenId);
+  if (filter.route) query = query.eq('route', filter.route);
+  if (filter.outcome) query = query.eq('outcome', filter.outcome);
+  if (filter.from) query = query.gte('created_at', filter.from.toISOString());
+  if (filter.to) query = query.lte('created_at', filter.to.toISOString());
+
+  const { data, error } = await query.order('created_at', { ascending: false }).limit(filter.limit);
+  if (error) {
+    throw new Error(`Failed to load audit log: ${error.message}`);
+  }
+  return (data || []) as AuditRecord[];
+}
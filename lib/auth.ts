@@ -0,0 +1,260 @@
+/**
+ * API Authentication
+ * A request authenticates with one of three bearer credentials:
+ * - API_SECRET: the service credential for the main app's server, with access to every user
+ * - a Supabase session JWT: the signed-in user, with every scope on their own data
+ * - an API token (ft_...): issued by a user for automations, limited to its scopes
+ * API tokens are stored as SHA-256 hashes and can be revoked.
+ */
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { bodyErrors, checkBody, type BodySchema } from './request-schema';
+
+export type ApiScope = 'read' | 'sync' | 'write';
+
+export const API_SCOPES: ApiScope[] = ['read', 'sync', 'write'];
+
+export type AuthPrincipal =
+  | { kind: 'service' }
+  | { kind: 'session'; userId: string }
+  // tokenId is null for an event stream's query token, which has no api_tokens row
+  | { kind: 'token'; userId: string; tokenId: string | null; scopes: ApiScope[] };
+
+export interface ApiToken {
+  id: string;
+  user_id: string;
+  name: string;
+  scopes: ApiScope[];
+  prefix: string;
+  created_at: string;
+  last_used_at: string | null;
+  expires_at: string | null;
+  revoked_at: string | null;
+}
+
+export interface ApiTokenRequest {
+  name: string;
+  scopes: ApiScope[];
+  expiresAt: Date | null;
+}
+
+export interface AuthOptions {
+  apiSecret: string;
+  // HS256 secret from the Supabase project settings; without it sessions are checked with Supabase
+  jwtSecret?: string;
+}
+
+const TOKEN_PREFIX = 'ft_';
+
+// Placeholders from the docs and the old fallback, which must never reach production
+const PLACEHOLDER_SECRETS = ['your-secret-key-here', 'generate-a-secure-random-string'];
+
+/**
+ * The service secret, or an error when it is unset or still a placeholder
+ */
+export function checkApiSecret(secret: string | undefined): string {
+  if (!secret) {
+    throw new Error('API_SECRET environment variable must be set');
+  }
+  if (PLACEHOLDER_SECRETS.includes(secret)) {
+    throw new Error('API_SECRET is still the example value - generate a random secret');
+  }
+  return secret;
+}
+
+export function hashApiToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex');
+}
+
+/**
+ * A new random API token. Only its hash is stored; the token is shown to the user once.
+ */
+export function generateApiToken(): { token: string; hash: string; prefix: string } {
+  const token = `${TOKEN_PREFIX}${crypto.randomBytes(32).toString('base64url')}`;
+  return { token, hash: hashApiToken(token), prefix: token.slice(0, 10) };
+}
+
+export const API_TOKEN_REQUEST_SCHEMA: BodySchema = {
+  name: { type: 'string', maxLength: 100, pattern: /\S/, format: 'a non-empty string' },
+  scopes: { type: 'array', items: { type: 'string', values: API_SCOPES }, minItems: 1 },
+  expiresInDays: { type: 'integer', optional: true, min: 1, max: 365 },
+};
+
+/**
+ * Validate a token creation request body
+ */
+export function validateApiTokenRequest(body: any, now: Date = new Date()): { request?: ApiTokenRequest; error?: string; details?: string[] } {
+  const problems = checkBody(API_TOKEN_REQUEST_SCHEMA, body);
+  if (problems.length > 0) {
+    return bodyErrors(problems);
+  }
+
+  const expiresAt = body.expiresInDays ? new Date(now.getTime() + body.expiresInDays * 24 * 60 * 60 * 1000) : null;
+  return { request: { name: body.name.trim(), scopes: Array.from(new Set(body.scopes as ApiScope[])), expiresAt } };
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+/**
+ * Verify an HS256 Supabase access token. Returns the auth user id, or null when
+ * the signature, expiry or audience is wrong.
+ */
+export function verifySupabaseJwt(token: string, secret: string, now: number = Date.now()): string | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  try {
+    const header = JSON.parse(Buffer.from(parts[0], 'base64url').toString('utf8'));
+    if (header.alg !== 'HS256') return null;
+
+    const signature = crypto.createHmac('sha256', secret).update(`${parts[0]}.${parts[1]}`).digest('base64url');
+    if (!safeEqual(signature, parts[2])) return null;
+
+    const claims = JSON.parse(Buffer.from(parts[1], 'base64url').toString('utf8'));
+    if (typeof claims.exp !== 'number' || claims.exp * 1000 <= now) return null;
+    if (claims.aud !== 'authenticated' && !(Array.isArray(claims.aud) && claims.aud.includes('authenticated'))) return null;
+
+    return typeof claims.sub === 'string' && claims.sub ? claims.sub : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Whether a principal may act on a user's data with the given scope
+ */
+export function hasAccess(principal: AuthPrincipal, userId: string, scope: ApiScope): boolean {
+  if (principal.kind === 'service') return true;
+  if (principal.userId !== userId) return false;
+  return principal.kind === 'session' || principal.scopes.includes(scope);
+}
+
+async function authenticateApiToken(supabase: SupabaseClient, token: string): Promise<AuthPrincipal | null> {
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .select('id, user_id, scopes, expires_at, revoked_at, last_used_at')
+    .eq('token_hash', hashApiToken(token))
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up API token: ${error.message}`);
+  }
+  if (!data || data.revoked_at) return null;
+  if (data.expires_at && new Date(data.expires_at).getTime() <= Date.now()) return null;
+
+  // Usage is recorded at most once a minute per token
+  if (!data.last_used_at || Date.now() - new Date(data.last_used_at).getTime() > 60 * 1000) {
+    await supabase.from('api_tokens').update({ last_used_at: new Date().toISOString() }).eq('id', data.id);
+  }
+
+  return { kind: 'token', userId: data.user_id, tokenId: data.id, scopes: data.scopes as ApiScope[] };
+}
+
+async function authenticateSession(supabase: SupabaseClient, token: string, jwtSecret?: string): Promise<AuthPrincipal | null> {
+  let authUserId: string | null;
+  if (jwtSecret) {
+    authUserId = verifySupabaseJwt(token, jwtSecret);
+  } else {
+    const { data, error } = await supabase.auth.getUser(token);
+    authUserId = error ? null : data.user?.id || null;
+  }
+  if (!authUserId) return null;
+
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('id')
+    .eq('auth_user_id', authUserId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to look up user: ${error.message}`);
+  }
+  return user ? { kind: 'session', userId: user.id } : null;
+}
+
+/**
+ * Resolve a bearer credential to a principal, or null when it is not valid
+ */
+export async function authenticate(
+  supabase: SupabaseClient,
+  credential: string,
+  options: AuthOptions
+): Promise<AuthPrincipal | null> {
+  if (safeEqual(credential, options.apiSecret)) {
+    return { kind: 'service' };
+  }
+  if (credential.startsWith(TOKEN_PREFIX)) {
+    return authenticateApiToken(supabase, credential);
+  }
+  if (credential.split('.').length === 3) {
+    return authenticateSession(supabase, credential, options.jwtSecret);
+  }
+  return null;
+}
+
+/**
+ * A user's API tokens, newest first. Hashes are never returned.
+ */
+export async function listApiTokens(supabase: SupabaseClient, userId: string): Promise<ApiToken[]> {
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .select('id, user_id, name, scopes, prefix, created_at, last_used_at, expires_at, revoked_at')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load API tokens: ${error.message}`);
+  }
+  return (data || []) as ApiToken[];
+}
+
+/**
+ * Issue a token. The plain token is returned only here.
+ */
+export async function createApiToken(
+  supabase: SupabaseClient,
+  userId: string,
+  request: ApiTokenRequest
+): Promise<{ token: string; apiToken: ApiToken }> {
+  const { token, hash, prefix } = generateApiToken();
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .insert({
+      user_id: userId,
+      name: request.name,
+      scopes: request.scopes,
+      token_hash: hash,
+      prefix,
+      expires_at: request.expiresAt?.toISOString() || null,
+    })
+    .select('id, user_id, name, scopes, prefix, created_at, last_used_at, expires_at, revoked_at')
+    .single();
+
+  if (error) {
+    throw new Error(`Failed to create API token: ${error.message}`);
+  }
+  return { token, apiToken: data as ApiToken };
+}
+
+/**
+ * Revoke one of a user's tokens. Returns false when there is no such active token.
+ */
+export async function revokeApiToken(supabase: SupabaseClient, userId: string, tokenId: string): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('api_tokens')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', tokenId)
+    .eq('user_id', userId)
+    .is('revoked_at', null)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to revoke API token: ${error.message}`);
+  }
+  return !!data && data.length > 0;
+}
@@ -0,0 +1,261 @@
+/**
+ * ICICI, SBI and Axis Bank Email Transaction Parsers
+ * Same extraction flow as the HDFC parser, driven by per-bank regex sets
+ */
+
+import {
+  formatToIndianDateTime,
+  parseEmailDate,
+  type ParsedTransaction,
+  type ParseResult,
+} from './email-parser';
+
+const CANONICAL_METHODS = ['UPI', 'Debit Card', 'Credit Card', 'Net Banking', 'NEFT', 'IMPS', 'RTGS'];
+
+interface BankPatterns {
+  amount: RegExp;
+  type: RegExp;
+  account: RegExp;
+  date: RegExp;
+  time: RegExp;
+  method: RegExp;
+  referenceNumber: RegExp;
+  upiMerchant: RegExp;
+  cardMerchant: RegExp;
+  balance: RegExp;
+}
+
+// Shared building blocks - most Indian banks phrase alerts the same way
+const COMMON_PATTERNS = {
+  // Amount: Rs. 4000.00, Rs 30, INR 3,500.00
+  amount: /(?:Rs\.?|INR)\s*([\d,]+\.?\d*)/i,
+
+  // Date formats: 09-01-26, 02/01/2026, 09-Jan-26, 29 Dec, 2025
+  date: /(\d{2}[-/]\d{2}[-/]\d{2,4}|\d{1,2}[-\s][A-Za-z]{3}[-,\s]+\d{2,4})/,
+
+  // Time: at 13:55:26, 07:46
+  time: /(?:at\s+)?(\d{2}:\d{2}(?::\d{2})?)/,
+
+  // Method: UPI, Debit Card, Credit Card, NEFT, IMPS, RTGS
+  method: /(UPI|Debit Card|Credit Card|Net Banking|NEFT|IMPS|RTGS)/i,
+
+  // Available balance: Avl Bal Rs 6,508.99, available balance is INR 6,508.99
+  balance: /(?:avl\.?\s*bal(?:ance)?|available balance)\s*(?:is\s*)?:?\s*(?:INR|Rs\.?)\s*([\d,]+\.?\d*)/i,
+};
+
+// ICICI: "ICICI Bank Acct XX1234 debited for Rs 250.00 on 09-Jan-26; MERCHANT credited. UPI:537932190659"
+const ICICI_PATTERNS: BankPatterns = {
+  ...COMMON_PATTERNS,
+  type: /(credited|debited|spent)/i,
+  // Last four digits only, like every other bank; alerts masked down to three are left for review
+  account: /(?:Acc(?:oun)?t\s*(?:No\.?\s*)?|Card\s*)(?:XX|\*+)?(\d{4})\b/i,
+  referenceNumber: /(?:UPI|RRN|Ref(?:erence)?\.?\s*(?:No\.?)?)\s*[:\-]?\s*(\d{6,})/i,
+  upiMerchant: /;\s*([A-Z][A-Za-z\s.]+?)\s+credited/i,
+  cardMerchant: /at\s+([A-Z][A-Z0-9\s\-*]+?)(?:\.|\s+Avl|\s+on)/i,
+};
+
+// SBI: "Dear UPI user A/C X1234 debited by 250.0 on date 09Jan26 trf to MERCHANT Refno 537932190659"
+const SBI_PATTERNS: BankPatterns = {
+  ...COMMON_PATTERNS,
+  amount: /(?:Rs\.?|INR|debited by|credited by)\s*([\d,]+\.?\d*)/i,
+  type: /(credited|debited)/i,
+  account: /A\/C\s*(?:No\.?\s*)?X*(\d{4})/i,
+  date: /(?:on(?: date)?\s+)(\d{2}[-/]\d{2}[-/]\d{2,4}|\d{1,2}[A-Za-z]{3}\d{2,4})/i,
+  referenceNumber: /Ref\s*(?:no|number)\.?\s*:?\s*(\d{6,})/i,
+  upiMerchant: /(?:trf to|transfer from)\s+([A-Za-z][A-Za-z\s.]+?)\s+Ref/i,
+  cardMerchant: /at\s+([A-Z][A-Z0-9\s\-]+?)(?:\s+on|\.)/i,
+};
+
+// Axis: "INR 250.00 debited from A/c no. XX1234 on 09-01-26 at 13:55:26 IST. UPI/P2M/537932190659/MERCHANT"
+const AXIS_PATTERNS: BankPatterns = {
+  ...COMMON_PATTERNS,
+  type: /(credited|debited|spent)/i,
+  account: /(?:A\/c\s*(?:no\.?)?|Card\s*(?:no\.?)?)\s*XX(\d{4})/i,
+  referenceNumber: /(?:UPI\/[A-Z0-9]+\/(\d{6,}))|(?:Ref(?:erence)?\s*(?:No\.?)?\s*:?\s*(\d{6,}))/i,
+  upiMerchant: /UPI\/[A-Z0-9]+\/\d+\/([A-Za-z][A-Za-z0-9\s.]+?)(?:\s+Not you|\.|$)/i,
+  cardMerchant: /at\s+([A-Z][A-Z0-9\s\-*]+?)(?:\s+on|\.|\s+Avl)/i,
+};
+
+/**
+ * Normalise month-name dates (09-Jan-26, 09Jan26) before handing them to parseEmailDate
+ */
+function normaliseDate(dateStr: string): string {
+  const match = dateStr.match(/^(\d{1,2})[-\s]?([A-Za-z]{3})[-,\s]*(\d{2,4})$/);
+  if (!match) return dateStr;
+
+  const year = match[3].length === 2 ? `20${match[3]}` : match[3];
+  return `${match[1]} ${match[2]} ${year}`;
+}
+
+/**
+ * Parse a bank email using the given pattern set
+ */
+function parseWithPatterns(
+  patterns: BankPatterns,
+  from: string,
+  emailBody: string,
+  emailSubject: string,
+  receivedDate: string | Date,
+  emailId: string
+): ParseResult {
+  const transaction: ParsedTransaction = {
+    dateTime: '',
+    amount: 0,
+    type: 'Debit',
+    method: 'Other',
+    account: '',
+    description: '',
+    referenceNumber: '',
+    availableBalance: 'N/A',
+    category: '',
+    notes: '',
+    emailReceivedDate: formatToIndianDateTime(new Date(receivedDate)),
+  };
+
+  const failure = (error: string): ParseResult => ({
+    success: false,
+    error,
+    emailData: {
+      email_id: emailId,
+      subject: emailSubject,
+      body_snippet: emailBody.substring(0, 200),
+      received_date: receivedDate.toString(),
+      from,
+    },
+  });
+
+  try {
+    const normalizedBody = emailBody.replace(/\s+/g, ' ').trim();
+
+    const amountMatch = normalizedBody.match(patterns.amount);
+    if (amountMatch) {
+      transaction.amount = parseFloat(amountMatch[1].replace(/,/g, ''));
+    }
+
+    const typeMatch = normalizedBody.match(patterns.type);
+    if (typeMatch) {
+      transaction.type = typeMatch[1].toLowerCase() === 'credited' ? 'Credit' : 'Debit';
+    }
+
+    const accountMatch = normalizedBody.match(patterns.account);
+    if (accountMatch) {
+      transaction.account = accountMatch[1];
+    }
+
+    const dateMatch = normalizedBody.match(patterns.date);
+    const timeMatch = normalizedBody.match(patterns.time);
+    if (dateMatch) {
+      const parsedDate = parseEmailDate(normaliseDate(dateMatch[1]), timeMatch?.[1]);
+      transaction.dateTime = isNaN(parsedDate.getTime())
+        ? transaction.emailReceivedDate
+        : formatToIndianDateTime(parsedDate);
+    } else {
+      transaction.dateTime = transaction.emailReceivedDate;
+    }
+
+    const methodMatch = normalizedBody.match(patterns.method);
+    if (methodMatch) {
+      transaction.method = CANONICAL_METHODS.find(m => m.toLowerCase() === methodMatch[1].toLowerCase()) || methodMatch[1];
+    }
+
+    const refMatch = normalizedBody.match(patterns.referenceNumber);
+    if (refMatch) {
+      transaction.referenceNumber = refMatch[1] || refMatch[2] || '';
+    }
+
+    if (transaction.method === 'UPI') {
+      const upiMatch = normalizedBody.match(patterns.upiMerchant);
+      if (upiMatch) {
+        transaction.description = upiMatch[1].trim();
+      }
+    } else if (transaction.method === 'Debit Card' || transaction.method === 'Credit Card') {
+      const cardMatch = normalizedBody.match(patterns.cardMerchant);
+      if (cardMatch) {
+        transaction.description = cardMatch[1].trim();
+      }
+    }
+
+    if (!transaction.description && emailSubject) {
+      transaction.description = emailSubject.substring(0, 50);
+    }
+
+    const balanceMatch = normalizedBody.match(patterns.balance);
+    if (balanceMatch) {
+      transaction.availableBalance = parseFloat(balanceMatch[1].replace(/,/g, ''));
+    }
+
+    // Validation: Must have at least amount, type, and account
+    if (!transaction.amount || !transaction.type || !transaction.account) {
+      return failure('Missing required fields (amount, type, or account)');
+    }
+
+    if (!transaction.referenceNumber) {
+      transaction.referenceNumber = `EMAIL_${emailId}`;
+    }
+
+    return { success: true, transaction };
+
+  } catch (error) {
+    return failure(error instanceof Error ? error.message : 'Unknown parsing error');
+  }
+}
+
+/**
+ * Parse ICICI Bank email and extract transaction details
+ */
+export function parseICICIEmail(
+  emailBody: string,
+  emailSubject: string,
+  receivedDate: string | Date,
+  emailId: string
+): ParseResult {
+  return parseWithPatterns(ICICI_PATTERNS, 'alerts@icicibank.com', emailBody, emailSubject, receivedDate, emailId);
+}
+
+/**
+ * Parse SBI email and extract transaction details
+ */
+export function parseSBIEmail(
+  emailBody: string,
+  emailSubject: string,
+  receivedDate: string | Date,
+  emailId: string
+): ParseResult {
+  return parseWithPatterns(SBI_PATTERNS, 'donotreply.sbiatm@alerts.sbi.co.in', emailBody, emailSubject, receivedDate, emailId);
+}
+
+/**
+ * Parse Axis Bank email and extract transaction details
+ */
+export function parseAxisEmail(
+  emailBody: string,
+  emailSubject: string,
+  receivedDate: string | Date,
+  emailId: string
+): ParseResult {
+  return parseWithPatterns(AXIS_PATTERNS, 'alerts@axisbank.com', emailBody, emailSubject, receivedDate, emailId);
+}
+
+/**
+ * Check if an email is from ICICI Bank and contains transaction info
+ */
+export function isICICITransactionEmail(from: string, subject: string, body: string): boolean {
+  return from.toLowerCase().includes('icicibank.com') &&
+    (/credited|debited|spent|transaction/i.test(subject) || /credited|debited|spent/i.test(body));
+}
+
+/**
+ * Check if an email is from SBI and contains transaction info
+ */
+export function isSBITransactionEmail(from: string, subject: string, body: string): boolean {
+  return from.toLowerCase().includes('alerts.sbi.co.in') &&
+    (/credited|debited|transaction/i.test(subject) || /credited|debited/i.test(body));
+}
+
+/**
+ * Check if an email is from Axis Bank and contains transaction info
+ */
+export function isAxisTransactionEmail(from: string, subject: string, body: string): boolean {
+  return from.toLowerCase().includes('axisbank.com') &&
+    (/credited|debited|spent|transaction/i.test(subject) || /credited|debited|spent/i.test(body));
+}
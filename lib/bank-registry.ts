@@ -0,0 +1,114 @@
+/**
+ * Bank Parser Registry
+ * Maps each supported bank to its alert senders, Gmail query and parser
+ */
+
+import { parseHDFCEmail, isHDFCTransactionEmail, type ParseResult } from './email-parser';
+import {
+  parseICICIEmail,
+  parseSBIEmail,
+  parseAxisEmail,
+  isICICITransactionEmail,
+  isSBITransactionEmail,
+  isAxisTransactionEmail,
+} from './bank-parsers';
+
+export interface BankParser {
+  id: string;
+  name: string;
+  senders: string[];
+  query: string;
+  detect: (from: string, subject: string, body: string) => boolean;
+  parse: (body: string, subject: string, receivedDate: string | Date, emailId: string) => ParseResult;
+}
+
+// Banks enabled for users who have not picked any
+export const DEFAULT_BANKS = ['hdfc'];
+
+const registry = new Map<string, BankParser>();
+
+/**
+ * Register a bank parser (replaces any existing parser with the same id)
+ */
+export function registerBankParser(parser: BankParser): void {
+  registry.set(parser.id, parser);
+}
+
+/**
+ * Get all registered bank parsers
+ */
+export function getBankParsers(): BankParser[] {
+  return Array.from(registry.values());
+}
+
+/**
+ * Get the parsers for a user's enabled banks, ignoring unknown ids
+ */
+export function getEnabledParsers(enabledBanks?: string[] | null): BankParser[] {
+  const ids = enabledBanks && enabledBanks.length > 0 ? enabledBanks : DEFAULT_BANKS;
+  return ids
+    .map(id => registry.get(id.toLowerCase()))
+    .filter((parser): parser is BankParser => !!parser);
+}
+
+/**
+ * Build one Gmail search query covering all the given parsers
+ */
+export function buildGmailQuery(parsers: BankParser[]): string {
+  if (parsers.length === 1) {
+    return parsers[0].query;
+  }
+  return `(${parsers.map(p => `(${p.query})`).join(' OR ')})`;
+}
+
+/**
+ * Find the parser responsible for an email, by sender first and detection second
+ */
+export function findParserForEmail(
+  parsers: BankParser[],
+  from: string,
+  subject: string,
+  body: string
+): BankParser | null {
+  const sender = from.toLowerCase();
+  const bySender = parsers.find(p => p.senders.some(s => sender.includes(s)));
+  if (bySender) return bySender;
+
+  return parsers.find(p => p.detect(from, subject, body)) || null;
+}
+
+registerBankParser({
+  id: 'hdfc',
+  name: 'HDFC Bank',
+  senders: ['alerts@hdfcbank.net'],
+  query: 'from:alerts@hdfcbank.net (credited OR debited OR UPI OR transaction)',
+  detect: isHDFCTransactionEmail,
+  parse: parseHDFCEmail,
+});
+
+registerBankParser({
+  id: 'icici',
+  name: 'ICICI Bank',
+  senders: ['alerts@icicibank.com', 'credit_cards@icicibank.com'],
+  query: 'from:(alerts@icicibank.com OR credit_cards@icicibank.com) (credited OR debited OR spent OR transaction)',
+  detect: isICICITransactionEmail,
+  parse: parseICICIEmail,
+});
+
+registerBankParser({
+  id: 'sbi',
+  name: 'State Bank of India',
+  senders: ['donotreply.sbiatm@alerts.sbi.co.in', 'cbssbi.cas@alerts.sbi.co.in'],
+  query: 'from:(donotreply.sbiatm@alerts.sbi.co.in OR cbssbi.cas@alerts.sbi.co.in) (credited OR debited OR transaction)',
+  detect: isSBITransactionEmail,
+  parse: parseSBIEmail,
+});
+
+registerBankParser({
+  id: 'axis',
+  name: 'Axis Bank',
+  senders: ['alerts@axisbank.com', 'cc.alerts@axisbank.com'],
+  query: 'from:(alerts@axisbank.com OR cc.alerts@axisbank.com) (credited OR debited OR spent OR transaction)',
+  detect: isAxisTransactionEmail,
+  parse: parseAxisEmail,
+});
@@ -0,0 +1,156 @@
+/**
+ * Category Budgets
+ * Per-user spending limits per period, with alert thresholds as percentages
+ */
+
+import type { ParsedTransaction } from './email-parser';
+import { parseTransactionDateTime, toDayKey } from './transaction-dates';
+import { formatAmount, type Notification } from './notifiers';
+import { isTransfer } from './transfers';
+import { bodyErrors, checkBody, type BodySchema } from './request-schema';
+
+export type BudgetPeriod = 'weekly' | 'monthly';
+
+export interface Budget {
+  id: string;
+  user_id: string;
+  category: string;
+  period: BudgetPeriod;
+  amount: number;
+  // Percentages of amount, e.g. [80, 100]
+  thresholds: number[];
+}
+
+export type BudgetInput = Omit<Budget, 'id' | 'user_id'>;
+
+export interface BudgetStatus {
+  budget: Budget;
+  periodStart: string;
+  periodEnd: string;
+  spent: number;
+  percent: number;
+  // Thresholds at or below the current percentage, lowest first
+  crossed: number[];
+}
+
+export interface BudgetAlert {
+  userId: string;
+  email: string;
+  category: string;
+  period: BudgetPeriod;
+  periodStart: string;
+  periodEnd: string;
+  threshold: number;
+  budgetAmount: number;
+  spent: number;
+  percent: number;
+}
+
+export const DEFAULT_THRESHOLDS = [80, 100];
+
+export const BUDGET_SCHEMA: BodySchema = {
+  category: { type: 'string', pattern: /\S/, format: 'a non-empty string' },
+  period: { type: 'string', optional: true, values: ['weekly', 'monthly'] },
+  amount: { type: 'number', min: 0.01 },
+  // Whole percentages of the amount
+  thresholds: { type: 'array', optional: true, items: { type: 'integer', min: 1, max: 1000 }, minItems: 1, maxItems: 20 },
+};
+
+/**
+ * Validate a budget from a request body. Returns the cleaned budget or every problem found.
+ */
+export function validateBudget(body: any): { budget?: BudgetInput; error?: string; details?: string[] } {
+  const problems = checkBody(BUDGET_SCHEMA, body);
+  if (problems.length > 0) {
+    return bodyErrors(problems);
+  }
+
+  const thresholds: number[] = body.thresholds ?? DEFAULT_THRESHOLDS;
+  return {
+    budget: {
+      category: body.category.trim(),
+      period: body.period ?? 'monthly',
+      amount: Math.round(body.amount * 100) / 100,
+      thresholds: Array.from(new Set(thresholds)).sort((a, b) => a - b),
+    },
+  };
+}
+
+/**
+ * The period containing `now`: calendar months, or weeks starting on Monday
+ */
+export function getPeriodBounds(period: BudgetPeriod, now: Date = new Date()): { start: Date; end: Date } {
+  if (period === 'weekly') {
+    const start = new Date(now.getFullYear(), now.getMonth(), now.getDate() - (now.getDay() + 6) % 7);
+    const end = new Date(start.getFullYear(), start.getMonth(), start.getDate() + 7);
+    return { start, end };
+  }
+
+  return {
+    start: new Date(now.getFullYear(), now.getMonth(), 1),
+    end: new Date(now.getFullYear(), now.getMonth() + 1, 1),
+  };
+}
+
+/**
+ * Work out spend against each budget for the current period. Only debits count
+ * (internal transfers excluded), and categories are compared case-insensitively.
+ */
+export function evaluateBudgets(
+  budgets: Budget[],
+  transactions: ParsedTransaction[],
+  now: Date = new Date()
+): BudgetStatus[] {
+  const dated = transactions
+    .filter(transaction => transaction.type === 'Debit' && !isTransfer(transaction))
+    .map(transaction => ({ transaction, date: parseTransactionDateTime(transaction.dateTime) }));
+
+  return budgets.map(budget => {
+    const { start, end } = getPeriodBounds(budget.period, now);
+    const category = budget.category.toLowerCase();
+
+    const spent = dated
+      .filter(({ transaction, date }) =>
+        date && date >= start && date < end && transaction.category.toLowerCase() === category
+      )
+      .reduce((sum, { transaction }) => sum + transaction.amount, 0);
+
+    const percent = Math.round((spent / budget.amount) * 1000) / 10;
+
+    return {
+      budget,
+      periodStart: toDayKey(start),
+      periodEnd: toDayKey(new Date(end.getTime() - 1)),
+      spent: Math.round(spent * 100) / 100,
+      percent,
+      crossed: [...budget.thresholds].sort((a, b) => a - b).filter(threshold => percent >= threshold),
+    };
+  });
+}
+
+/**
+ * One-line description of a budget alert
+ */
+export function describeBudgetAlert(alert: BudgetAlert): string {
+  const usage = `${formatAmount(alert.spent)} of ${formatAmount(alert.budgetAmount)}`;
+  return alert.threshold >= 100
+    ? `${alert.category} budget exceeded: ${usage}`
+    : `${alert.category} budget at ${alert.percent}%: ${usage}`;
+}
+
+/**
+ * Build the notification sent for a budget alert
+ */
+export function buildBudgetNotification(alert: BudgetAlert): Notification {
+  return {
+    type: 'budget.alert',
+    userId: alert.userId,
+    email: alert.email,
+    subject: describeBudgetAlert(alert),
+    text: [
+      `You have spent ${formatAmount(alert.spent)} on ${alert.category} this ${alert.period === 'weekly' ? 'week' : 'month'}`,
+      `(${alert.periodStart} to ${alert.periodEnd}), ${alert.percent}% of your ${formatAmount(alert.budgetAmount)} budget.`,
+    ].join('\n'),
+    data: alert,
+  };
+}
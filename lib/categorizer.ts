@@ -0,0 +1,165 @@
+/**
+ * Rule-based Transaction Categoriser
+ * Fills category/notes on parsed transactions from per-user and built-in rules
+ */
+
+import type { ParsedTransaction } from './email-parser';
+import { bodyErrors, checkBody, type BodySchema } from './request-schema';
+
+export interface CategoryRule {
+  id: string;
+  user_id: string;
+  category: string;
+  notes: string | null;
+  // Match conditions - every condition that is set must match
+  vpa: string | null;
+  merchant: string | null;
+  method: string | null;
+  type: 'Credit' | 'Debit' | null;
+  min_amount: number | null;
+  max_amount: number | null;
+  // Lower numbers are checked first
+  priority: number;
+}
+
+export type CategoryRuleInput = Omit<CategoryRule, 'id' | 'user_id'>;
+
+function defaultRule(id: string, category: string, match: Partial<CategoryRuleInput>): CategoryRule {
+  return {
+    id: `default-${id}`,
+    user_id: '',
+    category,
+    notes: null,
+    vpa: null,
+    merchant: null,
+    method: null,
+    type: null,
+    min_amount: null,
+    max_amount: null,
+    priority: 1000,
+    ...match,
+  };
+}
+
+// Built-in rules for common Indian merchants, applied after the user's own rules
+export const DEFAULT_RULES: CategoryRule[] = [
+  defaultRule('swiggy', 'Food & Dining', { merchant: 'swiggy', type: 'Debit' }),
+  defaultRule('zomato', 'Food & Dining', { merchant: 'zomato', type: 'Debit' }),
+  defaultRule('uber', 'Transport', { merchant: 'uber', type: 'Debit' }),
+  defaultRule('ola', 'Transport', { merchant: 'olacabs', type: 'Debit' }),
+  defaultRule('rapido', 'Transport', { merchant: 'rapido', type: 'Debit' }),
+  defaultRule('irctc', 'Travel', { merchant: 'irctc', type: 'Debit' }),
+  defaultRule('bescom', 'Utilities', { merchant: 'bescom', type: 'Debit' }),
+  defaultRule('electricity', 'Utilities', { merchant: 'electricity', type: 'Debit' }),
+  defaultRule('tneb', 'Utilities', { merchant: 'tneb', type: 'Debit' }),
+  defaultRule('airtel', 'Utilities', { merchant: 'airtel', type: 'Debit' }),
+  // Not just 'jio', which would also match JioMart, JioCinema and JioSaavn
+  defaultRule('jio', 'Utilities', { merchant: 'reliance jio', type: 'Debit' }),
+  defaultRule('bsnl', 'Utilities', { merchant: 'bsnl', type: 'Debit' }),
+  defaultRule('gas', 'Utilities', { merchant: 'indane', type: 'Debit' }),
+  defaultRule('amazon', 'Shopping', { merchant: 'amazon', type: 'Debit' }),
+  defaultRule('flipkart', 'Shopping', { merchant: 'flipkart', type: 'Debit' }),
+  defaultRule('bigbasket', 'Groceries', { merchant: 'bigbasket', type: 'Debit' }),
+  defaultRule('blinkit', 'Groceries', { merchant: 'blinkit', type: 'Debit' }),
+  defaultRule('zepto', 'Groceries', { merchant: 'zepto', type: 'Debit' }),
+  defaultRule('netflix', 'Subscriptions', { merchant: 'netflix', type: 'Debit' }),
+  defaultRule('spotify', 'Subscriptions', { merchant: 'spotify', type: 'Debit' }),
+  defaultRule('cash-deposit', 'Cash Deposit', { method: 'Cash Deposit', type: 'Credit' }),
+];
+
+/**
+ * Pull the VPA out of a UPI description: "Tabrez Khan (tabrezkhan009@ybl)"
+ */
+export function extractVpa(description: string): string | null {
+  return description.match(/\(([^()\s]+@[^()\s]+)\)/)?.[1]?.toLowerCase() || null;
+}
+
+/**
+ * Check whether a rule matches a transaction
+ */
+export function ruleMatches(rule: CategoryRule, transaction: ParsedTransaction): boolean {
+  if (rule.vpa && extractVpa(transaction.description) !== rule.vpa.toLowerCase()) return false;
+  if (rule.merchant && !transaction.description.toLowerCase().includes(rule.merchant.toLowerCase())) return false;
+  if (rule.method && transaction.method.toLowerCase() !== rule.method.toLowerCase()) return false;
+  if (rule.type && transaction.type !== rule.type) return false;
+  if (rule.min_amount !== null && transaction.amount < rule.min_amount) return false;
+  if (rule.max_amount !== null && transaction.amount > rule.max_amount) return false;
+  return true;
+}
+
+/**
+ * Find the first matching rule. User rules win over defaults.
+ */
+export function findMatchingRule(transaction: ParsedTransaction, userRules: CategoryRule[]): CategoryRule | null {
+  const ordered = [...userRules].sort((a, b) => a.priority - b.priority);
+  return [...ordered, ...DEFAULT_RULES].find(rule => ruleMatches(rule, transaction)) || null;
+}
+
+/**
+ * Apply category rules to a transaction. Existing categories are kept unless overwrite is set.
+ */
+export function categorizeTransaction(
+  transaction: ParsedTransaction,
+  userRules: CategoryRule[],
+  overwrite = false
+): ParsedTransaction {
+  if (transaction.category && !overwrite) {
+    return transaction;
+  }
+
+  const rule = findMatchingRule(transaction, userRules);
+  if (!rule) {
+    return transaction;
+  }
+
+  return {
+    ...transaction,
+    category: rule.category,
+    notes: transaction.notes || rule.notes || '',
+  };
+}
+
+export const CATEGORY_RULE_SCHEMA: BodySchema = {
+  category: { type: 'string', pattern: /\S/, format: 'a non-empty string' },
+  notes: { type: 'string', optional: true },
+  vpa: { type: 'string', optional: true },
+  merchant: { type: 'string', optional: true },
+  method: { type: 'string', optional: true },
+  type: { type: 'string', optional: true, values: ['Credit', 'Debit'] },
+  min_amount: { type: 'number', optional: true },
+  max_amount: { type: 'number', optional: true },
+  priority: { type: 'number', optional: true },
+};
+
+/**
+ * Validate a rule from a request body. Returns the cleaned rule or every problem found.
+ */
+export function validateCategoryRule(body: any): { rule?: CategoryRuleInput; error?: string; details?: string[] } {
+  const problems = checkBody(CATEGORY_RULE_SCHEMA, body);
+  if (problems.length > 0) {
+    return bodyErrors(problems);
+  }
+
+  const optionalString = (value: string | undefined | null) => value?.trim() || null;
+
+  const rule: CategoryRuleInput = {
+    category: body.category.trim(),
+    notes: optionalString(body.notes),
+    vpa: optionalString(body.vpa),
+    merchant: optionalString(body.merchant),
+    method: optionalString(body.method),
+    type: body.type ?? null,
+    min_amount: body.min_amount ?? null,
+    max_amount: body.max_amount ?? null,
+    priority: body.priority ?? 100,
+  };
+
+  if (rule.min_amount !== null && rule.max_amount !== null && rule.min_amount > rule.max_amount) {
+    return bodyErrors(['min_amount cannot be greater than max_amount']);
+  }
+  if (!rule.vpa && !rule.merchant && !rule.method && !rule.type && rule.min_amount === null && rule.max_amount === null) {
+    return bodyErrors(['At least one match condition is required (vpa, merchant, method, type, min_amount, max_amount)']);
+  }
+
+  return { rule };
+}
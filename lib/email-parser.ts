@@ -15,6 +15,8 @@ export interface ParsedTransaction {
   category: string;
   notes: string;
   emailReceivedDate: string;
+  // Shared by both sides of a transfer between the user's own accounts ('-' when unmarked by the user)
+  transferId?: string;
 }
 
 export interface ParseResult {
@@ -69,7 +71,7 @@ const PATTERNS = {
 /**
  * Format date to Indian format: DD/MM/YYYY hh:mm AM/PM
  */
-function formatToIndianDateTime(date: Date): string {
+export function formatToIndianDateTime(date: Date): string {
   const day = String(date.getDate()).padStart(2, '0');
   const month = String(date.getMonth() + 1).padStart(2, '0');
   const year = date.getFullYear();
@@ -85,7 +87,7 @@ function formatToIndianDateTime(date: Date): string {
 /**
  * Parse date string from email body
  */
-function parseEmailDate(dateStr: string, timeStr?: string): Date {
+export function parseEmailDate(dateStr: string, timeStr?: string): Date {
   let parsedDate: Date;
 
   if (dateStr.includes('-') || dateStr.includes('/')) {
@@ -272,7 +274,11 @@ export function isHDFCTransactionEmail(from: string, subject: string, body: stri
     /credited|debited|transaction|upi|account update/i.test(subject) ||
     /credited|debited|transaction|upi/i.test(body);
 
-  return isFromHDFC && hasTransactionKeywords;
+  // Card spend alerts name no transaction, only the card, amount and merchant. Statements and
+  // offers also mention cards, so match the spend sentence rather than the card type.
+  const isCardSpend = /(debit|credit) card ending \d{4} for (rs\.?|inr) ?[\d,]+(\.\d+)? at /i.test(body);
+
+  return isFromHDFC && (hasTransactionKeywords || isCardSpend);
 }
 
 /**
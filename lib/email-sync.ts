@@ -0,0 +1,134 @@
+/**
+ * Email Sync Progress
+ * Which messages a query sync fetches, how far a sync got, and the chunked
+ * progress of a backfill. A backfill imports a date range one chunk at a time;
+ * its state is saved after every chunk so an interrupted one resumes from there.
+ */
+
+import type { GmailClient } from './google-auth';
+
+export interface BackfillState {
+  from: string;
+  to: string;
+  cursor: string;
+  chunk_days: number;
+  status: 'running' | 'completed' | 'failed';
+  transactions: number;
+  missed: number;
+  updated_at: string;
+  error?: string;
+}
+
+export const DEFAULT_CHUNK_DAYS = 7;
+
+/**
+ * List every message matching the query, following nextPageToken.
+ * Gmail returns newest first, so the result is reversed into chronological order.
+ */
+export async function listAllMessageIds(gmail: GmailClient, query: string): Promise<string[]> {
+  const ids: string[] = [];
+  let pageToken: string | undefined;
+
+  do {
+    const listResponse = await gmail.users.messages.list({
+      userId: 'me',
+      q: query,
+      maxResults: 500,
+      pageToken,
+    });
+
+    for (const message of listResponse.data.messages || []) {
+      if (message.id) ids.push(message.id);
+    }
+    pageToken = listResponse.data.nextPageToken || undefined;
+  } while (pageToken);
+
+  return ids.reverse();
+}
+
+/**
+ * The newest email time a sync can resume after. It stops at the first email
+ * that could not be fetched, so the next run picks that email up again.
+ */
+export function createResumePoint() {
+  let latest: Date | null = null;
+  let blocked = false;
+
+  return {
+    processed(receivedDate: Date): void {
+      if (!blocked && (!latest || receivedDate > latest)) {
+        latest = receivedDate;
+      }
+    },
+    failed(): void {
+      blocked = true;
+    },
+    get latest(): Date | null {
+      return latest;
+    },
+    get complete(): boolean {
+      return !blocked;
+    },
+  };
+}
+
+/**
+ * A new backfill over [from, to)
+ */
+export function newBackfillState(from: Date, to: Date, chunkDays = DEFAULT_CHUNK_DAYS, now: Date = new Date()): BackfillState {
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    cursor: from.toISOString(),
+    chunk_days: chunkDays,
+    status: 'running',
+    transactions: 0,
+    missed: 0,
+    updated_at: now.toISOString(),
+  };
+}
+
+/**
+ * The saved backfill to pick up again, or null when there is none or it completed
+ */
+export function resumeBackfillState(saved: BackfillState | null | undefined): BackfillState | null {
+  if (!saved || saved.status === 'completed') return null;
+  return { ...saved, status: 'running', error: undefined };
+}
+
+/**
+ * The next chunk to import, or null once the cursor reaches the end of the range
+ */
+export function nextBackfillChunk(state: BackfillState): { from: Date; to: Date } | null {
+  const from = new Date(state.cursor);
+  const end = new Date(state.to);
+  if (from >= end) return null;
+
+  const to = new Date(Math.min(from.getTime() + state.chunk_days * 24 * 60 * 60 * 1000, end.getTime()));
+  return { from, to };
+}
+
+/**
+ * Restrict a bank query to one chunk
+ */
+export function chunkQuery(query: string, chunk: { from: Date; to: Date }): string {
+  return `${query} after:${Math.floor(chunk.from.getTime() / 1000)} before:${Math.floor(chunk.to.getTime() / 1000)}`;
+}
+
+/**
+ * Move the cursor past a finished chunk and add its counts
+ */
+export function completeBackfillChunk(
+  state: BackfillState,
+  chunk: { from: Date; to: Date },
+  counts: { transactions: number; missed: number },
+  now: Date = new Date()
+): BackfillState {
+  return {
+    ...state,
+    cursor: chunk.to.toISOString(),
+    transactions: state.transactions + counts.transactions,
+    missed: state.missed + counts.missed,
+    updated_at: now.toISOString(),
+  };
+}
@@ -1,44 +1,162 @@
+/**
+ * Token Encryption
+ * AES-256-GCM with keys derived by scrypt. Ciphertext is versioned and names
+ * its key: v1:<keyId>:<iv>:<tag>:<data>. Several keys can be configured, so a
+ * new key is used for encryption while older ones still decrypt.
+ *
+ * Unversioned hex ciphertext (iv + tag + data, key = SHA-256 of the secret) is
+ * what the frontend writes with ENCRYPTION_SECRET_KEY and is still read.
+ */
+
 import crypto from 'crypto';
+import { logger } from './logger';
 
 const ALGORITHM = 'aes-256-gcm';
 const IV_LENGTH = 16;
 const TAG_LENGTH = 16;
+const VERSION = 'v1';
+const LEGACY_KEY_ID = 'legacy';
+
+export interface EncryptionKey {
+  id: string;
+  secret: string;
+}
+
+const derivedKeys = new Map<string, Buffer>();
+
+/**
+ * Read the configured keys. ENCRYPTION_KEYS is a comma-separated list of
+ * id:secret pairs, newest first; ENCRYPTION_KEY_ID picks the key used to
+ * encrypt (default: the first). With only ENCRYPTION_SECRET_KEY set, it is
+ * used under the id "default".
+ */
+export function loadKeyring(env: NodeJS.ProcessEnv = process.env): { current: EncryptionKey; keys: EncryptionKey[]; legacySecrets: string[] } {
+  const keys: EncryptionKey[] = [];
 
-function getKey(): Buffer {
-  const key = process.env.ENCRYPTION_SECRET_KEY;
-  if (!key) {
-    throw new Error('ENCRYPTION_SECRET_KEY environment variable is not set');
+  for (const entry of (env.ENCRYPTION_KEYS || '').split(',').map(e => e.trim()).filter(Boolean)) {
+    const separator = entry.indexOf(':');
+    const id = entry.slice(0, separator);
+    const secret = entry.slice(separator + 1);
+    if (separator <= 0 || !/^[A-Za-z0-9_-]+$/.test(id) || id === LEGACY_KEY_ID || !secret) {
+      throw new Error('ENCRYPTION_KEYS must be a comma-separated list of id:secret pairs (ids: letters, digits, _ and -)');
+    }
+    if (keys.some(key => key.id === id)) {
+      throw new Error(`ENCRYPTION_KEYS lists key id "${id}" twice`);
+    }
+    keys.push({ id, secret });
   }
-  return crypto.createHash('sha256').update(key).digest();
+
+  if (keys.length === 0 && env.ENCRYPTION_SECRET_KEY) {
+    keys.push({ id: 'default', secret: env.ENCRYPTION_SECRET_KEY });
+  }
+  if (keys.length === 0) {
+    throw new Error('ENCRYPTION_KEYS or ENCRYPTION_SECRET_KEY environment variable must be set');
+  }
+
+  const currentId = env.ENCRYPTION_KEY_ID || keys[0].id;
+  const current = keys.find(key => key.id === currentId);
+  if (!current) {
+    throw new Error(`ENCRYPTION_KEY_ID "${currentId}" is not in ENCRYPTION_KEYS`);
+  }
+
+  // Unversioned ciphertext says nothing about its key, so every secret is tried
+  const legacySecrets = Array.from(new Set([env.ENCRYPTION_SECRET_KEY, ...keys.map(key => key.secret)]))
+    .filter((secret): secret is string => !!secret);
+
+  return { current, keys, legacySecrets };
 }
 
-export function encrypt(text: string): string {
-  const iv = crypto.randomBytes(IV_LENGTH);
-  const cipher = crypto.createCipheriv(ALGORITHM, getKey(), iv);
+function deriveKey(key: EncryptionKey): Buffer {
+  const cacheKey = `${key.id}:${key.secret}`;
+  let derived = derivedKeys.get(cacheKey);
+  if (!derived) {
+    derived = crypto.scryptSync(key.secret, `finance-tracker:${key.id}`, 32);
+    derivedKeys.set(cacheKey, derived);
+  }
+  return derived;
+}
 
-  let encrypted = cipher.update(text, 'utf8', 'hex');
-  encrypted += cipher.final('hex');
+function legacyKey(secret: string): Buffer {
+  return crypto.createHash('sha256').update(secret).digest();
+}
 
+function decipher(key: Buffer, iv: Buffer, tag: Buffer, data: Buffer): string {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(data), decipher.final()]).toString('utf8');
+}
+
+/**
+ * The id of the key a ciphertext was written with ("legacy" for unversioned hex)
+ */
+export function getKeyId(encryptedText: string): string {
+  const parts = encryptedText.split(':');
+  return parts[0] === VERSION && parts.length === 5 ? parts[1] : LEGACY_KEY_ID;
+}
+
+/**
+ * Whether a configured key can read this ciphertext. False means the key is
+ * missing from the environment, not that the token is bad.
+ */
+export function hasKeyFor(encryptedText: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  const keyId = getKeyId(encryptedText);
+  return keyId === LEGACY_KEY_ID || loadKeyring(env).keys.some(key => key.id === keyId);
+}
+
+/**
+ * Whether a ciphertext should be rewritten under the current key
+ */
+export function needsReencryption(encryptedText: string, env: NodeJS.ProcessEnv = process.env): boolean {
+  return getKeyId(encryptedText) !== loadKeyring(env).current.id;
+}
+
+export function encrypt(text: string, env: NodeJS.ProcessEnv = process.env): string {
+  const { current } = loadKeyring(env);
+  const iv = crypto.randomBytes(IV_LENGTH);
+  const cipher = crypto.createCipheriv(ALGORITHM, deriveKey(current), iv);
+
+  const encrypted = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
   const tag = cipher.getAuthTag();
 
-  return iv.toString('hex') + tag.toString('hex') + encrypted;
+  return [VERSION, current.id, iv.toString('base64url'), tag.toString('base64url'), encrypted.toString('base64url')].join(':');
 }
 
-export function decrypt(encryptedText: string): string {
+export function decrypt(encryptedText: string, env: NodeJS.ProcessEnv = process.env): string {
+  const keyring = loadKeyring(env);
+  const keyId = getKeyId(encryptedText);
+
   try {
-    const iv = Buffer.from(encryptedText.slice(0, IV_LENGTH * 2), 'hex');
-    const tag = Buffer.from(encryptedText.slice(IV_LENGTH * 2, (IV_LENGTH + TAG_LENGTH) * 2), 'hex');
-    const encrypted = encryptedText.slice((IV_LENGTH + TAG_LENGTH) * 2);
+    if (keyId !== LEGACY_KEY_ID) {
+      const key = keyring.keys.find(k => k.id === keyId);
+      if (!key) {
+        throw new Error(`Encryption key "${keyId}" is not configured`);
+      }
 
-    const decipher = crypto.createDecipheriv(ALGORITHM, getKey(), iv);
-    decipher.setAuthTag(tag);
+      const [, , iv, tag, data] = encryptedText.split(':').map(part => Buffer.from(part, 'base64url'));
+      return decipher(deriveKey(key), iv, tag, data);
+    }
 
-    let decrypted = decipher.update(encrypted, 'hex', 'utf8');
-    decrypted += decipher.final('utf8');
+    const iv = Buffer.from(encryptedText.slice(0, IV_LENGTH * 2), 'hex');
+    const tag = Buffer.from(encryptedText.slice(IV_LENGTH * 2, (IV_LENGTH + TAG_LENGTH) * 2), 'hex');
+    const data = Buffer.from(encryptedText.slice((IV_LENGTH + TAG_LENGTH) * 2), 'hex');
 
-    return decrypted;
+    for (const secret of keyring.legacySecrets) {
+      try {
+        return decipher(legacyKey(secret), iv, tag, data);
+      } catch {
+        // Wrong secret - try the next one
+      }
+    }
+    throw new Error('No configured secret decrypts this token');
   } catch (error) {
-    console.error('Decryption error details:', error);
+    logger.error('Token decryption failed', { keyId, error });
     throw new Error('Failed to decrypt token');
   }
 }
+
+/**
+ * Decrypt with whichever key wrote the ciphertext and encrypt under the current key
+ */
+export function reencrypt(encryptedText: string, env: NodeJS.ProcessEnv = process.env): string {
+  return encrypt(decrypt(encryptedText, env), env);
+}
@@ -0,0 +1,162 @@
+/**
+ * Sync Events
+ * The cron worker and API server run as separate processes, so events are
+ * written to the sync_events table and the server polls it to push them
+ * to connected clients over Server-Sent Events.
+ */
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { AuthPrincipal } from './auth';
+import { logger } from './logger';
+
+export type SyncEventType =
+  | 'transactions.appended'
+  | 'missed_emails.recorded'
+  | 'auth.reauth_required'
+  | 'budget.alert'
+  | 'recurring.missed'
+  | 'recurring.amount_changed'
+  | 'sheet.created'
+  | 'sheet.invalid'
+  | 'sync.completed';
+
+export interface SyncEvent {
+  id: number;
+  user_id: string;
+  type: SyncEventType;
+  payload: Record<string, any>;
+  created_at: string;
+}
+
+/**
+ * Record an event for a user. Failures are logged and never interrupt a sync.
+ */
+export async function publishEvent(
+  supabase: SupabaseClient,
+  userId: string,
+  type: SyncEventType,
+  payload: Record<string, any> = {}
+): Promise<void> {
+  const { error } = await supabase
+    .from('sync_events')
+    .insert({ user_id: userId, type, payload });
+
+  if (error) {
+    logger.warn('Failed to publish event', { type, userId, error: error.message });
+  }
+}
+
+/**
+ * Poll for new events and hand each one to onEvent. Returns a stop function.
+ */
+export function startEventPoller(
+  supabase: SupabaseClient,
+  onEvent: (event: SyncEvent) => void,
+  intervalMs = 2000
+): () => void {
+  let lastId: number | null = null;
+  let stopped = false;
+
+  const poll = async () => {
+    if (lastId === null) {
+      // Start from the newest event so old events are not replayed on boot
+      const { data, error } = await supabase
+        .from('sync_events')
+        .select('id')
+        .order('id', { ascending: false })
+        .limit(1);
+      // Without a starting point every stored event would be replayed, so retry instead
+      if (error) {
+        logger.warn('Event poll could not find the newest event', { error: error.message });
+        return;
+      }
+      lastId = data?.[0]?.id || 0;
+      return;
+    }
+
+    const { data, error } = await supabase
+      .from('sync_events')
+      .select('*')
+      .gt('id', lastId)
+      .order('id', { ascending: true })
+      .limit(500);
+
+    if (error) {
+      logger.warn('Event poll failed', { error: error.message });
+      return;
+    }
+
+    for (const event of (data || []) as SyncEvent[]) {
+      lastId = event.id;
+      onEvent(event);
+    }
+  };
+
+  const loop = async () => {
+    while (!stopped) {
+      try {
+        await poll();
+      } catch (error) {
+        logger.warn('Event poll error', { error });
+      }
+      await new Promise(resolve => setTimeout(resolve, intervalMs));
+    }
+  };
+
+  loop();
+  return () => {
+    stopped = true;
+  };
+}
+
+/**
+ * Delete events older than maxAgeMs
+ */
+export async function pruneEvents(supabase: SupabaseClient, maxAgeMs = 24 * 60 * 60 * 1000): Promise<void> {
+  await supabase
+    .from('sync_events')
+    .delete()
+    .lt('created_at', new Date(Date.now() - maxAgeMs).toISOString());
+}
+
+function sign(value: string, secret: string): string {
+  return crypto.createHmac('sha256', secret).update(value).digest('base64url');
+}
+
+/**
+ * Create a short-lived token that lets a browser EventSource (which cannot
+ * send headers) subscribe to one user's events
+ */
+export function createStreamToken(userId: string, secret: string, ttlMs = 60 * 60 * 1000): string {
+  const payload = `${userId}.${Date.now() + ttlMs}`;
+  return `${Buffer.from(payload).toString('base64url')}.${sign(payload, secret)}`;
+}
+
+/**
+ * Check a stream token was issued for this user and has not expired
+ */
+export function verifyStreamToken(token: string, userId: string, secret: string): boolean {
+  const [encoded, signature] = token.split('.');
+  if (!encoded || !signature) return false;
+
+  const payload = Buffer.from(encoded, 'base64url').toString('utf-8');
+  const expected = sign(payload, secret);
+  if (expected.length !== signature.length ||
+      !crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(signature))) {
+    return false;
+  }
+
+  const separator = payload.lastIndexOf('.');
+  const tokenUserId = payload.slice(0, separator);
+  const expiresAt = parseInt(payload.slice(separator + 1), 10);
+
+  return tokenUserId === userId && expiresAt > Date.now();
+}
+
+/**
+ * The caller behind a verified stream token: read access to that one user
+ */
+export function streamPrincipal(userId: string): AuthPrincipal {
+  return { kind: 'token', userId, tokenId: null, scopes: ['read'] };
+}
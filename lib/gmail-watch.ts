@@ -0,0 +1,198 @@
+/**
+ * Gmail Push Notifications
+ * With GMAIL_PUBSUB_TOPIC set, each user's mailbox is watched with
+ * gmail.users.watch. Gmail publishes a notification to the topic on every change,
+ * Pub/Sub pushes it to the server, and the sync reads only the messages added
+ * since the stored historyId. Users whose watch has lapsed are polled as before.
+ */
+
+import crypto from 'crypto';
+import type { GmailClient } from './google-auth';
+import type { BankParser } from './bank-registry';
+
+// Watches last 7 days; renew a day early so a failed renewal can be retried
+export const WATCH_RENEWAL_MARGIN_MS = 24 * 60 * 60 * 1000;
+
+// Watched users are still synced on schedule this often, in case notifications are lost
+export const SAFETY_POLL_INTERVAL_MS = 6 * 60 * 60 * 1000;
+
+export interface GmailWatch {
+  historyId: string;
+  expiresAt: Date;
+}
+
+export interface PushNotification {
+  emailAddress: string;
+  historyId: string;
+}
+
+export interface WatchState {
+  gmail_history_id: string | null;
+  gmail_watch_expires_at: string | null;
+  last_sync_time?: string | null;
+}
+
+/**
+ * The Pub/Sub topic to watch mailboxes with, or null for polling only
+ */
+export function getPushTopic(env: NodeJS.ProcessEnv = process.env): string | null {
+  const topic = env.GMAIL_PUBSUB_TOPIC?.trim();
+  if (!topic) return null;
+  if (!/^projects\/[^/]+\/topics\/[^/]+$/.test(topic)) {
+    throw new Error('GMAIL_PUBSUB_TOPIC must look like projects/<project>/topics/<topic>');
+  }
+  return topic;
+}
+
+export function isWatchActive(expiresAt: string | null, now: Date = new Date()): boolean {
+  return !!expiresAt && new Date(expiresAt).getTime() > now.getTime();
+}
+
+export function needsWatchRenewal(expiresAt: string | null, now: Date = new Date()): boolean {
+  return !expiresAt || new Date(expiresAt).getTime() - now.getTime() < WATCH_RENEWAL_MARGIN_MS;
+}
+
+/**
+ * Whether the scheduled cycle should sync a user in push mode: their watch is
+ * missing, lapsed or due for renewal, or the safety poll is due
+ */
+export function needsScheduledSync(user: WatchState, now: Date = new Date()): boolean {
+  if (!user.gmail_history_id || needsWatchRenewal(user.gmail_watch_expires_at, now)) return true;
+  if (!user.last_sync_time) return true;
+  return now.getTime() - new Date(user.last_sync_time).getTime() >= SAFETY_POLL_INTERVAL_MS;
+}
+
+/**
+ * Whether historyId a is later than b. History ids are uint64 strings.
+ */
+export function isNewerHistory(a: string, b: string): boolean {
+  try {
+    return BigInt(a) > BigInt(b);
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Start (or renew) the watch on a mailbox
+ */
+export async function startWatch(gmail: GmailClient, topicName: string): Promise<GmailWatch> {
+  const response = await gmail.users.watch({ userId: 'me', requestBody: { topicName } });
+  if (!response.data.historyId || !response.data.expiration) {
+    throw new Error('Gmail watch response had no historyId or expiration');
+  }
+  return {
+    historyId: String(response.data.historyId),
+    expiresAt: new Date(Number(response.data.expiration)),
+  };
+}
+
+/**
+ * Ids of messages added since startHistoryId, oldest first, and the mailbox's
+ * current historyId. Returns null when Gmail no longer has history that far
+ * back (it keeps about a week), in which case the caller should do a full query.
+ */
+export async function listHistoryMessageIds(
+  gmail: GmailClient,
+  startHistoryId: string
+): Promise<{ messageIds: string[]; historyId: string } | null> {
+  const ids = new Set<string>();
+  let historyId = startHistoryId;
+  let pageToken: string | undefined;
+
+  try {
+    do {
+      const response = await gmail.users.history.list({
+        userId: 'me',
+        startHistoryId,
+        historyTypes: ['messageAdded'],
+        maxResults: 500,
+        pageToken,
+      });
+
+      for (const record of response.data.history || []) {
+        for (const added of record.messagesAdded || []) {
+          const labels = added.message?.labelIds || [];
+          if (added.message?.id && !labels.includes('DRAFT') && !labels.includes('SENT')) {
+            ids.add(added.message.id);
+          }
+        }
+      }
+      if (response.data.historyId) historyId = String(response.data.historyId);
+      pageToken = response.data.nextPageToken || undefined;
+    } while (pageToken);
+  } catch (error) {
+    if ((error as any).code === 404 || (error as any).status === 404) return null;
+    throw error;
+  }
+
+  return { messageIds: Array.from(ids), historyId };
+}
+
+/**
+ * Keep the messages the polling query would have found: sent from one of the
+ * parsers' alert addresses, with transaction keywords in the subject or snippet.
+ * OTPs, offers and statements from the same senders are left alone.
+ */
+export async function filterBankMessages(gmail: GmailClient, parsers: BankParser[], messageIds: string[]): Promise<string[]> {
+  const matching: string[] = [];
+
+  for (const id of messageIds) {
+    const response = await gmail.users.messages.get({
+      userId: 'me',
+      id,
+      format: 'metadata',
+      metadataHeaders: ['From', 'Subject'],
+    });
+    const headers = response.data.payload?.headers || [];
+    const from = headers.find(h => h.name?.toLowerCase() === 'from')?.value || '';
+    const subject = headers.find(h => h.name?.toLowerCase() === 'subject')?.value || '';
+
+    const sender = from.toLowerCase();
+    const parser = parsers.find(p => p.senders.some(s => sender.includes(s)));
+    if (parser?.detect(from, subject, response.data.snippet || '')) matching.push(id);
+  }
+
+  return matching;
+}
+
+/**
+ * Read a Pub/Sub push request body. Returns null when it is not a Gmail notification.
+ */
+export function parsePushNotification(body: any): PushNotification | null {
+  const data = body?.message?.data;
+  if (typeof data !== 'string') return null;
+
+  try {
+    const decoded = JSON.parse(Buffer.from(data, 'base64').toString('utf8'));
+    if (typeof decoded.emailAddress !== 'string' || !decoded.emailAddress.includes('@')) return null;
+    if (!/^\d+$/.test(String(decoded.historyId))) return null;
+    return { emailAddress: decoded.emailAddress.toLowerCase(), historyId: String(decoded.historyId) };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * A push request body as Pub/Sub would send it, for local testing
+ */
+export function buildPushNotification(notification: PushNotification, messageId: string = crypto.randomUUID()) {
+  return {
+    message: {
+      data: Buffer.from(JSON.stringify(notification)).toString('base64'),
+      messageId,
+      publishTime: new Date().toISOString(),
+    },
+    subscription: 'projects/local/subscriptions/gmail-push',
+  };
+}
+
+/**
+ * Check the shared token Pub/Sub sends in the push endpoint URL
+ */
+export function verifyPushToken(token: unknown, expected: string): boolean {
+  if (typeof token !== 'string') return false;
+  const left = Buffer.from(token);
+  const right = Buffer.from(expected);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
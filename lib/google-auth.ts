@@ -0,0 +1,75 @@
+/**
+ * Google OAuth helpers
+ * Exchanges stored refresh tokens for access tokens and builds API clients
+ */
+
+import { google } from 'googleapis';
+import { logger } from './logger';
+import { classifyRefreshResponse, type TokenFailure } from './token-health';
+
+export type GmailClient = ReturnType<typeof google.gmail>;
+export type SheetsClient = ReturnType<typeof google.sheets>;
+
+/**
+ * Exchange a refresh token for a fresh access token, or say why Google would not
+ */
+export async function requestAccessToken(
+  refreshToken: string
+): Promise<{ accessToken: string; failure?: undefined } | { accessToken?: undefined; failure: TokenFailure }> {
+  let response: Response;
+  let data: { access_token?: string; error?: string };
+  try {
+    response = await fetch('https://oauth2.googleapis.com/token', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/x-www-form-urlencoded' },
+      body: new URLSearchParams({
+        client_id: process.env.GOOGLE_CLIENT_ID!,
+        client_secret: process.env.GOOGLE_CLIENT_SECRET!,
+        grant_type: 'refresh_token',
+        refresh_token: refreshToken,
+      }),
+    });
+    data = await response.json() as { access_token?: string; error?: string };
+  } catch (error) {
+    logger.error('Error refreshing token', { error });
+    return { failure: { kind: 'transient', reason: 'network_error' } };
+  }
+
+  if (!response.ok) {
+    logger.error('Token refresh failed', { status: response.status, response: data });
+    return { failure: classifyRefreshResponse(response.status, data) };
+  }
+  if (!data.access_token) {
+    return { failure: { kind: 'transient', reason: 'no_access_token' } };
+  }
+  return { accessToken: data.access_token };
+}
+
+/**
+ * Exchange a refresh token for a fresh access token (null on any failure)
+ */
+export async function refreshAccessToken(refreshToken: string): Promise<string | null> {
+  return (await requestAccessToken(refreshToken)).accessToken || null;
+}
+
+/**
+ * Build Gmail and Sheets clients authorised with an access token
+ */
+export function createGoogleClients(accessToken: string): { gmail: GmailClient; sheets: SheetsClient } {
+  const auth = new google.auth.OAuth2();
+  auth.setCredentials({ access_token: accessToken });
+
+  return {
+    gmail: google.gmail({ version: 'v1', auth }),
+    sheets: google.sheets({ version: 'v4', auth }),
+  };
+}
+
+/**
+ * Whether an error came back from a Gmail or Sheets API call
+ */
+export function isGoogleApiError(error: unknown): boolean {
+  if (!(error instanceof Error)) return false;
+  const url = (error as any).config?.url;
+  return error.name === 'GaxiosError' || (typeof url === 'string' && url.includes('googleapis.com'));
+}
@@ -0,0 +1,382 @@
+/**
+ * Sync Job Queue
+ * Supabase-backed jobs with bounded parallelism, retries with backoff,
+ * and lease-based locks that expire if a worker dies mid-job
+ */
+
+import os from 'os';
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { logger } from './logger';
+
+export type JobStatus = 'queued' | 'running' | 'succeeded' | 'failed';
+
+export interface SyncJob {
+  id: string;
+  batch_id: string;
+  user_id: string;
+  status: JobStatus;
+  attempts: number;
+  max_attempts: number;
+  run_after: string;
+  lease_owner: string | null;
+  lease_expires_at: string | null;
+  result: any;
+  error: string | null;
+  created_at: string;
+  started_at: string | null;
+  finished_at: string | null;
+}
+
+export interface WorkerOptions {
+  concurrency: number;
+  pollIntervalMs: number;
+  leaseMs: number;
+  baseBackoffMs: number;
+  onBatchComplete?: (batchId: string, jobs: SyncJob[]) => void | Promise<void>;
+  // Stops the worker once its in-flight jobs finish
+  signal?: AbortSignal;
+}
+
+export const DEFAULT_WORKER_OPTIONS: WorkerOptions = {
+  concurrency: parseInt(process.env.SYNC_CONCURRENCY || '3', 10),
+  pollIntervalMs: 5 * 1000,
+  leaseMs: 10 * 60 * 1000,
+  baseBackoffMs: 30 * 1000,
+};
+
+// Identifies this process as the holder of job and user leases
+export const WORKER_ID = `${os.hostname()}-${process.pid}`;
+
+/**
+ * Queue one sync job per user under a shared batch id.
+ * Users that already have a queued or running job are skipped; those jobs are
+ * returned as existing.
+ */
+export async function enqueueSyncJobs(
+  supabase: SupabaseClient,
+  userIds: string[],
+  maxAttempts = 3
+): Promise<{ batchId: string; jobs: SyncJob[]; existing: SyncJob[] }> {
+  const batchId = crypto.randomUUID();
+  if (userIds.length === 0) {
+    return { batchId, jobs: [], existing: [] };
+  }
+
+  const { data: active } = await supabase
+    .from('sync_jobs')
+    .select('*')
+    .in('user_id', userIds)
+    .in('status', ['queued', 'running']);
+
+  const existing = (active || []) as SyncJob[];
+  const busy = new Set(existing.map(job => job.user_id));
+  const toQueue = userIds.filter(userId => !busy.has(userId));
+  if (toQueue.length === 0) {
+    return { batchId, jobs: [], existing };
+  }
+
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .insert(toQueue.map(userId => ({
+      batch_id: batchId,
+      user_id: userId,
+      status: 'queued',
+      attempts: 0,
+      max_attempts: maxAttempts,
+      run_after: now,
+    })))
+    .select();
+
+  if (error) {
+    throw new Error(`Failed to enqueue jobs: ${error.message}`);
+  }
+
+  return { batchId, jobs: (data || []) as SyncJob[], existing };
+}
+
+/**
+ * Look up a job by id, or every job in a batch by batch id
+ */
+export async function getJobs(supabase: SupabaseClient, id: string): Promise<SyncJob[]> {
+  const { data, error } = await supabase
+    .from('sync_jobs')
+    .select('*')
+    .or(`id.eq.${id},batch_id.eq.${id}`)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(error.message);
+  }
+  return (data || []) as SyncJob[];
+}
+
+/**
+ * Summarise a set of jobs by status
+ */
+export function summariseJobs(jobs: SyncJob[]): Record<JobStatus, number> & { done: boolean } {
+  const counts = { queued: 0, running: 0, succeeded: 0, failed: 0 };
+  for (const job of jobs) {
+    counts[job.status]++;
+  }
+  return { ...counts, done: counts.queued === 0 && counts.running === 0 };
+}
+
+/**
+ * Claim up to `limit` runnable jobs: queued jobs that are due, and running jobs
+ * whose lease has expired (their worker died).
+ */
+export async function claimJobs(supabase: SupabaseClient, limit: number, leaseMs: number): Promise<SyncJob[]> {
+  const now = new Date().toISOString();
+  const { data: candidates, error } = await supabase
+    .from('sync_jobs')
+    .select('*')
+    .or(`and(status.eq.queued,run_after.lte.${now}),and(status.eq.running,lease_expires_at.lt.${now})`)
+    .order('run_after', { ascending: true })
+    .limit(limit);
+
+  if (error) {
+    logger.error('Failed to poll job queue', { error: error.message });
+    return [];
+  }
+
+  const claimed: SyncJob[] = [];
+  for (const candidate of (candidates || []) as SyncJob[]) {
+    // Conditional on the status we saw, so two workers cannot claim the same job
+    const { data } = await supabase
+      .from('sync_jobs')
+      .update({
+        status: 'running',
+        attempts: candidate.attempts + 1,
+        lease_owner: WORKER_ID,
+        lease_expires_at: new Date(Date.now() + leaseMs).toISOString(),
+        started_at: new Date().toISOString(),
+      })
+      .eq('id', candidate.id)
+      .eq('status', candidate.status)
+      .eq('attempts', candidate.attempts)
+      .select();
+
+    if (data && data.length > 0) {
+      claimed.push(data[0] as SyncJob);
+    }
+  }
+
+  return claimed;
+}
+
+/**
+ * Extend the lease on a job this worker is running. Returns false once another
+ * worker has taken the job over.
+ */
+export async function renewJobLease(supabase: SupabaseClient, job: SyncJob, leaseMs: number): Promise<boolean> {
+  const { data } = await supabase
+    .from('sync_jobs')
+    .update({ lease_expires_at: new Date(Date.now() + leaseMs).toISOString() })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('lease_owner', WORKER_ID)
+    .eq('attempts', job.attempts)
+    .select('id');
+
+  return !!data && data.length > 0;
+}
+
+/**
+ * Call `renew` every third of the lease until the returned function is called,
+ * so long runs keep their lease
+ */
+export function keepLeaseAlive(renew: () => Promise<unknown>, leaseMs: number): () => void {
+  const timer = setInterval(() => {
+    renew().catch(error => logger.warn('Failed to renew lease', { error }));
+  }, Math.max(1, Math.floor(leaseMs / 3)));
+  return () => clearInterval(timer);
+}
+
+/**
+ * Record a job's outcome. Only the attempt that holds the lease may do so, so a
+ * worker whose lease expired cannot overwrite the attempt that took over.
+ */
+export async function finishJob(
+  supabase: SupabaseClient,
+  job: SyncJob,
+  outcome: { result?: any; error?: Error },
+  options: WorkerOptions
+): Promise<void> {
+  let update: Record<string, any>;
+
+  if (!outcome.error) {
+    update = {
+      status: 'succeeded',
+      result: outcome.result ?? null,
+      error: null,
+      finished_at: new Date().toISOString(),
+    };
+  } else if (isUserBusyError(outcome.error)) {
+    // Another run holds the user; wait for it without using up an attempt
+    logger.info('User busy, requeueing job', { jobId: job.id, retryInMs: options.baseBackoffMs });
+    update = {
+      status: 'queued',
+      attempts: job.attempts - 1,
+      run_after: new Date(Date.now() + options.baseBackoffMs).toISOString(),
+    };
+  } else if (job.attempts < job.max_attempts) {
+    const backoffMs = options.baseBackoffMs * 2 ** (job.attempts - 1);
+    logger.warn('Job failed, retrying', { jobId: job.id, attempt: job.attempts, maxAttempts: job.max_attempts, retryInMs: backoffMs });
+    update = {
+      status: 'queued',
+      error: outcome.error.message,
+      run_after: new Date(Date.now() + backoffMs).toISOString(),
+    };
+  } else {
+    logger.error('Job failed', { jobId: job.id, attempts: job.attempts, error: outcome.error.message });
+    update = {
+      status: 'failed',
+      error: outcome.error.message,
+      finished_at: new Date().toISOString(),
+    };
+  }
+
+  const { data } = await supabase
+    .from('sync_jobs')
+    .update({ ...update, lease_owner: null, lease_expires_at: null })
+    .eq('id', job.id)
+    .eq('status', 'running')
+    .eq('lease_owner', WORKER_ID)
+    .eq('attempts', job.attempts)
+    .select('id');
+
+  if (!data || data.length === 0) {
+    logger.warn('Job lease was lost, outcome discarded', { jobId: job.id, attempt: job.attempts });
+  }
+}
+
+async function checkBatchComplete(supabase: SupabaseClient, batchId: string, options: WorkerOptions): Promise<void> {
+  if (!options.onBatchComplete) return;
+
+  const jobs = await getJobs(supabase, batchId);
+  if (jobs.length > 0 && summariseJobs(jobs).done) {
+    await options.onBatchComplete(batchId, jobs);
+  }
+}
+
+/**
+ * Run jobs with at most `concurrency` in flight at once, until the signal aborts.
+ * Each running job's lease is renewed while its handler runs.
+ */
+export async function runWorker(
+  supabase: SupabaseClient,
+  handler: (job: SyncJob) => Promise<any>,
+  overrides: Partial<WorkerOptions> = {}
+): Promise<void> {
+  const options = { ...DEFAULT_WORKER_OPTIONS, ...overrides };
+  const inFlight = new Set<Promise<void>>();
+
+  logger.info('Worker started', { workerId: WORKER_ID, concurrency: options.concurrency });
+
+  while (!options.signal?.aborted) {
+    const free = options.concurrency - inFlight.size;
+    const jobs = free > 0 ? await claimJobs(supabase, free, options.leaseMs) : [];
+
+    for (const job of jobs) {
+      const run = (async () => {
+        let outcome: { result?: any; error?: Error };
+        const stopRenewing = keepLeaseAlive(() => renewJobLease(supabase, job, options.leaseMs), options.leaseMs);
+        try {
+          outcome = { result: await handler(job) };
+        } catch (error) {
+          outcome = { error: error instanceof Error ? error : new Error(String(error)) };
+        } finally {
+          stopRenewing();
+        }
+        await finishJob(supabase, job, outcome, options);
+        await checkBatchComplete(supabase, job.batch_id, options);
+      })()
+        .catch(error => logger.error('Worker error', { jobId: job.id, error }))
+        .finally(() => inFlight.delete(run));
+
+      inFlight.add(run);
+    }
+
+    if (jobs.length === 0 || inFlight.size >= options.concurrency) {
+      await Promise.race([
+        new Promise(resolve => setTimeout(resolve, options.pollIntervalMs)),
+        ...inFlight,
+      ]);
+    }
+  }
+
+  await Promise.all(inFlight);
+  logger.info('Worker stopped', { workerId: WORKER_ID });
+}
+
+/**
+ * Take the per-user lease. Fails if another worker holds an unexpired lease.
+ */
+export async function acquireUserLease(
+  supabase: SupabaseClient,
+  userId: string,
+  leaseMs: number = DEFAULT_WORKER_OPTIONS.leaseMs
+): Promise<boolean> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('users')
+    .update({
+      lock_owner: WORKER_ID,
+      lock_expires_at: new Date(Date.now() + leaseMs).toISOString(),
+    })
+    .eq('id', userId)
+    .or(`lock_expires_at.is.null,lock_expires_at.lt.${now}`)
+    .select('id');
+
+  if (error) {
+    logger.error('Failed to acquire user lease', { userId, error: error.message });
+    return false;
+  }
+  return !!data && data.length > 0;
+}
+
+export function isUserBusyError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'UserBusyError';
+}
+
+/**
+ * Thrown when the user's lease is held by another run
+ */
+export function userBusyError(): Error {
+  return Object.assign(new Error('User already being processed'), { name: 'UserBusyError' });
+}
+
+/**
+ * Extend a lease this worker already holds (long syncs and backfills)
+ */
+export async function renewUserLease(
+  supabase: SupabaseClient,
+  userId: string,
+  leaseMs: number = DEFAULT_WORKER_OPTIONS.leaseMs
+): Promise<void> {
+  await supabase
+    .from('users')
+    .update({ lock_expires_at: new Date(Date.now() + leaseMs).toISOString() })
+    .eq('id', userId)
+    .eq('lock_owner', WORKER_ID);
+}
+
+/**
+ * Release a lease this worker holds
+ */
+export async function releaseUserLease(supabase: SupabaseClient, userId: string): Promise<void> {
+  await supabase
+    .from('users')
+    .update({ lock_owner: null, lock_expires_at: null })
+    .eq('id', userId)
+    .eq('lock_owner', WORKER_ID);
+}
+
+/**
+ * Whether a user currently has an unexpired lease
+ */
+export function isUserLocked(user: { lock_expires_at?: string | null }): boolean {
+  return !!user.lock_expires_at && new Date(user.lock_expires_at) > new Date();
+}
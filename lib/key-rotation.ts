@@ -0,0 +1,85 @@
+/**
+ * Refresh Token Key Rotation
+ * Re-encrypts stored Google refresh tokens under the current key, a page of users
+ * at a time in id order. Used by scripts/rotate-encryption-key.ts.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { getKeyId, needsReencryption, reencrypt } from './encryption';
+
+export interface RotationResult {
+  current: number;
+  rotated: number;
+  failed: { email: string; error: string }[];
+  // Tokens per key id before rotation
+  byKey: Map<string, number>;
+}
+
+/**
+ * Re-encrypt every refresh token not under the current key. Tokens that cannot be
+ * decrypted or updated are left unchanged and reported in failed.
+ */
+export async function rotateRefreshTokens(
+  supabase: SupabaseClient,
+  options: { dryRun?: boolean; pageSize?: number; env?: NodeJS.ProcessEnv } = {}
+): Promise<RotationResult> {
+  const { dryRun = false, pageSize = 500, env = process.env } = options;
+  const result: RotationResult = { current: 0, rotated: 0, failed: [], byKey: new Map() };
+  let lastId: string | null = null;
+
+  while (true) {
+    let query = supabase
+      .from('users')
+      .select('id, google_email, google_refresh_token')
+      .neq('google_refresh_token', '');
+    // users.id is a uuid, so the first page has no lower bound rather than an empty one
+    if (lastId) query = query.gt('id', lastId);
+
+    const { data: users, error } = await query.order('id', { ascending: true }).limit(pageSize);
+    if (error) {
+      throw new Error(`Could not list users: ${error.message}`);
+    }
+    if (!users || users.length === 0) break;
+
+    for (const user of users) {
+      lastId = user.id;
+      if (!user.google_refresh_token) continue;
+
+      const keyId = getKeyId(user.google_refresh_token);
+      result.byKey.set(keyId, (result.byKey.get(keyId) || 0) + 1);
+
+      if (!needsReencryption(user.google_refresh_token, env)) {
+        result.current++;
+        continue;
+      }
+
+      let rotated: string;
+      try {
+        rotated = reencrypt(user.google_refresh_token, env);
+      } catch {
+        result.failed.push({ email: user.google_email, error: `cannot decrypt (key "${keyId}") - left unchanged` });
+        continue;
+      }
+
+      if (!dryRun) {
+        // Only replace the value we read, in case the user signed in again meanwhile
+        const { error: updateError } = await supabase
+          .from('users')
+          .update({ google_refresh_token: rotated })
+          .eq('id', user.id)
+          .eq('google_refresh_token', user.google_refresh_token);
+
+        if (updateError) {
+          result.failed.push({ email: user.google_email, error: updateError.message });
+          continue;
+        }
+      }
+
+      result.rotated++;
+    }
+
+    if (users.length < pageSize) break;
+  }
+
+  return result;
+}
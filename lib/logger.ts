@@ -0,0 +1,111 @@
+/**
+ * Structured Logger
+ * One JSON object per line with a level, message and fields. Correlation ids
+ * (cycle, job, user, request) set with runWithLogContext are added to every
+ * line logged inside that call, however deep. Secrets and email content are
+ * redacted by field name.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+export interface Logger {
+  debug(message: string, fields?: LogFields): void;
+  info(message: string, fields?: LogFields): void;
+  warn(message: string, fields?: LogFields): void;
+  error(message: string, fields?: LogFields): void;
+  child(fields: LogFields): Logger;
+}
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+// Field names (snake_cased) whose values never reach the logs
+const REDACTED_KEYS = /(^|_)(token|body|html)$|secret|password|passwd|authorization|api_?key|cookie|snippet|credential/;
+
+function isRedactedKey(key: string): boolean {
+  return REDACTED_KEYS.test(key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase());
+}
+
+const context = new AsyncLocalStorage<LogFields>();
+
+/**
+ * Run fn with fields attached to every log line written while it runs
+ */
+export function runWithLogContext<T>(fields: LogFields, fn: () => T): T {
+  return context.run({ ...context.getStore(), ...fields }, fn);
+}
+
+/**
+ * Copy a value for logging with sensitive fields replaced. Errors become
+ * { name, message, stack } plus any status code they carry.
+ */
+export function redact(value: unknown, depth = 0): unknown {
+  if (value instanceof Error) {
+    const status = (value as any).status ?? (value as any).code;
+    return {
+      name: value.name,
+      message: redactString(value.message),
+      ...(status !== undefined ? { status } : {}),
+      stack: value.stack,
+    };
+  }
+  if (typeof value === 'string') return redactString(value);
+  if (value === null || typeof value !== 'object') return value;
+  if (depth >= 5) return '[Truncated]';
+  if (Array.isArray(value)) return value.slice(0, 50).map(item => redact(item, depth + 1));
+
+  const copy: LogFields = {};
+  for (const [key, item] of Object.entries(value)) {
+    copy[key] = isRedactedKey(key) ? '[REDACTED]' : redact(item, depth + 1);
+  }
+  return copy;
+}
+
+function redactString(value: string): string {
+  return value.replace(/\b(Bearer)\s+[\w.~+/=-]+/gi, '$1 [REDACTED]');
+}
+
+function parseLevel(value: string | undefined): LogLevel {
+  return value && value in LEVELS ? (value as LogLevel) : 'info';
+}
+
+/**
+ * Create a logger. Lines at warn and error go to stderr, the rest to stdout.
+ */
+export function createLogger(
+  fields: LogFields = {},
+  options: { level?: LogLevel; write?: (line: string, level: LogLevel) => void } = {}
+): Logger {
+  const minimum = LEVELS[options.level || parseLevel(process.env.LOG_LEVEL)];
+  const write = options.write || ((line: string, level: LogLevel) => {
+    (LEVELS[level] >= LEVELS.warn ? process.stderr : process.stdout).write(`${line}\n`);
+  });
+
+  const log = (level: LogLevel, message: string, extra?: LogFields) => {
+    if (LEVELS[level] < minimum) return;
+
+    const entry = redact({
+      time: new Date().toISOString(),
+      level,
+      message,
+      ...fields,
+      ...context.getStore(),
+      ...extra,
+    }, -1);
+    write(JSON.stringify(entry), level);
+  };
+
+  return {
+    debug: (message, extra) => log('debug', message, extra),
+    info: (message, extra) => log('info', message, extra),
+    warn: (message, extra) => log('warn', message, extra),
+    error: (message, extra) => log('error', message, extra),
+    child: childFields => createLogger({ ...fields, ...childFields }, options),
+  };
+}
+
+// Shared logger for lib modules; entry points add their service name with child()
+export const logger = createLogger();
@@ -0,0 +1,77 @@
+/**
+ * Manual Transaction Input
+ * Validates request bodies for cash spends and banks without email alerts
+ */
+
+import { createManualTransaction, type ParsedTransaction } from './email-parser';
+import { bodyErrors, checkBody, type BodySchema } from './request-schema';
+
+export interface ManualTransactionInput {
+  amount: number;
+  type: 'Credit' | 'Debit';
+  dateTime: Date;
+  category: string;
+  notes: string;
+  method?: string;
+  account?: string;
+  description?: string;
+}
+
+export const MANUAL_TRANSACTION_SCHEMA: BodySchema = {
+  amount: { type: 'number', min: 0.01 },
+  type: { type: 'string', values: ['Credit', 'Debit'] },
+  dateTime: { type: 'date', optional: true },
+  category: { type: 'string', optional: true },
+  notes: { type: 'string', optional: true },
+  method: { type: 'string', optional: true },
+  account: { type: 'string', optional: true, pattern: /^(\d{4})?$/, format: 'the last 4 digits' },
+  description: { type: 'string', optional: true },
+};
+
+/**
+ * Validate a manual transaction request body
+ */
+export function validateManualTransaction(body: any): { input?: ManualTransactionInput; error?: string; details?: string[] } {
+  const problems = checkBody(MANUAL_TRANSACTION_SCHEMA, body);
+  if (problems.length > 0) {
+    return bodyErrors(problems);
+  }
+
+  return {
+    input: {
+      amount: Math.round(body.amount * 100) / 100,
+      type: body.type,
+      dateTime: body.dateTime ? new Date(body.dateTime) : new Date(),
+      category: body.category || '',
+      notes: body.notes || '',
+      method: body.method || undefined,
+      account: body.account || undefined,
+      description: body.description || undefined,
+    },
+  };
+}
+
+/**
+ * Check whether a reference number belongs to a manual entry
+ */
+export function isManualReference(referenceNumber: string): boolean {
+  return referenceNumber.startsWith('MANUAL_');
+}
+
+/**
+ * Build a manual transaction, optionally keeping an existing reference number
+ */
+export function buildManualTransaction(input: ManualTransactionInput, referenceNumber?: string): ParsedTransaction {
+  const transaction = createManualTransaction(
+    input.amount,
+    input.type,
+    input.dateTime,
+    input.category,
+    input.notes,
+    input.method,
+    input.account,
+    input.description
+  );
+
+  return referenceNumber ? { ...transaction, referenceNumber } : transaction;
+}
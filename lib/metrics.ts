@@ -0,0 +1,242 @@
+/**
+ * Sync Metrics
+ * Per-job counters, per-cycle run summaries, and the cumulative series behind
+ * the Prometheus /metrics route. The cron worker writes the series to the
+ * sync_metrics table after each cycle, since the API server runs in another process.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { SyncJob } from './job-queue';
+
+export interface SyncMetrics {
+  emails_fetched: number;
+  emails_parsed: number;
+  emails_missed: number;
+  // Already stored, by reference number or as a merged near-duplicate
+  duplicates: number;
+  transactions: number;
+  token_failures: number;
+  google_api_errors: number;
+}
+
+export interface SyncRun extends SyncMetrics {
+  id: string;
+  started_at: string;
+  finished_at: string;
+  duration_ms: number;
+  jobs: number;
+  succeeded: number;
+  failed: number;
+}
+
+type MetricType = 'counter' | 'gauge' | 'histogram';
+
+// Every family exposed on /metrics, in output order
+const METRIC_FAMILIES: { name: string; type: MetricType; help: string }[] = [
+  { name: 'finance_sync_cycles_total', type: 'counter', help: 'Completed sync cycles' },
+  { name: 'finance_sync_jobs_total', type: 'counter', help: 'Finished sync jobs by status' },
+  { name: 'finance_sync_cycle_duration_seconds', type: 'histogram', help: 'Time from queueing a cycle to its last job finishing' },
+  { name: 'finance_sync_emails_fetched_total', type: 'counter', help: 'Bank emails fetched from Gmail' },
+  { name: 'finance_sync_emails_parsed_total', type: 'counter', help: 'Bank emails parsed into transactions' },
+  { name: 'finance_sync_emails_missed_total', type: 'counter', help: 'Bank emails that could not be parsed' },
+  { name: 'finance_sync_duplicates_total', type: 'counter', help: 'Parsed transactions skipped as duplicates' },
+  { name: 'finance_sync_transactions_total', type: 'counter', help: 'Transactions written to stores' },
+  { name: 'finance_sync_token_failures_total', type: 'counter', help: 'Syncs stopped by an unusable Google token' },
+  { name: 'finance_sync_google_api_errors_total', type: 'counter', help: 'Sync attempts failed by a Google API error' },
+  { name: 'finance_sync_last_cycle_timestamp_seconds', type: 'gauge', help: 'When the last sync cycle finished' },
+];
+
+export const CYCLE_DURATION_BUCKETS = [10, 30, 60, 120, 300, 600, 1800];
+
+export function emptySyncMetrics(): SyncMetrics {
+  return {
+    emails_fetched: 0,
+    emails_parsed: 0,
+    emails_missed: 0,
+    duplicates: 0,
+    transactions: 0,
+    token_failures: 0,
+    google_api_errors: 0,
+  };
+}
+
+export function addSyncMetrics(total: SyncMetrics, extra: Partial<SyncMetrics>): SyncMetrics {
+  const sum = { ...total };
+  for (const key of Object.keys(sum) as (keyof SyncMetrics)[]) {
+    sum[key] += extra[key] || 0;
+  }
+  return sum;
+}
+
+/**
+ * Summarise a finished cycle from its jobs. Job results carry their metrics;
+ * Google API errors from failed attempts are counted by the worker and passed in.
+ */
+export function summariseRun(
+  batchId: string,
+  jobs: SyncJob[],
+  attemptErrors: Partial<SyncMetrics> = {},
+  now: Date = new Date()
+): SyncRun {
+  const started = Math.min(...jobs.map(job => new Date(job.created_at).getTime()));
+  let metrics = addSyncMetrics(emptySyncMetrics(), attemptErrors);
+  for (const job of jobs) {
+    metrics = addSyncMetrics(metrics, job.result?.metrics || {});
+  }
+
+  return {
+    id: batchId,
+    started_at: new Date(started).toISOString(),
+    finished_at: now.toISOString(),
+    duration_ms: now.getTime() - started,
+    jobs: jobs.length,
+    succeeded: jobs.filter(job => job.status === 'succeeded').length,
+    failed: jobs.filter(job => job.status === 'failed').length,
+    ...metrics,
+  };
+}
+
+/**
+ * What a finished run adds to each counter and histogram series (keyed by name and labels)
+ */
+export function runIncrements(run: SyncRun): Record<string, number> {
+  const increments: Record<string, number> = {};
+  const add = (key: string, value: number) => {
+    increments[key] = (increments[key] || 0) + value;
+  };
+
+  add('finance_sync_cycles_total', 1);
+  add('finance_sync_jobs_total{status="succeeded"}', run.succeeded);
+  add('finance_sync_jobs_total{status="failed"}', run.failed);
+
+  const seconds = run.duration_ms / 1000;
+  for (const bucket of CYCLE_DURATION_BUCKETS) {
+    add(`finance_sync_cycle_duration_seconds_bucket{le="${bucket}"}`, seconds <= bucket ? 1 : 0);
+  }
+  add('finance_sync_cycle_duration_seconds_bucket{le="+Inf"}', 1);
+  add('finance_sync_cycle_duration_seconds_sum', seconds);
+  add('finance_sync_cycle_duration_seconds_count', 1);
+
+  for (const key of Object.keys(emptySyncMetrics()) as (keyof SyncMetrics)[]) {
+    add(`finance_sync_${key}_total`, run[key]);
+  }
+
+  return increments;
+}
+
+function lastCycleSeconds(run: SyncRun): number {
+  return Math.floor(new Date(run.finished_at).getTime() / 1000);
+}
+
+/**
+ * Add a finished run to the cumulative series
+ */
+export function applyRun(series: Record<string, number>, run: SyncRun): Record<string, number> {
+  const next = { ...series };
+  for (const [key, value] of Object.entries(runIncrements(run))) {
+    next[key] = (next[key] || 0) + value;
+  }
+  next.finance_sync_last_cycle_timestamp_seconds = lastCycleSeconds(run);
+  return next;
+}
+
+function familyOf(key: string): string {
+  return key.replace(/\{.*$/, '');
+}
+
+// Histogram buckets sort by their upper bound
+function bucketBound(key: string): number {
+  const le = key.match(/le="([^"]+)"/)?.[1];
+  if (le === undefined) return 0;
+  return le === '+Inf' ? Number.MAX_VALUE : parseFloat(le);
+}
+
+/**
+ * Prometheus text exposition of the series
+ */
+export function renderMetrics(series: Record<string, number>): string {
+  const lines: string[] = [];
+
+  for (const family of METRIC_FAMILIES) {
+    const names = family.type === 'histogram'
+      ? ['_bucket', '_sum', '_count'].map(suffix => family.name + suffix)
+      : [family.name];
+    const samples = Object.keys(series)
+      .filter(key => names.includes(familyOf(key)))
+      .sort((a, b) => names.indexOf(familyOf(a)) - names.indexOf(familyOf(b)) || bucketBound(a) - bucketBound(b) || a.localeCompare(b));
+    if (samples.length === 0) continue;
+
+    lines.push(`# HELP ${family.name} ${family.help}`, `# TYPE ${family.name} ${family.type}`);
+    for (const key of samples) {
+      lines.push(`${key} ${series[key]}`);
+    }
+  }
+
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Load the cumulative series
+ */
+export async function loadMetricSeries(supabase: SupabaseClient): Promise<Record<string, number>> {
+  const { data, error } = await supabase.from('sync_metrics').select('series, value');
+  if (error) {
+    throw new Error(`Failed to load metrics: ${error.message}`);
+  }
+  return Object.fromEntries((data || []).map(row => [row.series, Number(row.value)]));
+}
+
+/**
+ * Save a finished run to sync_runs and add it to the cumulative series. Jobs of one
+ * batch can finish together and each report the batch done, so inserting the run row
+ * claims it: only the caller that created it adds to the series, with the increments
+ * applied in SQL. Returns false when the run was already recorded.
+ */
+export async function recordRun(supabase: SupabaseClient, run: SyncRun): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .upsert(run, { onConflict: 'id', ignoreDuplicates: true })
+    .select('id');
+  if (error) {
+    throw new Error(`Failed to save sync run: ${error.message}`);
+  }
+  if (!data || data.length === 0) return false;
+
+  const { error: seriesError } = await supabase.rpc('increment_sync_metrics', {
+    increments: runIncrements(run),
+    last_cycle: lastCycleSeconds(run),
+  });
+  if (seriesError) {
+    throw new Error(`Failed to save metrics: ${seriesError.message}`);
+  }
+  return true;
+}
+
+/**
+ * Most recent runs first
+ */
+export async function listRuns(supabase: SupabaseClient, limit = 20): Promise<SyncRun[]> {
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .select('*')
+    .order('started_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load sync runs: ${error.message}`);
+  }
+  return (data || []) as SyncRun[];
+}
+
+export async function getRun(supabase: SupabaseClient, batchId: string): Promise<SyncRun | null> {
+  const { data, error } = await supabase
+    .from('sync_runs')
+    .select('*')
+    .eq('id', batchId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load sync run: ${error.message}`);
+  }
+  return data as SyncRun | null;
+}
@@ -0,0 +1,197 @@
+/**
+ * MIME Body Extraction
+ * Pulls a plain-text body out of Gmail message payloads and raw .eml files
+ */
+
+export interface MimeHeader {
+  name?: string | null;
+  value?: string | null;
+}
+
+// Structurally compatible with Gmail's Schema$MessagePart
+export interface MimePart {
+  mimeType?: string | null;
+  filename?: string | null;
+  headers?: MimeHeader[] | null;
+  body?: { data?: string | null } | null;
+  parts?: MimePart[] | null;
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  nbsp: ' ',
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  rupee: '₹',
+  copy: '©',
+  reg: '®',
+  ndash: '–',
+  mdash: '—',
+  hellip: '…',
+  rsquo: '’',
+  lsquo: '‘',
+  rdquo: '”',
+  ldquo: '“',
+};
+
+/**
+ * Find a header value (case-insensitive)
+ */
+export function getHeader(headers: MimeHeader[] | null | undefined, name: string): string {
+  return headers?.find(h => h.name?.toLowerCase() === name.toLowerCase())?.value || '';
+}
+
+/**
+ * Decode HTML entities: named, decimal (&#8377;) and hex (&#x20B9;)
+ */
+export function decodeHtmlEntities(text: string): string {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity: string) => {
+    if (entity[0] === '#') {
+      const code = entity[1].toLowerCase() === 'x'
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+      return isNaN(code) ? match : String.fromCodePoint(code);
+    }
+    return NAMED_ENTITIES[entity.toLowerCase()] ?? match;
+  });
+}
+
+/**
+ * Convert HTML to plain text. Table cells are flattened onto one line per row
+ * so "Amount | Rs. 500" style layouts read as a sentence.
+ */
+export function htmlToText(html: string): string {
+  const text = html
+    .replace(/<!--[\s\S]*?-->/g, '')
+    .replace(/<(head|style|script)[^>]*>[\s\S]*?<\/\1>/gi, '')
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<\/(p|div|tr|li|h[1-6]|table)>/gi, '\n')
+    .replace(/<\/(td|th)>/gi, ' ')
+    .replace(/<[^>]+>/g, '');
+
+  return decodeHtmlEntities(text)
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter(line => line.length > 0)
+    .join('\n');
+}
+
+function decodePartData(part: MimePart): string {
+  if (!part.body?.data) return '';
+
+  const charset = getHeader(part.headers, 'content-type').match(/charset="?([^";\s]+)"?/i)?.[1]?.toLowerCase();
+  const encoding: BufferEncoding = charset === 'iso-8859-1' || charset === 'latin1' ? 'latin1' : 'utf-8';
+
+  return Buffer.from(part.body.data, 'base64').toString(encoding);
+}
+
+function isAttachment(part: MimePart): boolean {
+  return !!part.filename || /^attachment/i.test(getHeader(part.headers, 'content-disposition'));
+}
+
+function collectTextParts(part: MimePart, plain: string[], html: string[]): void {
+  if (part.parts && part.parts.length > 0) {
+    for (const child of part.parts) {
+      collectTextParts(child, plain, html);
+    }
+    return;
+  }
+
+  if (isAttachment(part)) return;
+
+  const mimeType = (part.mimeType || 'text/plain').toLowerCase();
+  if (mimeType === 'text/plain') {
+    plain.push(decodePartData(part));
+  } else if (mimeType === 'text/html') {
+    html.push(decodePartData(part));
+  }
+}
+
+/**
+ * Walk the part tree and return the best plain-text body:
+ * the first non-empty text/plain part, falling back to converted HTML.
+ */
+export function extractBody(payload: MimePart | null | undefined): string {
+  if (!payload) return '';
+
+  const plain: string[] = [];
+  const html: string[] = [];
+  collectTextParts(payload, plain, html);
+
+  const text = plain.find(p => p.trim().length > 0);
+  if (text) return text;
+
+  const markup = html.find(h => h.trim().length > 0);
+  return markup ? htmlToText(markup) : '';
+}
+
+function decodeQuotedPrintable(input: string): Buffer {
+  const bytes: number[] = [];
+  const text = input.replace(/=\r?\n/g, '');
+
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '=' && /^[0-9A-F]{2}$/i.test(text.substr(i + 1, 2))) {
+      bytes.push(parseInt(text.substr(i + 1, 2), 16));
+      i += 2;
+    } else {
+      bytes.push(...Buffer.from(text[i], 'utf-8'));
+    }
+  }
+
+  return Buffer.from(bytes);
+}
+
+function parseHeaderBlock(block: string): MimeHeader[] {
+  return block
+    .replace(/\r?\n[ \t]+/g, ' ')
+    .split(/\r?\n/)
+    .filter(line => line.includes(':'))
+    .map(line => {
+      const index = line.indexOf(':');
+      return { name: line.slice(0, index).trim(), value: line.slice(index + 1).trim() };
+    });
+}
+
+/**
+ * Parse a raw RFC 822 message (e.g. a saved .eml file) into the same part
+ * tree Gmail returns for format: 'full', with body data base64 encoded.
+ */
+export function parseRawEmail(raw: string): MimePart {
+  const separator = raw.match(/\r?\n\r?\n/);
+  const headerBlock = separator ? raw.slice(0, separator.index) : raw;
+  const content = separator ? raw.slice(separator.index! + separator[0].length) : '';
+
+  const headers = parseHeaderBlock(headerBlock);
+  const contentType = getHeader(headers, 'content-type') || 'text/plain';
+  const mimeType = contentType.split(';')[0].trim().toLowerCase();
+  const filename = getHeader(headers, 'content-disposition').match(/filename="?([^";]+)"?/i)?.[1] || '';
+
+  if (mimeType.startsWith('multipart/')) {
+    const boundary = contentType.match(/boundary="?([^";]+)"?/i)?.[1];
+    if (!boundary) {
+      return { mimeType, headers, filename, parts: [] };
+    }
+
+    const parts = content
+      .split(`--${boundary}`)
+      .slice(1)
+      .filter(section => !section.startsWith('--'))
+      .map(section => parseRawEmail(section.replace(/^\r?\n/, '')));
+
+    return { mimeType, headers, filename, parts };
+  }
+
+  const transferEncoding = getHeader(headers, 'content-transfer-encoding').toLowerCase();
+  let data: Buffer;
+  if (transferEncoding === 'base64') {
+    data = Buffer.from(content.replace(/\s+/g, ''), 'base64');
+  } else if (transferEncoding === 'quoted-printable') {
+    data = decodeQuotedPrintable(content);
+  } else {
+    data = Buffer.from(content, 'utf-8');
+  }
+
+  return { mimeType, headers, filename, body: { data: data.toString('base64') } };
+}
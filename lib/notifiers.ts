@@ -0,0 +1,124 @@
+/**
+ * Alert Notifiers
+ * Delivery channels for user alerts. Configured from the environment:
+ * SMTP_* for email and ALERT_WEBHOOK_URL for a generic JSON webhook.
+ */
+
+import crypto from 'crypto';
+import nodemailer from 'nodemailer';
+import { logger } from './logger';
+
+export type NotificationType = 'budget.alert' | 'recurring.missed' | 'recurring.amount_changed' | 'auth.reauth_required';
+
+export interface Notification {
+  type: NotificationType;
+  userId: string;
+  email: string;
+  subject: string;
+  text: string;
+  data: Record<string, any>;
+}
+
+export interface Notifier {
+  name: string;
+  send(notification: Notification): Promise<void>;
+}
+
+/**
+ * Format a rupee amount for alert text: ₹4,200
+ */
+export function formatAmount(amount: number): string {
+  return `₹${amount.toLocaleString('en-IN', { maximumFractionDigits: 2 })}`;
+}
+
+/**
+ * Email the user at their Google address through an SMTP server
+ */
+export function createSmtpNotifier(options: {
+  host: string;
+  port: number;
+  user?: string;
+  pass?: string;
+  from: string;
+}): Notifier {
+  const transport = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.port === 465,
+    auth: options.user ? { user: options.user, pass: options.pass } : undefined,
+  });
+
+  return {
+    name: 'smtp',
+    async send(notification) {
+      await transport.sendMail({
+        from: options.from,
+        to: notification.email,
+        subject: notification.subject,
+        text: notification.text,
+      });
+    },
+  };
+}
+
+// A webhook that hangs would hold up the sync that sent the alert
+const WEBHOOK_TIMEOUT_MS = 10_000;
+
+/**
+ * POST the notification as JSON. With a secret, the body is signed in X-Signature (HMAC-SHA256, hex).
+ */
+export function createWebhookNotifier(url: string, secret?: string): Notifier {
+  return {
+    name: 'webhook',
+    async send(notification) {
+      const body = JSON.stringify(notification);
+      const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+      if (secret) {
+        headers['X-Signature'] = crypto.createHmac('sha256', secret).update(body).digest('hex');
+      }
+
+      const response = await fetch(url, { method: 'POST', headers, body, signal: AbortSignal.timeout(WEBHOOK_TIMEOUT_MS) });
+      if (!response.ok) {
+        throw new Error(`Webhook responded with ${response.status}`);
+      }
+    },
+  };
+}
+
+/**
+ * Build the notifiers configured in the environment (possibly none)
+ */
+export function createNotifiersFromEnv(env: NodeJS.ProcessEnv = process.env): Notifier[] {
+  const notifiers: Notifier[] = [];
+
+  if (env.SMTP_HOST) {
+    notifiers.push(createSmtpNotifier({
+      host: env.SMTP_HOST,
+      port: parseInt(env.SMTP_PORT || '587', 10),
+      user: env.SMTP_USER,
+      pass: env.SMTP_PASS,
+      from: env.ALERT_EMAIL_FROM || env.SMTP_USER || 'alerts@localhost',
+    }));
+  }
+  if (env.ALERT_WEBHOOK_URL) {
+    notifiers.push(createWebhookNotifier(env.ALERT_WEBHOOK_URL, env.ALERT_WEBHOOK_SECRET));
+  }
+
+  return notifiers;
+}
+
+/**
+ * Send a notification through every notifier. Returns true if at least one delivered it.
+ */
+export async function sendNotification(notifiers: Notifier[], notification: Notification): Promise<boolean> {
+  let delivered = false;
+  for (const notifier of notifiers) {
+    try {
+      await notifier.send(notification);
+      delivered = true;
+    } catch (error) {
+      logger.warn('Notifier failed', { notifier: notifier.name, error: (error as Error).message });
+    }
+  }
+  return delivered;
+}
@@ -0,0 +1,48 @@
+/**
+ * Parser fixture format shared by the test suite and scripts/create-parser-fixture.ts
+ */
+
+import { readFileSync, readdirSync, writeFileSync } from 'fs';
+import path from 'path';
+import type { ParsedTransaction } from './email-parser';
+
+export const HDFC_FIXTURE_DIR = path.join(__dirname, '..', 'tests', 'fixtures', 'hdfc');
+
+export interface ParserFixture {
+  description: string;
+  email: {
+    from: string;
+    subject: string;
+    body: string;
+    receivedDate: string;
+    emailId: string;
+  };
+  isTransaction: boolean;
+  // null means the parser must reject the email; omit to skip the parse check
+  expected?: ParsedTransaction | null;
+  expectedError?: string;
+  // Set by the fixture CLI until someone fills in the expected transaction
+  todo?: string;
+}
+
+/**
+ * Load every fixture in a directory, keyed by file name
+ */
+export function loadFixtures(dir: string = HDFC_FIXTURE_DIR): { name: string; fixture: ParserFixture }[] {
+  return readdirSync(dir)
+    .filter(file => file.endsWith('.json'))
+    .sort()
+    .map(file => ({
+      name: path.basename(file, '.json'),
+      fixture: JSON.parse(readFileSync(path.join(dir, file), 'utf-8')) as ParserFixture,
+    }));
+}
+
+/**
+ * Write a fixture as pretty-printed JSON and return its path
+ */
+export function writeFixture(name: string, fixture: ParserFixture, dir: string = HDFC_FIXTURE_DIR): string {
+  const filePath = path.join(dir, `${name}.json`);
+  writeFileSync(filePath, JSON.stringify(fixture, null, 2) + '\n');
+  return filePath;
+}
@@ -0,0 +1,78 @@
+/**
+ * Rate Limiting
+ * Token buckets held in memory by the API server. Each bucket starts full,
+ * every request takes one token, and tokens refill at a steady rate.
+ */
+
+export interface RateLimit {
+  capacity: number;
+  refillPerMinute: number;
+}
+
+export const RATE_LIMITS = {
+  default: { capacity: 120, refillPerMinute: 60 },
+  // Routes that read Gmail: a few at once, then one every 5 minutes (the cron interval)
+  sync: { capacity: 3, refillPerMinute: 0.2 },
+} satisfies Record<string, RateLimit>;
+
+export interface RateLimitResult {
+  allowed: boolean;
+  remaining: number;
+  // How long until the next token, when not allowed
+  retryAfterMs: number;
+}
+
+interface Bucket {
+  tokens: number;
+  updatedAt: number;
+  limit: RateLimit;
+}
+
+function refill(bucket: Bucket, now: number): number {
+  const elapsedMinutes = Math.max(0, now - bucket.updatedAt) / 60000;
+  return Math.min(bucket.limit.capacity, bucket.tokens + elapsedMinutes * bucket.limit.refillPerMinute);
+}
+
+/**
+ * Create a set of buckets keyed by caller and route. Full buckets are dropped
+ * once there are more than maxBuckets, since a missing bucket starts full anyway.
+ */
+export function createRateLimiter(maxBuckets = 10000) {
+  const buckets = new Map<string, Bucket>();
+
+  const prune = (now: number) => {
+    for (const [key, bucket] of buckets) {
+      if (refill(bucket, now) >= bucket.limit.capacity) buckets.delete(key);
+    }
+    // Still too many active callers: forget the least recently used
+    while (buckets.size > maxBuckets) {
+      buckets.delete(buckets.keys().next().value!);
+    }
+  };
+
+  return {
+    take(key: string, limit: RateLimit, now: number = Date.now()): RateLimitResult {
+      const existing = buckets.get(key);
+      const bucket: Bucket = existing
+        ? { tokens: refill(existing, now), updatedAt: now, limit }
+        : { tokens: limit.capacity, updatedAt: now, limit };
+
+      const allowed = bucket.tokens >= 1;
+      if (allowed) bucket.tokens -= 1;
+
+      buckets.delete(key);
+      buckets.set(key, bucket);
+      if (buckets.size > maxBuckets) prune(now);
+
+      return {
+        allowed,
+        remaining: Math.floor(bucket.tokens),
+        retryAfterMs: allowed ? 0 : Math.ceil(((1 - bucket.tokens) / limit.refillPerMinute) * 60000),
+      };
+    },
+
+    size(): number {
+      return buckets.size;
+    },
+  };
+}
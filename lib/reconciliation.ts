@@ -0,0 +1,332 @@
+/**
+ * Duplicate Reconciliation
+ * Reference numbers only catch exact repeats. The same spend can also arrive
+ * as a card alert and a UPI alert, under an EMAIL_ fallback reference, or as a
+ * manual entry followed by the bank email. These are matched on amount,
+ * account, time and counterparty and given a confidence score.
+ */
+
+import type { ParsedTransaction } from './email-parser';
+import { extractVpa } from './categorizer';
+import { isManualReference } from './manual-transactions';
+import { parseTransactionDateTime, toDayKey } from './transaction-dates';
+import { bodyErrors, checkBody, type BodySchema } from './request-schema';
+
+export type DuplicateStatus = 'pending' | 'merged' | 'dismissed';
+
+export interface DuplicateMatch {
+  transaction: ParsedTransaction;
+  matched: ParsedTransaction;
+  score: number;
+  reasons: string[];
+}
+
+export interface DuplicateCandidate {
+  id: string;
+  user_id: string;
+  reference_number: string;
+  matched_reference_number: string;
+  score: number;
+  reasons: string[];
+  status: DuplicateStatus;
+  // Which side was taken out of the store when merged
+  removed_reference_number: string | null;
+  transaction: ParsedTransaction;
+  matched_transaction: ParsedTransaction;
+  created_at: string;
+  resolved_at: string | null;
+}
+
+export type DuplicateAction = 'merge' | 'dismiss' | 'restore';
+
+export interface StatementReconciliation {
+  period: { from: string | null; to: string | null };
+  matchedByReference: number;
+  // Stored under a different reference (usually EMAIL_*), matched on date and amount
+  matchedByAmount: { statement: ParsedTransaction; stored: ParsedTransaction }[];
+  // Only in the statement - the alerts that never arrived
+  missing: ParsedTransaction[];
+  // Stored for this account and period but not in the statement
+  notInStatement: ParsedTransaction[];
+}
+
+export interface ReconcileOptions {
+  // How far apart two alerts for the same spend can be
+  windowMinutes: number;
+  // Minimum score to record a pair for review
+  flagThreshold: number;
+  // Minimum score to drop the new transaction without review
+  mergeThreshold: number;
+  // Alerts further apart than this are only flagged, however high they score
+  mergeWindowMinutes: number;
+}
+
+export const DEFAULT_RECONCILE_OPTIONS: ReconcileOptions = {
+  windowMinutes: 24 * 60,
+  flagThreshold: 0.7,
+  mergeThreshold: 0.9,
+  mergeWindowMinutes: 15,
+};
+
+const GENERIC_DESCRIPTIONS = new Set(['', 'manual entry', 'unknown', 'n/a']);
+
+/**
+ * Whether a reference was made up by us rather than issued by the bank
+ */
+export function isSyntheticReference(referenceNumber: string): boolean {
+  return /^(EMAIL|STMT)_/.test(referenceNumber) || isManualReference(referenceNumber);
+}
+
+/**
+ * Where a transaction was reported from. One spend can be reported once per
+ * channel, so two reports from the same channel are two spends.
+ */
+export function transactionChannel(transaction: ParsedTransaction): string {
+  if (isManualReference(transaction.referenceNumber)) return 'manual';
+  if (transaction.referenceNumber.startsWith('STMT_')) return 'statement';
+  if (/card/i.test(transaction.method)) return 'card';
+  if (/upi/i.test(transaction.method)) return 'upi';
+  return transaction.method.toLowerCase() || 'other';
+}
+
+function minutesBetween(a: ParsedTransaction, b: ParsedTransaction): number {
+  const dateA = parseTransactionDateTime(a.dateTime);
+  const dateB = parseTransactionDateTime(b.dateTime);
+  return dateA && dateB ? Math.abs(dateA.getTime() - dateB.getTime()) / 60000 : Infinity;
+}
+
+/**
+ * Whether a high-scoring pair is safe to merge without review: one side has a
+ * made-up reference (two bank-issued references always mean two transactions),
+ * the reports come from different channels, and they are minutes apart.
+ * Repeat spends at the same merchant score just as high, so anything else is flagged.
+ */
+export function isAutoMergeable(match: DuplicateMatch, options: ReconcileOptions = DEFAULT_RECONCILE_OPTIONS): boolean {
+  return match.score >= options.mergeThreshold &&
+    (isSyntheticReference(match.transaction.referenceNumber) || isSyntheticReference(match.matched.referenceNumber)) &&
+    transactionChannel(match.transaction) !== transactionChannel(match.matched) &&
+    minutesBetween(match.transaction, match.matched) <= options.mergeWindowMinutes;
+}
+
+function descriptionTokens(description: string): Set<string> {
+  return new Set(description.toLowerCase().split(/[^a-z]+/).filter(token => token.length > 2));
+}
+
+/**
+ * 0-1 similarity of two counterparties, or null when either side says nothing useful
+ */
+function counterpartySimilarity(a: ParsedTransaction, b: ParsedTransaction): number | null {
+  if (GENERIC_DESCRIPTIONS.has(a.description.trim().toLowerCase()) ||
+      GENERIC_DESCRIPTIONS.has(b.description.trim().toLowerCase())) {
+    return null;
+  }
+
+  const vpaA = extractVpa(a.description);
+  const vpaB = extractVpa(b.description);
+  if (vpaA && vpaB) return vpaA === vpaB ? 1 : 0;
+
+  const tokensA = descriptionTokens(a.description);
+  const tokensB = descriptionTokens(b.description);
+  if (tokensA.size === 0 || tokensB.size === 0) return null;
+
+  const shared = [...tokensA].filter(token => tokensB.has(token)).length;
+  return shared / Math.min(tokensA.size, tokensB.size);
+}
+
+/**
+ * Score how likely two transactions are the same spend. Returns null when they
+ * cannot be (different amount or direction, or too far apart).
+ */
+export function scoreDuplicate(
+  a: ParsedTransaction,
+  b: ParsedTransaction,
+  options: ReconcileOptions = DEFAULT_RECONCILE_OPTIONS
+): { score: number; reasons: string[] } | null {
+  if (a.referenceNumber === b.referenceNumber) return null;
+  if (a.type !== b.type || Math.abs(a.amount - b.amount) >= 0.01) return null;
+
+  const dateA = parseTransactionDateTime(a.dateTime);
+  const dateB = parseTransactionDateTime(b.dateTime);
+  if (!dateA || !dateB) return null;
+
+  const minutesApart = Math.abs(dateA.getTime() - dateB.getTime()) / 60000;
+  if (minutesApart > options.windowMinutes) return null;
+
+  const reasons = ['same amount and type'];
+  let score = 0.4;
+
+  score += 0.3 * (1 - minutesApart / options.windowMinutes);
+  reasons.push(minutesApart < 1 ? 'same time' : `${Math.round(minutesApart)} min apart`);
+
+  if (a.account && b.account) {
+    if (a.account === b.account) {
+      score += 0.15;
+      reasons.push('same account');
+    } else {
+      reasons.push('different account');
+    }
+  } else {
+    score += 0.075;
+  }
+
+  const similarity = counterpartySimilarity(a, b);
+  if (similarity === null) {
+    score += 0.075;
+  } else {
+    score += 0.15 * similarity;
+    if (similarity >= 0.5) reasons.push('same counterparty');
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * Compare incoming transactions with stored ones (and with each other).
+ * Exact reference repeats are left to the store. Matches that pass
+ * isAutoMergeable are merged; other matches at or above flagThreshold are
+ * flagged for review.
+ */
+export function reconcileTransactions(
+  incoming: ParsedTransaction[],
+  existing: ParsedTransaction[],
+  overrides: Partial<ReconcileOptions> = {}
+): { keep: ParsedTransaction[]; merged: DuplicateMatch[]; flagged: DuplicateMatch[] } {
+  const options = { ...DEFAULT_RECONCILE_OPTIONS, ...overrides };
+  const knownRefs = new Set(existing.map(transaction => transaction.referenceNumber));
+  const compared = [...existing];
+
+  const keep: ParsedTransaction[] = [];
+  const merged: DuplicateMatch[] = [];
+  const flagged: DuplicateMatch[] = [];
+
+  for (const transaction of incoming) {
+    if (knownRefs.has(transaction.referenceNumber)) {
+      keep.push(transaction);
+      continue;
+    }
+
+    let best: DuplicateMatch | null = null;
+    for (const candidate of compared) {
+      const result = scoreDuplicate(transaction, candidate, options);
+      if (result && (!best || result.score > best.score)) {
+        best = { transaction, matched: candidate, ...result };
+      }
+    }
+
+    if (best && isAutoMergeable(best, options)) {
+      merged.push(best);
+      continue;
+    }
+    if (best && best.score >= options.flagThreshold) {
+      flagged.push(best);
+    }
+
+    keep.push(transaction);
+    compared.push(transaction);
+    knownRefs.add(transaction.referenceNumber);
+  }
+
+  return { keep, merged, flagged };
+}
+
+export const RESOLUTION_SCHEMA: BodySchema = {
+  action: { type: 'string', values: ['merge', 'dismiss', 'restore'] },
+  keep: { type: 'string', optional: true, pattern: /\S/, format: 'a reference number' },
+};
+
+/**
+ * Validate a resolve request body: merge (optionally naming the reference to keep),
+ * dismiss (keep both) or restore (undo a merge)
+ */
+export function validateResolution(body: any): { action?: DuplicateAction; keep?: string; error?: string; details?: string[] } {
+  const problems = checkBody(RESOLUTION_SCHEMA, body);
+  if (problems.length > 0) {
+    return bodyErrors(problems);
+  }
+  if (body.keep !== undefined && body.keep !== null && body.action !== 'merge') {
+    return bodyErrors(['keep is only allowed with merge']);
+  }
+  return { action: body.action, keep: body.keep ?? undefined };
+}
+
+/**
+ * Match statement rows with stored transactions: first by reference number,
+ * then by type, amount and date (within dayTolerance days, for value-date
+ * shifts). Each stored transaction matches at most one row.
+ */
+export function reconcileStatement(
+  statement: ParsedTransaction[],
+  stored: ParsedTransaction[],
+  dayTolerance = 1
+): StatementReconciliation {
+  const dayMs = 24 * 60 * 60 * 1000;
+  const dayOf = (transaction: ParsedTransaction) => {
+    const date = parseTransactionDateTime(transaction.dateTime);
+    return date ? new Date(date.getFullYear(), date.getMonth(), date.getDate()).getTime() : null;
+  };
+
+  const statementDays = statement.map(dayOf).filter((day): day is number => day !== null);
+  const from = statementDays.length > 0 ? Math.min(...statementDays) : null;
+  const to = statementDays.length > 0 ? Math.max(...statementDays) : null;
+  const account = statement.find(t => t.account)?.account || '';
+
+  const sameAccount = (transaction: ParsedTransaction) =>
+    !account || !transaction.account || transaction.account === account;
+
+  const unmatched = new Set(stored.filter(sameAccount));
+  const byReference = new Map(stored.map(transaction => [transaction.referenceNumber, transaction]));
+
+  const result: StatementReconciliation = {
+    period: {
+      from: from !== null ? toDayKey(new Date(from)) : null,
+      to: to !== null ? toDayKey(new Date(to)) : null,
+    },
+    matchedByReference: 0,
+    matchedByAmount: [],
+    missing: [],
+    notInStatement: [],
+  };
+
+  const pendingRows: ParsedTransaction[] = [];
+  for (const row of statement) {
+    const match = byReference.get(row.referenceNumber);
+    if (match) {
+      unmatched.delete(match);
+      result.matchedByReference++;
+    } else {
+      pendingRows.push(row);
+    }
+  }
+
+  for (const row of pendingRows) {
+    const rowDay = dayOf(row);
+    let best: { stored: ParsedTransaction; gap: number } | null = null;
+
+    for (const candidate of unmatched) {
+      const candidateDay = dayOf(candidate);
+      if (rowDay === null || candidateDay === null) continue;
+      if (candidate.type !== row.type || Math.abs(candidate.amount - row.amount) >= 0.01) continue;
+
+      const gap = Math.abs(candidateDay - rowDay) / dayMs;
+      if (gap <= dayTolerance && (!best || gap < best.gap)) {
+        best = { stored: candidate, gap };
+      }
+    }
+
+    if (best) {
+      unmatched.delete(best.stored);
+      result.matchedByAmount.push({ statement: row, stored: best.stored });
+    } else {
+      result.missing.push(row);
+    }
+  }
+
+  if (from !== null && to !== null) {
+    result.notInStatement = [...unmatched].filter(transaction => {
+      const day = dayOf(transaction);
+      return day !== null && day >= from && day <= to;
+    });
+  }
+
+  return result;
+}
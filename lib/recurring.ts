@@ -0,0 +1,281 @@
+/**
+ * Recurring Payment Detection
+ * Groups salary credits, rent transfers, SIPs and subscriptions into series
+ * by counterparty, amount and cadence, and predicts the next occurrence
+ */
+
+import type { ParsedTransaction } from './email-parser';
+import { extractVpa } from './categorizer';
+import { parseTransactionDateTime, toDayKey } from './transaction-dates';
+import { formatAmount, type Notification } from './notifiers';
+
+export type Cadence = 'weekly' | 'monthly' | 'quarterly' | 'yearly';
+
+export interface AmountChange {
+  date: string;
+  from: number;
+  to: number;
+  referenceNumber: string;
+}
+
+export interface RecurringGroup {
+  group_key: string;
+  counterparty: string;
+  type: 'Credit' | 'Debit';
+  cadence: Cadence;
+  category: string;
+  occurrences: number;
+  average_amount: number;
+  last_amount: number;
+  first_date: string;
+  last_date: string;
+  next_expected_date: string;
+  next_expected_amount: number;
+  reference_numbers: string[];
+  // Set when the latest occurrence broke from the previous amount
+  last_change: AmountChange | null;
+}
+
+export interface RecurringOptions {
+  // Fractional difference still treated as the same amount
+  amountTolerance: number;
+  minOccurrences: number;
+}
+
+export const DEFAULT_RECURRING_OPTIONS: RecurringOptions = {
+  amountTolerance: 0.1,
+  minOccurrences: 3,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Typical gap between occurrences, and how far either side still counts
+const CADENCES: { cadence: Cadence; days: number; window: number }[] = [
+  { cadence: 'weekly', days: 7, window: 2 },
+  { cadence: 'monthly', days: 30, window: 5 },
+  { cadence: 'quarterly', days: 91, window: 10 },
+  { cadence: 'yearly', days: 365, window: 15 },
+];
+
+/**
+ * Days after the expected date before an occurrence counts as missed
+ */
+export function graceDays(cadence: Cadence): number {
+  return CADENCES.find(c => c.cadence === cadence)!.window;
+}
+
+/**
+ * Who a transaction is with: the UPI VPA when present, otherwise the
+ * normalised description (card merchant, NEFT remitter, ...)
+ */
+export function counterpartyOf(transaction: ParsedTransaction): string {
+  return extractVpa(transaction.description) ||
+    transaction.description.toLowerCase().replace(/\d+/g, '').replace(/\s+/g, ' ').trim();
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function withinTolerance(expected: number, actual: number, tolerance: number): boolean {
+  return Math.abs(actual - expected) <= expected * tolerance;
+}
+
+/**
+ * Match the gaps between occurrences to a cadence. At least two thirds of the
+ * gaps must fall inside the cadence window.
+ */
+function detectCadence(dates: Date[]): { cadence: Cadence; days: number } | null {
+  if (dates.length < 2) return null;
+
+  const gaps = dates.slice(1).map((date, i) => (date.getTime() - dates[i].getTime()) / DAY_MS);
+  const typical = median(gaps);
+  const match = CADENCES.find(c => Math.abs(typical - c.days) <= c.window);
+  if (!match) return null;
+
+  const regular = gaps.filter(gap => Math.abs(gap - match.days) <= match.window).length;
+  return regular * 3 >= gaps.length * 2 ? { cadence: match.cadence, days: Math.round(typical) } : null;
+}
+
+function addCadence(date: Date, cadence: Cadence, days: number): Date {
+  const next = new Date(date);
+  if (cadence === 'monthly') next.setMonth(next.getMonth() + 1);
+  else if (cadence === 'quarterly') next.setMonth(next.getMonth() + 3);
+  else if (cadence === 'yearly') next.setFullYear(next.getFullYear() + 1);
+  else next.setDate(next.getDate() + days);
+  return next;
+}
+
+interface Series {
+  counterparty: string;
+  type: 'Credit' | 'Debit';
+  items: { transaction: ParsedTransaction; date: Date }[];
+  changes: AmountChange[];
+}
+
+/**
+ * Find recurring series in a user's history. Transactions are walked in date
+ * order; each joins the series with the same counterparty whose latest amount
+ * is within tolerance. A payment with a different amount still joins a series
+ * when it lands on the series' expected date, and is recorded as an amount change.
+ */
+export function detectRecurring(
+  transactions: ParsedTransaction[],
+  overrides: Partial<RecurringOptions> = {}
+): RecurringGroup[] {
+  const options = { ...DEFAULT_RECURRING_OPTIONS, ...overrides };
+
+  const dated = transactions
+    .map(transaction => ({ transaction, date: parseTransactionDateTime(transaction.dateTime) }))
+    .filter((entry): entry is { transaction: ParsedTransaction; date: Date } => !!entry.date)
+    .sort((a, b) => a.date.getTime() - b.date.getTime());
+
+  const series: Series[] = [];
+
+  for (const entry of dated) {
+    const counterparty = counterpartyOf(entry.transaction);
+    if (!counterparty) continue;
+
+    const candidates = series.filter(s => s.counterparty === counterparty && s.type === entry.transaction.type);
+    const lastAmount = (s: Series) => s.items[s.items.length - 1].transaction.amount;
+
+    let match = candidates.find(s => withinTolerance(lastAmount(s), entry.transaction.amount, options.amountTolerance));
+
+    if (!match) {
+      match = candidates.find(s => {
+        const cadence = detectCadence(s.items.map(item => item.date));
+        if (!cadence || s.items.length < options.minOccurrences - 1) return false;
+
+        const expected = addCadence(s.items[s.items.length - 1].date, cadence.cadence, cadence.days);
+        return Math.abs(entry.date.getTime() - expected.getTime()) <= graceDays(cadence.cadence) * DAY_MS;
+      });
+
+      match?.changes.push({
+        date: toDayKey(entry.date),
+        from: lastAmount(match),
+        to: entry.transaction.amount,
+        referenceNumber: entry.transaction.referenceNumber,
+      });
+    }
+
+    if (match) {
+      match.items.push(entry);
+    } else {
+      series.push({ counterparty, type: entry.transaction.type, items: [entry], changes: [] });
+    }
+  }
+
+  const groups: RecurringGroup[] = [];
+
+  for (const s of series) {
+    if (s.items.length < options.minOccurrences) continue;
+
+    const cadence = detectCadence(s.items.map(item => item.date));
+    if (!cadence) continue;
+
+    const first = s.items[0];
+    const last = s.items[s.items.length - 1];
+    const amounts = s.items.map(item => item.transaction.amount);
+    const latestChange = s.changes[s.changes.length - 1];
+    const category = [...s.items].reverse().find(item => item.transaction.category)?.transaction.category || '';
+
+    groups.push({
+      group_key: `${s.type}:${s.counterparty}:${cadence.cadence}`,
+      counterparty: s.counterparty,
+      type: s.type,
+      cadence: cadence.cadence,
+      category,
+      occurrences: s.items.length,
+      average_amount: Math.round((amounts.reduce((sum, a) => sum + a, 0) / amounts.length) * 100) / 100,
+      last_amount: last.transaction.amount,
+      first_date: toDayKey(first.date),
+      last_date: toDayKey(last.date),
+      next_expected_date: toDayKey(addCadence(last.date, cadence.cadence, cadence.days)),
+      next_expected_amount: last.transaction.amount,
+      reference_numbers: s.items.map(item => item.transaction.referenceNumber),
+      last_change: latestChange?.referenceNumber === last.transaction.referenceNumber ? latestChange : null,
+    });
+  }
+
+  // Keys must not depend on the first occurrence, which changes when older history is
+  // imported. Series sharing a key (rent and maintenance to one VPA) are told apart by
+  // amount: the largest keeps the plain key and the rest are numbered.
+  const byKey = new Map<string, RecurringGroup[]>();
+  for (const group of groups) {
+    byKey.set(group.group_key, [...(byKey.get(group.group_key) || []), group]);
+  }
+  for (const shared of byKey.values()) {
+    shared
+      .sort((a, b) => b.average_amount - a.average_amount)
+      .forEach((group, index) => {
+        if (index > 0) group.group_key = `${group.group_key}:${index + 1}`;
+      });
+  }
+
+  return groups;
+}
+
+/**
+ * Debit groups whose expected date plus the grace period has passed. Groups
+ * overdue by more than a full cycle are treated as ended and not reported.
+ */
+export function findMissedPayments(groups: RecurringGroup[], now: Date = new Date()): RecurringGroup[] {
+  const today = toDayKey(now);
+  return groups.filter(group => {
+    if (group.type !== 'Debit') return false;
+
+    const [year, month, day] = group.next_expected_date.split('-').map(n => parseInt(n, 10));
+    const { days, window } = CADENCES.find(c => c.cadence === group.cadence)!;
+    const deadline = toDayKey(new Date(year, month - 1, day + window));
+    const ended = toDayKey(new Date(year, month - 1, day + days));
+    return deadline < today && today <= ended;
+  });
+}
+
+/**
+ * Debit groups whose latest payment was more than the tolerance above the previous one
+ */
+export function findAmountJumps(
+  groups: RecurringGroup[],
+  tolerance: number = DEFAULT_RECURRING_OPTIONS.amountTolerance
+): RecurringGroup[] {
+  return groups.filter(group =>
+    group.type === 'Debit' && group.last_change && group.last_change.to > group.last_change.from * (1 + tolerance)
+  );
+}
+
+/**
+ * Build the notification for a missed payment or an amount jump
+ */
+export function buildRecurringNotification(
+  kind: 'missed' | 'amount_changed',
+  group: RecurringGroup,
+  user: { id: string; google_email: string }
+): Notification {
+  const name = group.category ? `${group.category} (${group.counterparty})` : group.counterparty;
+
+  if (kind === 'missed') {
+    return {
+      type: 'recurring.missed',
+      userId: user.id,
+      email: user.google_email,
+      subject: `Expected ${group.cadence} payment to ${name} has not arrived`,
+      text: `A ${group.cadence} payment of about ${formatAmount(group.next_expected_amount)} to ${name} ` +
+        `was expected on ${group.next_expected_date} and has not been seen. The last one was on ${group.last_date}.`,
+      data: group,
+    };
+  }
+
+  const change = group.last_change!;
+  return {
+    type: 'recurring.amount_changed',
+    userId: user.id,
+    email: user.google_email,
+    subject: `${name} went up from ${formatAmount(change.from)} to ${formatAmount(change.to)}`,
+    text: `Your ${group.cadence} payment to ${name} on ${change.date} was ${formatAmount(change.to)}, ` +
+      `up from ${formatAmount(change.from)}.`,
+    data: group,
+  };
+}
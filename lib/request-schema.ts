@@ -0,0 +1,82 @@
+/**
+ * Request Body Schemas
+ * Declarative checks for the shape of JSON bodies. Rules across fields (known
+ * bank ids, from before to) stay in the routes and lib validators; this only
+ * checks types and formats.
+ */
+
+export type FieldRule =
+  | { type: 'string'; optional?: boolean; maxLength?: number; pattern?: RegExp; format?: string; values?: readonly string[] }
+  | { type: 'number' | 'integer'; optional?: boolean; min?: number; max?: number }
+  | { type: 'boolean'; optional?: boolean }
+  | { type: 'date'; optional?: boolean }
+  | { type: 'array'; optional?: boolean; items: FieldRule; minItems?: number; maxItems?: number };
+
+export type BodySchema = Record<string, FieldRule>;
+
+function checkField(path: string, rule: FieldRule, value: unknown): string[] {
+  switch (rule.type) {
+    case 'string':
+      if (typeof value !== 'string') return [`${path} must be a string`];
+      if (rule.maxLength !== undefined && value.length > rule.maxLength) {
+        return [`${path} must be at most ${rule.maxLength} characters`];
+      }
+      if (rule.values && !rule.values.includes(value)) return [`${path} must be one of: ${rule.values.join(', ')}`];
+      if (rule.pattern && !rule.pattern.test(value)) return [`${path} must be ${rule.format || 'in the expected format'}`];
+      return [];
+
+    case 'number':
+    case 'integer': {
+      const valid = typeof value === 'number' && (rule.type === 'integer' ? Number.isInteger(value) : Number.isFinite(value));
+      if (!valid) return [`${path} must be ${rule.type === 'integer' ? 'an integer' : 'a number'}`];
+      if (rule.min !== undefined && value < rule.min) return [`${path} must be at least ${rule.min}`];
+      if (rule.max !== undefined && value > rule.max) return [`${path} must be at most ${rule.max}`];
+      return [];
+    }
+
+    case 'boolean':
+      return typeof value === 'boolean' ? [] : [`${path} must be true or false`];
+
+    case 'date':
+      return typeof value === 'string' && !isNaN(new Date(value).getTime()) ? [] : [`${path} must be a date`];
+
+    case 'array': {
+      if (!Array.isArray(value)) return [`${path} must be an array`];
+      if (rule.minItems !== undefined && value.length < rule.minItems) {
+        return [`${path} must have at least ${rule.minItems} item${rule.minItems === 1 ? '' : 's'}`];
+      }
+      if (rule.maxItems !== undefined && value.length > rule.maxItems) {
+        return [`${path} must have at most ${rule.maxItems} items`];
+      }
+      return value.flatMap((item, index) => checkField(`${path}[${index}]`, rule.items, item));
+    }
+  }
+}
+
+/**
+ * Every problem with a body, as messages naming the field. Empty when valid.
+ * Fields the schema does not mention are ignored.
+ */
+export function checkBody(schema: BodySchema, body: unknown): string[] {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return ['Request body must be a JSON object'];
+  }
+
+  const errors: string[] = [];
+  for (const [field, rule] of Object.entries(schema)) {
+    const value = (body as Record<string, unknown>)[field];
+    if (value === undefined || value === null) {
+      if (!rule.optional) errors.push(`${field} is required`);
+      continue;
+    }
+    errors.push(...checkField(field, rule, value));
+  }
+  return errors;
+}
+
+/**
+ * How a validator reports a bad body: the first problem, and all of them as details
+ */
+export function bodyErrors(problems: string[]): { error: string; details: string[] } {
+  return { error: problems[0], details: problems };
+}
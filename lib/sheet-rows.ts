@@ -0,0 +1,55 @@
+/**
+ * Transactions Sheet Row Mapping
+ * Converts between ParsedTransaction and the A:L column layout
+ */
+
+import type { ParsedTransaction } from './email-parser';
+
+// Column order of the Transactions sheet (A through L)
+export const TRANSACTION_COLUMNS: (keyof ParsedTransaction)[] = [
+  'dateTime',
+  'amount',
+  'type',
+  'method',
+  'account',
+  'description',
+  'referenceNumber',
+  'availableBalance',
+  'category',
+  'notes',
+  'emailReceivedDate',
+  'transferId',
+];
+
+/**
+ * Convert a transaction into a sheet row
+ */
+export function transactionToRow(transaction: ParsedTransaction): (string | number)[] {
+  return TRANSACTION_COLUMNS.map(column => transaction[column] ?? '');
+}
+
+/**
+ * Convert a sheet row back into a transaction. Numbers formatted by Sheets
+ * (e.g. "1,299.00") are parsed; empty cells become empty strings.
+ */
+export function rowToTransaction(row: any[]): ParsedTransaction {
+  const cell = (index: number): string => (row[index] === undefined || row[index] === null ? '' : String(row[index]));
+  const toNumber = (value: string): number => parseFloat(value.replace(/[₹,\s]/g, ''));
+
+  const balance = toNumber(cell(7));
+
+  return {
+    dateTime: cell(0),
+    amount: toNumber(cell(1)) || 0,
+    type: cell(2) === 'Credit' ? 'Credit' : 'Debit',
+    method: cell(3),
+    account: cell(4),
+    description: cell(5),
+    referenceNumber: cell(6),
+    availableBalance: isNaN(balance) ? cell(7) || 'N/A' : balance,
+    category: cell(8),
+    notes: cell(9),
+    emailReceivedDate: cell(10),
+    ...(cell(11) ? { transferId: cell(11) } : {}),
+  };
+}
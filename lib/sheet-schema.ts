@@ -0,0 +1,293 @@
+/**
+ * Transactions Sheet Schema
+ * The layout of a user's spreadsheet is versioned. The version is kept in
+ * Metadata!B3, and each migration brings an older sheet up to date. Columns are
+ * added by inserting them, so anything the user put to the right moves over instead
+ * of being overwritten. Headers are checked before a store touches the sheet (the first
+ * rows, for a sheet that predates versioning), so a renamed tab or inserted column
+ * stops the sync instead of corrupting rows.
+ */
+
+import type { ParsedTransaction } from './email-parser';
+import type { SheetsClient } from './google-auth';
+import { TRANSACTION_COLUMNS } from './sheet-rows';
+import { logger } from './logger';
+
+export const TRANSACTIONS_TAB = 'Transactions';
+export const METADATA_TAB = 'Metadata';
+
+export const COLUMN_HEADERS: Record<(typeof TRANSACTION_COLUMNS)[number], string> = {
+  dateTime: 'Date & Time',
+  amount: 'Amount',
+  type: 'Type',
+  method: 'Method',
+  account: 'Account',
+  description: 'Description',
+  referenceNumber: 'Reference Number',
+  availableBalance: 'Available Balance',
+  category: 'Category',
+  notes: 'Notes',
+  emailReceivedDate: 'Email Received',
+  transferId: 'Transfer ID',
+};
+
+export interface SheetMigration {
+  version: number;
+  description: string;
+  // Inserted at their position in TRANSACTION_COLUMNS, which must end with them
+  addColumns?: (keyof ParsedTransaction)[];
+}
+
+/**
+ * Every schema version, oldest first. Version 0 is a sheet written before
+ * versioning, with the columns at A:K in order but headers of any name.
+ */
+export const SHEET_MIGRATIONS: SheetMigration[] = [
+  { version: 1, description: 'Name the transaction columns' },
+  { version: 2, description: 'Add the Transfer ID column', addColumns: ['transferId'] },
+];
+
+export const SHEET_SCHEMA_VERSION = SHEET_MIGRATIONS[SHEET_MIGRATIONS.length - 1].version;
+
+/**
+ * The transaction columns a sheet at this version has, in order
+ */
+export function columnsAt(version: number): (keyof ParsedTransaction)[] {
+  const added = new Set(
+    SHEET_MIGRATIONS.filter(migration => migration.version > version).flatMap(migration => migration.addColumns || [])
+  );
+  return TRANSACTION_COLUMNS.filter(column => !added.has(column));
+}
+
+/**
+ * Column letter for a 0-based index: 0 is A, 26 is AA
+ */
+export function columnLetter(index: number): string {
+  let letter = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    letter = String.fromCharCode(65 + ((n - 1) % 26)) + letter;
+  }
+  return letter;
+}
+
+function sameHeader(actual: unknown, expected: string): boolean {
+  return String(actual ?? '').trim().toLowerCase() === expected.toLowerCase();
+}
+
+/**
+ * What is wrong with a header row for a schema version. Empty when it matches;
+ * columns after the schema's belong to the user and are not checked.
+ */
+export function checkSheetHeader(header: unknown[], version: number): string[] {
+  return columnsAt(version).flatMap((column, index) => {
+    const expected = COLUMN_HEADERS[column];
+    if (sameHeader(header[index], expected)) return [];
+
+    const actual = String(header[index] ?? '').trim();
+    return [`Column ${columnLetter(index)} should be "${expected}" but is ${actual ? `"${actual}"` : 'empty'}`];
+  });
+}
+
+// Rows of an unversioned sheet sampled before it is adopted
+const UNVERSIONED_SAMPLE_ROWS = 20;
+
+/**
+ * What is wrong with the first data rows of an unversioned sheet. Its headers can be
+ * anything, so the rows are checked instead: an amount in B, Credit or Debit in C and
+ * a reference number in G. An inserted or moved column breaks at least one of them.
+ */
+export function checkUnversionedRows(rows: unknown[][]): string[] {
+  const problems: string[] = [];
+
+  rows.forEach((row, index) => {
+    const cell = (column: number) => String(row[column] ?? '').trim();
+    if (row.every(value => String(value ?? '').trim() === '')) return;
+
+    const rowNumber = index + 2;
+    const amount = cell(1).replace(/[₹,\s]/g, '');
+    if (!amount || isNaN(Number(amount))) {
+      problems.push(`Row ${rowNumber}: column B should be an amount but is ${cell(1) ? `"${cell(1)}"` : 'empty'}`);
+    }
+    if (cell(2) !== 'Credit' && cell(2) !== 'Debit') {
+      problems.push(`Row ${rowNumber}: column C should be Credit or Debit but is ${cell(2) ? `"${cell(2)}"` : 'empty'}`);
+    }
+    if (!cell(6)) {
+      problems.push(`Row ${rowNumber}: column G should be a reference number but is empty`);
+    }
+  });
+
+  return problems;
+}
+
+/**
+ * The columns to insert to bring a header row from one version to the current one.
+ * A new column goes in where its header already is (an earlier attempt) or into an
+ * empty column; otherwise a column is inserted so the user's column moves right.
+ */
+export function planSheetMigration(fromVersion: number, header: unknown[]): { insertColumns: number[] } {
+  const current = [...header];
+  const insertColumns: number[] = [];
+
+  for (const migration of SHEET_MIGRATIONS.filter(m => m.version > fromVersion)) {
+    for (const column of migration.addColumns || []) {
+      const index = TRANSACTION_COLUMNS.indexOf(column);
+      const existing = String(current[index] ?? '').trim();
+      if (existing && !sameHeader(existing, COLUMN_HEADERS[column])) {
+        insertColumns.push(index);
+        current.splice(index, 0, '');
+      }
+      current[index] = COLUMN_HEADERS[column];
+    }
+  }
+
+  return { insertColumns };
+}
+
+/**
+ * The version stored in Metadata!B3. Sheets without one predate versioning.
+ */
+export function parseSchemaVersion(value: unknown): number {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : 0;
+}
+
+export function isSheetSchemaError(error: unknown): error is Error & { problems: string[] } {
+  return error instanceof Error && error.name === 'SheetSchemaError';
+}
+
+function sheetSchemaError(problems: string[]): Error {
+  return Object.assign(new Error(`Transactions sheet layout is not valid: ${problems.join('; ')}`), {
+    name: 'SheetSchemaError',
+    problems,
+  });
+}
+
+const metadataRows = (version: number) => [
+  ['Setting', 'Value'],
+  ['Last Sync', ''],
+  ['Schema Version', version],
+];
+
+/**
+ * Migrate the sheet to the current schema if it is older, then check its headers.
+ * Throws a SheetSchemaError when the sheet cannot be used safely.
+ */
+export async function ensureSheetSchema(sheets: SheetsClient, spreadsheetId: string): Promise<void> {
+  const spreadsheet = await sheets.spreadsheets.get({ spreadsheetId, fields: 'sheets.properties' });
+  const tabs = spreadsheet.data.sheets || [];
+
+  const transactionsTab = tabs.find(tab => tab.properties?.title === TRANSACTIONS_TAB);
+  if (transactionsTab?.properties?.sheetId === undefined || transactionsTab.properties.sheetId === null) {
+    throw sheetSchemaError([`There is no "${TRANSACTIONS_TAB}" tab (was it renamed?)`]);
+  }
+  const hasMetadata = tabs.some(tab => tab.properties?.title === METADATA_TAB);
+
+  const { data } = await sheets.spreadsheets.values.batchGet({
+    spreadsheetId,
+    ranges: [`${TRANSACTIONS_TAB}!1:1`, ...(hasMetadata ? [`${METADATA_TAB}!B3`] : [])],
+  });
+  const header = data.valueRanges?.[0]?.values?.[0] || [];
+  const version = hasMetadata ? parseSchemaVersion(data.valueRanges?.[1]?.values?.[0]?.[0]) : 0;
+
+  if (version > SHEET_SCHEMA_VERSION) {
+    throw sheetSchemaError([`The sheet uses schema version ${version}, newer than this service supports (${SHEET_SCHEMA_VERSION})`]);
+  }
+  if (version > 0) {
+    // Only migrate a versioned sheet whose current layout is intact
+    const problems = checkSheetHeader(header, version);
+    if (problems.length > 0) throw sheetSchemaError(problems);
+    if (version === SHEET_SCHEMA_VERSION) return;
+  } else {
+    // Headers of an unversioned sheet are not ours to trust, so check its rows before relabelling them
+    const { data: sample } = await sheets.spreadsheets.values.get({
+      spreadsheetId,
+      range: `${TRANSACTIONS_TAB}!A2:${columnLetter(TRANSACTION_COLUMNS.length - 1)}${UNVERSIONED_SAMPLE_ROWS + 1}`,
+    });
+    const problems = checkUnversionedRows(sample.values || []);
+    if (problems.length > 0) throw sheetSchemaError(problems);
+  }
+
+  const { insertColumns } = planSheetMigration(version, header);
+  const requests = [
+    ...(hasMetadata ? [] : [{ addSheet: { properties: { title: METADATA_TAB } } }]),
+    ...insertColumns.map(index => ({
+      insertDimension: {
+        range: { sheetId: transactionsTab.properties!.sheetId!, dimension: 'COLUMNS', startIndex: index, endIndex: index + 1 },
+        inheritFromBefore: index > 0,
+      },
+    })),
+  ];
+  if (requests.length > 0) {
+    await sheets.spreadsheets.batchUpdate({ spreadsheetId, requestBody: { requests } });
+  }
+
+  const headers = TRANSACTION_COLUMNS.map(column => COLUMN_HEADERS[column]);
+  await sheets.spreadsheets.values.batchUpdate({
+    spreadsheetId,
+    requestBody: {
+      valueInputOption: 'RAW',
+      data: [
+        { range: `${TRANSACTIONS_TAB}!A1:${columnLetter(headers.length - 1)}1`, values: [headers] },
+        hasMetadata
+          ? { range: `${METADATA_TAB}!A3:B3`, values: [metadataRows(SHEET_SCHEMA_VERSION)[2]] }
+          : { range: `${METADATA_TAB}!A1:B3`, values: metadataRows(SHEET_SCHEMA_VERSION) },
+      ],
+    },
+  });
+
+  logger.info('Migrated sheet schema', { from: version, to: SHEET_SCHEMA_VERSION, insertedColumns: insertColumns.map(columnLetter) });
+}
+
+/**
+ * Create a spreadsheet laid out at the current schema version. Returns its id.
+ */
+export async function createTransactionsSpreadsheet(sheets: SheetsClient, title: string): Promise<string> {
+  const headerCells = TRANSACTION_COLUMNS.map(column => ({
+    userEnteredValue: { stringValue: COLUMN_HEADERS[column] },
+    userEnteredFormat: { textFormat: { bold: true } },
+  }));
+  const metadataCells = metadataRows(SHEET_SCHEMA_VERSION).map(row => ({
+    values: row.map(value => ({ userEnteredValue: typeof value === 'number' ? { numberValue: value } : { stringValue: value } })),
+  }));
+
+  const response = await sheets.spreadsheets.create({
+    requestBody: {
+      properties: { title, locale: 'en_IN', timeZone: 'Asia/Kolkata' },
+      sheets: [
+        {
+          properties: { title: TRANSACTIONS_TAB, gridProperties: { frozenRowCount: 1 } },
+          data: [{ startRow: 0, startColumn: 0, rowData: [{ values: headerCells }] }],
+        },
+        {
+          properties: { title: METADATA_TAB },
+          data: [{ startRow: 0, startColumn: 0, rowData: metadataCells }],
+        },
+      ],
+    },
+  });
+
+  const spreadsheetId = response.data.spreadsheetId;
+  const sheetId = response.data.sheets?.[0]?.properties?.sheetId;
+  if (!spreadsheetId || sheetId === undefined || sheetId === null) {
+    throw new Error('Google Sheets did not return the new spreadsheet');
+  }
+
+  // Amounts and balances with two decimals; the rest are entered as text or dates
+  await sheets.spreadsheets.batchUpdate({
+    spreadsheetId,
+    requestBody: {
+      requests: (['amount', 'availableBalance'] as const).map(column => {
+        const index = TRANSACTION_COLUMNS.indexOf(column);
+        return {
+          repeatCell: {
+            range: { sheetId, startRowIndex: 1, startColumnIndex: index, endColumnIndex: index + 1 },
+            cell: { userEnteredFormat: { numberFormat: { type: 'NUMBER', pattern: '#,##0.00' } } },
+            fields: 'userEnteredFormat.numberFormat',
+          },
+        };
+      }),
+    },
+  });
+
+  return spreadsheetId;
+}
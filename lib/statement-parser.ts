@@ -0,0 +1,328 @@
+/**
+ * HDFC Account Statement Parser
+ * Turns NetBanking statement downloads (delimited CSV, XLS and text PDFs)
+ * into ParsedTransaction rows
+ */
+
+import crypto from 'crypto';
+import * as XLSX from 'xlsx';
+import { PDFParse } from 'pdf-parse';
+import { formatToIndianDateTime, type ParsedTransaction } from './email-parser';
+
+export type StatementFormat = 'csv' | 'xls' | 'pdf';
+
+export interface ParsedStatement {
+  format: StatementFormat;
+  account: string;
+  transactions: ParsedTransaction[];
+  warnings: string[];
+}
+
+interface StatementRow {
+  date: Date;
+  narration: string;
+  reference: string;
+  withdrawal: number;
+  deposit: number;
+  balance: number | null;
+}
+
+// Narration prefixes that identify the payment method
+const METHOD_PREFIXES: [RegExp, string][] = [
+  [/^UPI[-/]/i, 'UPI'],
+  [/^NEFT/i, 'NEFT'],
+  [/^IMPS/i, 'IMPS'],
+  [/^RTGS/i, 'RTGS'],
+  [/^POS\b|^ME DC\b/i, 'Debit Card'],
+  [/^ATW|^NWD|^EAW/i, 'ATM Withdrawal'],
+  [/^CASH DEP|^BY CASH/i, 'Cash Deposit'],
+  [/^CC\s?\d|CREDIT CARD/i, 'Credit Card'],
+  [/^NET BANKING|^IB /i, 'Net Banking'],
+];
+
+/**
+ * Work out the file type from its first bytes
+ */
+export function detectStatementFormat(file: Buffer): StatementFormat {
+  if (file.subarray(0, 4).toString('latin1') === '%PDF') return 'pdf';
+  // Legacy .xls (OLE compound file) and .xlsx (zip)
+  if (file.subarray(0, 4).equals(Buffer.from([0xd0, 0xcf, 0x11, 0xe0]))) return 'xls';
+  if (file.subarray(0, 2).toString('latin1') === 'PK') return 'xls';
+  return 'csv';
+}
+
+function parseStatementDate(value: string): Date | null {
+  const match = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{2}|\d{4})$/);
+  if (!match) return null;
+
+  const year = match[3].length === 2 ? 2000 + parseInt(match[3], 10) : parseInt(match[3], 10);
+  const date = new Date(year, parseInt(match[2], 10) - 1, parseInt(match[1], 10));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+function parseAmount(value: string): number {
+  const amount = parseFloat(value.replace(/[,\s]/g, ''));
+  return isNaN(amount) ? 0 : amount;
+}
+
+/**
+ * Split one CSV line, honouring double-quoted fields
+ */
+function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"' && quoted && line[i + 1] === '"') {
+      current += '"';
+      i++;
+    } else if (char === '"') {
+      quoted = !quoted;
+    } else if (char === ',' && !quoted) {
+      cells.push(current);
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current);
+
+  return cells.map(cell => cell.trim());
+}
+
+/**
+ * Last four digits of the account number from the statement preamble
+ */
+function findAccount(lines: string[]): string {
+  for (const line of lines) {
+    const match = line.match(/Account\s*(?:No|Number)\.?\s*:?\s*[X*]*(\d{4,})/i);
+    if (match) return match[1].slice(-4);
+  }
+  return '';
+}
+
+/**
+ * Map the header row of a CSV/XLS statement and read every dated row under it
+ */
+function readTabularRows(rows: string[][], warnings: string[]): StatementRow[] {
+  const headerIndex = rows.findIndex(row => {
+    const cells = row.map(cell => cell.trim().toLowerCase());
+    return cells.some(cell => cell === 'date') && cells.some(cell => cell.startsWith('narration'));
+  });
+
+  if (headerIndex === -1) {
+    warnings.push('No header row with Date and Narration columns was found');
+    return [];
+  }
+
+  const header = rows[headerIndex].map(cell => cell.trim().toLowerCase());
+  const column = (test: (name: string) => boolean) => header.findIndex(test);
+  const columns = {
+    date: column(name => name === 'date'),
+    narration: column(name => name.startsWith('narration')),
+    reference: column(name => name.includes('ref')),
+    withdrawal: column(name => name.includes('withdrawal') || name.includes('debit')),
+    deposit: column(name => name.includes('deposit') || name.includes('credit')),
+    balance: column(name => name.includes('balance')),
+  };
+
+  if (columns.withdrawal === -1 || columns.deposit === -1) {
+    warnings.push('Withdrawal/Deposit columns were not found');
+    return [];
+  }
+
+  const parsed: StatementRow[] = [];
+  for (const row of rows.slice(headerIndex + 1)) {
+    const cell = (index: number) => (index >= 0 ? String(row[index] ?? '').trim() : '');
+    const date = parseStatementDate(cell(columns.date));
+    // Separator lines (*****) and the summary footer have no date
+    if (!date) continue;
+
+    parsed.push({
+      date,
+      narration: cell(columns.narration),
+      reference: cell(columns.reference),
+      withdrawal: parseAmount(cell(columns.withdrawal)),
+      deposit: parseAmount(cell(columns.deposit)),
+      balance: columns.balance >= 0 && cell(columns.balance) ? parseAmount(cell(columns.balance)) : null,
+    });
+  }
+
+  return parsed;
+}
+
+/**
+ * Read rows from PDF text. Each transaction line starts with the date and ends
+ * with "<ref> <value date> <amount> <closing balance>"; wrapped narration lines
+ * are joined back on. PDFs do not say which column the amount was in, so the
+ * direction comes from the change in closing balance.
+ */
+function readPdfRows(text: string, warnings: string[]): StatementRow[] {
+  const rowPattern = /^(\d{2}\/\d{2}\/\d{2,4})\s+(.*?)\s+(\S+)\s+\d{2}\/\d{2}\/\d{2,4}\s+([\d,]+\.\d{2})\s+([\d,]+\.\d{2})\s*$/;
+  const openingMatch = text.match(/Opening\s+Balance[\s\S]*?\n\s*([\d,]+\.\d{2})/i);
+  let previousBalance = openingMatch ? parseAmount(openingMatch[1]) : null;
+
+  const rows: StatementRow[] = [];
+  let last: StatementRow | null = null;
+
+  for (const rawLine of text.split(/\r?\n/)) {
+    const line = rawLine.trim();
+    const match = line.match(rowPattern);
+
+    if (match) {
+      const date = parseStatementDate(match[1]);
+      if (!date) continue;
+
+      const amount = parseAmount(match[4]);
+      const balance = parseAmount(match[5]);
+      let isCredit: boolean;
+
+      if (previousBalance !== null) {
+        isCredit = Math.abs(previousBalance + amount - balance) < Math.abs(previousBalance - amount - balance);
+      } else {
+        isCredit = /\b(CR|CREDIT|SALARY|INTEREST|REFUND|REVERSAL)\b/i.test(match[2]);
+        warnings.push(`Direction of the first row (${match[1]}) guessed from its narration`);
+      }
+
+      last = {
+        date,
+        narration: match[2],
+        reference: match[3],
+        withdrawal: isCredit ? 0 : amount,
+        deposit: isCredit ? amount : 0,
+        balance,
+      };
+      rows.push(last);
+      previousBalance = balance;
+    } else if (last && line && !/^(page|statement|--|\*)/i.test(line) && !/\d{2}\/\d{2}\/\d{2,4}/.test(line)) {
+      last.narration += line;
+    } else if (!line) {
+      last = null;
+    }
+  }
+
+  return rows;
+}
+
+/**
+ * Describe a row the way the email parser does, so VPAs line up:
+ * "UPI-TABREZ KHAN-tabrezkhan009@ybl-..." becomes "TABREZ KHAN (tabrezkhan009@ybl)"
+ */
+function describeNarration(narration: string): string {
+  const upi = narration.match(/^UPI[-/]([^-/]+)[-/]([^-/\s]+@[^-/\s]+)/i);
+  if (upi) return `${upi[1].trim()} (${upi[2].toLowerCase()})`;
+  return narration.replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Bank references are zero-padded in statements (0000537932190659); emails
+ * carry them without the padding. Rows without one get a stable made-up reference.
+ */
+function statementReference(row: StatementRow): string {
+  const reference = row.reference.replace(/^0+/, '');
+  if (/^[A-Za-z0-9]{6,}$/.test(reference)) return reference;
+
+  const hash = crypto
+    .createHash('sha1')
+    .update(`${row.date.toISOString()}|${row.narration}|${row.withdrawal}|${row.deposit}|${row.balance}`)
+    .digest('hex')
+    .slice(0, 12);
+  return `STMT_${hash}`;
+}
+
+function toTransaction(row: StatementRow, account: string): ParsedTransaction | null {
+  const isCredit = row.deposit > 0;
+  const amount = isCredit ? row.deposit : row.withdrawal;
+  if (amount <= 0) return null;
+
+  return {
+    dateTime: formatToIndianDateTime(row.date),
+    amount,
+    type: isCredit ? 'Credit' : 'Debit',
+    method: METHOD_PREFIXES.find(([pattern]) => pattern.test(row.narration))?.[1] || 'Other',
+    account,
+    description: describeNarration(row.narration),
+    referenceNumber: statementReference(row),
+    availableBalance: row.balance ?? 'N/A',
+    category: '',
+    notes: '',
+    emailReceivedDate: 'Statement Import',
+  };
+}
+
+async function extractPdfText(file: Buffer): Promise<string> {
+  const parser = new PDFParse({ data: file });
+  try {
+    return (await parser.getText()).text;
+  } finally {
+    await parser.destroy();
+  }
+}
+
+export function isStatementError(error: unknown): boolean {
+  return error instanceof Error && error.name === 'StatementError';
+}
+
+/**
+ * An uploaded statement that cannot be read or has nothing to import
+ */
+export function statementError(message: string): Error {
+  return Object.assign(new Error(message), { name: 'StatementError' });
+}
+
+/**
+ * Parse an HDFC statement file. The account falls back to the given value when
+ * the file does not name one (delimited CSV downloads have no preamble).
+ */
+export async function parseHDFCStatement(file: Buffer, account = ''): Promise<ParsedStatement> {
+  const format = detectStatementFormat(file);
+  const warnings: string[] = [];
+  let rows: StatementRow[];
+  let preamble: string[];
+
+  if (format === 'pdf') {
+    const text = await extractPdfText(file).catch(error => {
+      throw statementError(`The PDF could not be read: ${(error as Error).message}`);
+    });
+    if (!text.trim()) {
+      return { format, account, transactions: [], warnings: ['The PDF has no extractable text (scanned statements are not supported)'] };
+    }
+    preamble = text.split(/\r?\n/).slice(0, 40);
+    rows = readPdfRows(text, warnings);
+  } else {
+    let table: string[][];
+    if (format === 'xls') {
+      let workbook: XLSX.WorkBook;
+      try {
+        workbook = XLSX.read(file, { type: 'buffer' });
+      } catch (error) {
+        throw statementError(`The spreadsheet could not be read: ${(error as Error).message}`);
+      }
+      table = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[workbook.SheetNames[0]], {
+        header: 1,
+        raw: false,
+        defval: '',
+        // Date cells are formatted the way HDFC prints them
+        dateNF: 'dd/mm/yy',
+      });
+    } else {
+      table = file.toString('utf-8').replace(/^\uFEFF/, '').split(/\r?\n/).filter(line => line.trim()).map(splitCsvLine);
+    }
+
+    preamble = table.slice(0, 25).map(row => row.join(' '));
+    rows = readTabularRows(table, warnings);
+  }
+
+  const statementAccount = findAccount(preamble) || account;
+  const transactions = rows
+    .map(row => toTransaction(row, statementAccount))
+    .filter((transaction): transaction is ParsedTransaction => !!transaction);
+
+  if (rows.length === 0 && warnings.length === 0) {
+    warnings.push('No transactions were found in the statement');
+  }
+
+  return { format, account: statementAccount, transactions, warnings };
+}
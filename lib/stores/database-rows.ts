@@ -0,0 +1,58 @@
+/**
+ * Column mapping shared by the SQL transaction stores
+ */
+
+import type { ParsedTransaction } from '../email-parser';
+
+export interface TransactionRow {
+  user_id: string;
+  reference_number: string;
+  date_time: string;
+  amount: number;
+  type: 'Credit' | 'Debit';
+  method: string;
+  account: string;
+  description: string;
+  available_balance: string;
+  category: string;
+  notes: string;
+  email_received_date: string;
+  transfer_id: string | null;
+}
+
+export function toDatabaseRow(userId: string, transaction: ParsedTransaction): TransactionRow {
+  return {
+    user_id: userId,
+    reference_number: transaction.referenceNumber,
+    date_time: transaction.dateTime,
+    amount: transaction.amount,
+    type: transaction.type,
+    method: transaction.method,
+    account: transaction.account,
+    description: transaction.description,
+    // Stored as text because alerts without a balance carry 'N/A'
+    available_balance: String(transaction.availableBalance),
+    category: transaction.category,
+    notes: transaction.notes,
+    email_received_date: transaction.emailReceivedDate,
+    transfer_id: transaction.transferId || null,
+  };
+}
+
+export function fromDatabaseRow(row: TransactionRow): ParsedTransaction {
+  const balance = parseFloat(row.available_balance);
+  return {
+    dateTime: row.date_time,
+    amount: Number(row.amount),
+    type: row.type,
+    method: row.method,
+    account: row.account,
+    description: row.description,
+    referenceNumber: row.reference_number,
+    availableBalance: isNaN(balance) ? row.available_balance : balance,
+    category: row.category,
+    notes: row.notes,
+    emailReceivedDate: row.email_received_date,
+    ...(row.transfer_id ? { transferId: row.transfer_id } : {}),
+  };
+}
@@ -0,0 +1,77 @@
+/**
+ * Transaction Store Factory
+ * Picks where a user's transactions live from users.transaction_sink
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type Database from 'better-sqlite3';
+import type { SheetsClient } from '../google-auth';
+import { createMirroredStore, type TransactionSink, type TransactionStore } from '../transaction-store';
+import { createSheetsStore } from './sheets-store';
+import { createSupabaseStore } from './supabase-store';
+import { createSqliteStore, openSqliteDatabase } from './sqlite-store';
+
+export interface StoreOwner {
+  id: string;
+  google_sheet_id: string | null;
+  transaction_sink?: TransactionSink | null;
+}
+
+let sqliteDb: Database.Database | null = null;
+
+/**
+ * The user's sink, defaulting to the Google Sheet
+ */
+export function getTransactionSink(user: StoreOwner): TransactionSink {
+  return user.transaction_sink || 'sheets';
+}
+
+/**
+ * Whether the user's sink writes to their Google Sheet
+ */
+export function usesSheet(user: StoreOwner): boolean {
+  return getTransactionSink(user) !== 'database';
+}
+
+/**
+ * Database store: SQLite when SQLITE_PATH is set (local dev), Supabase otherwise
+ */
+function createDatabaseStore(supabase: SupabaseClient, userId: string): TransactionStore {
+  const sqlitePath = process.env.SQLITE_PATH;
+  if (sqlitePath) {
+    sqliteDb = sqliteDb || openSqliteDatabase(sqlitePath);
+    return createSqliteStore(sqliteDb, userId);
+  }
+  return createSupabaseStore(supabase, userId);
+}
+
+/**
+ * Build the store for a user. With 'both' the database is the primary
+ * and the sheet is kept as a mirror. The Sheets client is only needed when
+ * the sink uses the sheet.
+ */
+export function createTransactionStore(
+  user: StoreOwner,
+  clients: { sheets?: SheetsClient; supabase: SupabaseClient }
+): TransactionStore {
+  const sink = getTransactionSink(user);
+
+  if (sink !== 'database' && !user.google_sheet_id) {
+    throw new Error('No Google Sheet configured');
+  }
+  if (sink !== 'database' && !clients.sheets) {
+    throw new Error('A Google Sheets client is required for the sheet sink');
+  }
+
+  switch (sink) {
+    case 'database':
+      return createDatabaseStore(clients.supabase, user.id);
+    case 'both':
+      return createMirroredStore(
+        createDatabaseStore(clients.supabase, user.id),
+        [createSheetsStore(clients.sheets!, user.google_sheet_id!)]
+      );
+    default:
+      return createSheetsStore(clients.sheets!, user.google_sheet_id!);
+  }
+}
@@ -0,0 +1,109 @@
+/**
+ * Google Sheets Transaction Store
+ * Stores transactions in the user's Transactions tab (A:L)
+ */
+
+import type { SheetsClient } from '../google-auth';
+import { rowToTransaction, transactionToRow } from '../sheet-rows';
+import {
+  appendTransactions,
+  loadExistingRefs,
+  findTransactionRow,
+  deleteTransactionRow,
+} from '../transactions-sheet';
+import { ensureSheetSchema } from '../sheet-schema';
+import { filterNewTransactions, type TransactionStore } from '../transaction-store';
+
+export function createSheetsStore(sheets: SheetsClient, spreadsheetId: string): TransactionStore {
+  // The layout is migrated and checked once per store, before the first read or write
+  let schemaChecked: Promise<void> | null = null;
+  const checkSchema = () => {
+    schemaChecked = schemaChecked || ensureSheetSchema(sheets, spreadsheetId).catch(error => {
+      schemaChecked = null;
+      throw error;
+    });
+    return schemaChecked;
+  };
+
+  // The G column is read once per store and kept in step with our own writes
+  let knownRefs: Set<string> | null = null;
+  const getKnownRefs = async () => {
+    await checkSchema();
+    if (!knownRefs) {
+      knownRefs = await loadExistingRefs(sheets, spreadsheetId);
+    }
+    return knownRefs;
+  };
+
+  const readRows = async () => {
+    await checkSchema();
+    const sheetData = await sheets.spreadsheets.values.get({
+      spreadsheetId,
+      range: 'Transactions!A2:L',
+    });
+    return sheetData.data.values || [];
+  };
+
+  return {
+    name: 'sheets',
+
+    async append(transactions) {
+      const refs = await getKnownRefs();
+      const fresh = filterNewTransactions(transactions, refs);
+      await appendTransactions(sheets, spreadsheetId, fresh);
+      fresh.forEach(transaction => refs.add(transaction.referenceNumber));
+      return fresh;
+    },
+
+    async findExistingRefs(referenceNumbers) {
+      const refs = await getKnownRefs();
+      return new Set(referenceNumbers.filter(ref => refs.has(ref)));
+    },
+
+    async list() {
+      return (await readRows()).map(rowToTransaction);
+    },
+
+    async findByReference(referenceNumber) {
+      await checkSchema();
+      const found = await findTransactionRow(sheets, spreadsheetId, referenceNumber);
+      return found?.transaction || null;
+    },
+
+    async updateMany(transactions) {
+      const rows = await readRows();
+      const rowByRef = new Map<string, number>();
+      rows.forEach((row, index) => {
+        if (row[6]) rowByRef.set(row[6], index + 2);
+      });
+
+      const data = transactions
+        .filter(transaction => rowByRef.has(transaction.referenceNumber))
+        .map(transaction => {
+          const rowNumber = rowByRef.get(transaction.referenceNumber)!;
+          return {
+            range: `Transactions!A${rowNumber}:L${rowNumber}`,
+            values: [transactionToRow(transaction)],
+          };
+        });
+
+      if (data.length > 0) {
+        await sheets.spreadsheets.values.batchUpdate({
+          spreadsheetId,
+          requestBody: { valueInputOption: 'USER_ENTERED', data },
+        });
+      }
+      return data.length;
+    },
+
+    async remove(referenceNumber) {
+      await checkSchema();
+      const found = await findTransactionRow(sheets, spreadsheetId, referenceNumber);
+      if (!found) return false;
+
+      await deleteTransactionRow(sheets, spreadsheetId, found.rowNumber);
+      knownRefs?.delete(referenceNumber);
+      return true;
+    },
+  };
+}
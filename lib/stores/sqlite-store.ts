@@ -0,0 +1,113 @@
+/**
+ * SQLite Transaction Store
+ * Same schema as the Supabase `transactions` table, for local development and tests
+ */
+
+import type Database from 'better-sqlite3';
+import { filterNewTransactions, type TransactionStore } from '../transaction-store';
+import { toDatabaseRow, fromDatabaseRow, type TransactionRow } from './database-rows';
+
+const SCHEMA = `
+  CREATE TABLE IF NOT EXISTS transactions (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    user_id TEXT NOT NULL,
+    reference_number TEXT NOT NULL,
+    date_time TEXT NOT NULL,
+    amount REAL NOT NULL,
+    type TEXT NOT NULL,
+    method TEXT NOT NULL,
+    account TEXT NOT NULL,
+    description TEXT NOT NULL,
+    available_balance TEXT NOT NULL,
+    category TEXT NOT NULL,
+    notes TEXT NOT NULL,
+    email_received_date TEXT NOT NULL,
+    transfer_id TEXT,
+    created_at TEXT NOT NULL DEFAULT (datetime('now')),
+    UNIQUE (user_id, reference_number)
+  )
+`;
+
+const COLUMNS = [
+  'user_id', 'reference_number', 'date_time', 'amount', 'type', 'method', 'account',
+  'description', 'available_balance', 'category', 'notes', 'email_received_date', 'transfer_id',
+];
+
+/**
+ * Open (and create if needed) a SQLite database holding the transactions table
+ */
+export function openSqliteDatabase(path: string): Database.Database {
+  // Loaded on first use: better-sqlite3 is a native dev dependency, not installed in production
+  const BetterSqlite3: typeof Database = require('better-sqlite3');
+  const db = new BetterSqlite3(path);
+  db.pragma('journal_mode = WAL');
+  db.exec(SCHEMA);
+
+  // Databases created before transfer detection lack the transfer_id column
+  const columns = db.prepare('PRAGMA table_info(transactions)').all() as { name: string }[];
+  if (!columns.some(column => column.name === 'transfer_id')) {
+    db.exec('ALTER TABLE transactions ADD COLUMN transfer_id TEXT');
+  }
+  return db;
+}
+
+export function createSqliteStore(db: Database.Database, userId: string): TransactionStore {
+  const insert = db.prepare(
+    `INSERT OR IGNORE INTO transactions (${COLUMNS.join(', ')}) VALUES (${COLUMNS.map(c => `@${c}`).join(', ')})`
+  );
+  const update = db.prepare(
+    `UPDATE transactions SET ${COLUMNS.filter(c => c !== 'user_id' && c !== 'reference_number').map(c => `${c} = @${c}`).join(', ')}
+     WHERE user_id = @user_id AND reference_number = @reference_number`
+  );
+  const exists = db.prepare('SELECT 1 FROM transactions WHERE user_id = ? AND reference_number = ?');
+
+  const findExistingRefs = async (referenceNumbers: string[]) =>
+    new Set(referenceNumbers.filter(ref => exists.get(userId, ref)));
+
+  return {
+    name: 'sqlite',
+
+    findExistingRefs,
+
+    async append(transactions) {
+      const fresh = filterNewTransactions(transactions, await findExistingRefs(transactions.map(t => t.referenceNumber)));
+      db.transaction(() => {
+        for (const transaction of fresh) {
+          insert.run(toDatabaseRow(userId, transaction));
+        }
+      })();
+      return fresh;
+    },
+
+    async list() {
+      const rows = db
+        .prepare('SELECT * FROM transactions WHERE user_id = ? ORDER BY id')
+        .all(userId) as TransactionRow[];
+      return rows.map(fromDatabaseRow);
+    },
+
+    async findByReference(referenceNumber) {
+      const row = db
+        .prepare('SELECT * FROM transactions WHERE user_id = ? AND reference_number = ?')
+        .get(userId, referenceNumber) as TransactionRow | undefined;
+      return row ? fromDatabaseRow(row) : null;
+    },
+
+    async updateMany(transactions) {
+      let updated = 0;
+      db.transaction(() => {
+        for (const transaction of transactions) {
+          updated += update.run(toDatabaseRow(userId, transaction)).changes;
+        }
+      })();
+      return updated;
+    },
+
+    async remove(referenceNumber) {
+      const result = db
+        .prepare('DELETE FROM transactions WHERE user_id = ? AND reference_number = ?')
+        .run(userId, referenceNumber);
+      return result.changes > 0;
+    },
+  };
+}
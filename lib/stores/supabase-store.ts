@@ -0,0 +1,113 @@
+/**
+ * Supabase Transaction Store
+ * Stores transactions in the `transactions` table, deduplicated by the
+ * unique (user_id, reference_number) index
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { filterNewTransactions, type TransactionStore } from '../transaction-store';
+import { toDatabaseRow, fromDatabaseRow, type TransactionRow } from './database-rows';
+
+const PAGE_SIZE = 1000;
+
+export function createSupabaseStore(supabase: SupabaseClient, userId: string): TransactionStore {
+  const findExistingRefs = async (referenceNumbers: string[]) => {
+    const existing = new Set<string>();
+
+    for (let i = 0; i < referenceNumbers.length; i += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('reference_number')
+        .eq('user_id', userId)
+        .in('reference_number', referenceNumbers.slice(i, i + PAGE_SIZE));
+
+      if (error) throw new Error(`Failed to check existing transactions: ${error.message}`);
+      (data || []).forEach(row => existing.add(row.reference_number));
+    }
+
+    return existing;
+  };
+
+  return {
+    name: 'supabase',
+
+    findExistingRefs,
+
+    async append(transactions) {
+      if (transactions.length === 0) return [];
+
+      const existing = await findExistingRefs(transactions.map(t => t.referenceNumber));
+      const fresh = filterNewTransactions(transactions, existing);
+      if (fresh.length === 0) return [];
+
+      const { error } = await supabase
+        .from('transactions')
+        .upsert(fresh.map(t => toDatabaseRow(userId, t)), {
+          onConflict: 'user_id,reference_number',
+          ignoreDuplicates: true,
+        });
+
+      if (error) throw new Error(`Failed to save transactions: ${error.message}`);
+      return fresh;
+    },
+
+    async list() {
+      const rows: TransactionRow[] = [];
+
+      for (let from = 0; ; from += PAGE_SIZE) {
+        const { data, error } = await supabase
+          .from('transactions')
+          .select('*')
+          .eq('user_id', userId)
+          .order('created_at', { ascending: true })
+          .range(from, from + PAGE_SIZE - 1);
+
+        if (error) throw new Error(`Failed to load transactions: ${error.message}`);
+        rows.push(...((data || []) as TransactionRow[]));
+        if (!data || data.length < PAGE_SIZE) break;
+      }
+
+      return rows.map(fromDatabaseRow);
+    },
+
+    async findByReference(referenceNumber) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .select('*')
+        .eq('user_id', userId)
+        .eq('reference_number', referenceNumber)
+        .maybeSingle();
+
+      if (error) throw new Error(`Failed to load transaction: ${error.message}`);
+      return data ? fromDatabaseRow(data as TransactionRow) : null;
+    },
+
+    async updateMany(transactions) {
+      let updated = 0;
+      for (const transaction of transactions) {
+        const { data, error } = await supabase
+          .from('transactions')
+          .update(toDatabaseRow(userId, transaction))
+          .eq('user_id', userId)
+          .eq('reference_number', transaction.referenceNumber)
+          .select('reference_number');
+
+        if (error) throw new Error(`Failed to update transaction: ${error.message}`);
+        updated += data?.length || 0;
+      }
+      return updated;
+    },
+
+    async remove(referenceNumber) {
+      const { data, error } = await supabase
+        .from('transactions')
+        .delete()
+        .eq('user_id', userId)
+        .eq('reference_number', referenceNumber)
+        .select('reference_number');
+
+      if (error) throw new Error(`Failed to delete transaction: ${error.message}`);
+      return !!data && data.length > 0;
+    },
+  };
+}
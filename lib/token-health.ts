@@ -0,0 +1,155 @@
+/**
+ * Google Token Health
+ * Why a user's refresh token could not be used, and what happens next:
+ * - transient: network errors, rate limits and Google outages; the job is retried with backoff
+ * - revoked: Google rejected the grant (revoked, expired or password changed); the user must reconnect
+ * - key_mismatch: the stored token does not decrypt with its key; the user must reconnect
+ * Users who must reconnect are marked needs_reauth and skipped, but stay active.
+ */
+
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Notification } from './notifiers';
+
+export type TokenFailureKind = 'transient' | 'revoked' | 'key_mismatch';
+
+export interface TokenFailure {
+  kind: TokenFailureKind;
+  // Google's error code, or what went wrong before reaching Google
+  reason: string;
+}
+
+export type TokenState = 'ok' | 'retrying' | 'needs_reauth';
+
+export const TOKEN_STATES: TokenState[] = ['ok', 'retrying', 'needs_reauth'];
+
+export interface TokenStateUser {
+  id: string;
+  google_email: string;
+  is_active: boolean;
+  token_state: TokenState;
+  token_error: string | null;
+  token_state_changed_at: string | null;
+  reauth_notified_at: string | null;
+}
+
+/**
+ * Classify a failed response from Google's token endpoint.
+ * invalid_grant is the only answer that means the user's grant is gone; client
+ * errors are our configuration, so those are retried like outages.
+ */
+export function classifyRefreshResponse(status: number, body: unknown): TokenFailure {
+  const code = typeof (body as any)?.error === 'string' ? (body as any).error : `http_${status}`;
+  if (code === 'invalid_grant') {
+    return { kind: 'revoked', reason: code };
+  }
+  return { kind: 'transient', reason: code };
+}
+
+export function tokenStateFor(failure: TokenFailure): TokenState {
+  return failure.kind === 'transient' ? 'retrying' : 'needs_reauth';
+}
+
+/**
+ * The columns to write when a user's token state changes. The change time and
+ * notification time are kept while the state stays the same.
+ */
+export function tokenStateUpdate(
+  current: { token_state?: TokenState | null },
+  next: TokenState,
+  failure?: TokenFailure,
+  now: Date = new Date()
+): Record<string, string | null> | null {
+  const currentState = current.token_state || 'ok';
+  if (currentState === next && next === 'ok') return null;
+
+  const update: Record<string, string | null> = { token_state: next, token_error: failure?.reason || null };
+  if (currentState !== next) {
+    update.token_state_changed_at = now.toISOString();
+    update.reauth_notified_at = null;
+  }
+  return update;
+}
+
+/**
+ * Ask the user to reconnect their Google account
+ */
+export function buildReauthNotification(
+  user: { id: string; google_email: string },
+  failure: TokenFailure,
+  reconnectUrl?: string
+): Notification {
+  const cause = failure.kind === 'key_mismatch'
+    ? 'We could no longer read the Google authorisation we stored for you.'
+    : 'Google stopped accepting our access to your account (it was revoked or has expired).';
+
+  return {
+    type: 'auth.reauth_required',
+    userId: user.id,
+    email: user.google_email,
+    subject: 'Reconnect your Google account to keep syncing transactions',
+    text: [
+      `${cause} New bank emails are not being synced until you reconnect.`,
+      reconnectUrl ? `Sign in again at ${reconnectUrl} to resume syncing.` : 'Sign in to Finance Tracker again to resume syncing.',
+    ].join('\n\n'),
+    data: { kind: failure.kind, reason: failure.reason },
+  };
+}
+
+/**
+ * Users in one token state, or every user that is not ok, most recent change first
+ */
+export async function listUsersByTokenState(supabase: SupabaseClient, state?: TokenState): Promise<TokenStateUser[]> {
+  let query = supabase
+    .from('users')
+    .select('id, google_email, is_active, token_state, token_error, token_state_changed_at, reauth_notified_at');
+
+  query = state ? query.eq('token_state', state) : query.neq('token_state', 'ok');
+
+  const { data, error } = await query.order('token_state_changed_at', { ascending: false, nullsFirst: false });
+  if (error) {
+    throw new Error(`Failed to load token states: ${error.message}`);
+  }
+  return (data || []) as TokenStateUser[];
+}
+
+/**
+ * How many users are in each token state
+ */
+export async function countUsersByTokenState(supabase: SupabaseClient): Promise<Record<TokenState, number>> {
+  const counts = { ok: 0, retrying: 0, needs_reauth: 0 };
+
+  for (const state of TOKEN_STATES) {
+    const { count, error } = await supabase
+      .from('users')
+      .select('id', { count: 'exact', head: true })
+      .eq('token_state', state);
+
+    if (error) {
+      throw new Error(`Failed to count token states: ${error.message}`);
+    }
+    counts[state] = count || 0;
+  }
+  return counts;
+}
+
+/**
+ * Clear needs_reauth after the user has reconnected. Returns false when there is no such user.
+ */
+export async function clearReauth(supabase: SupabaseClient, userId: string, now: Date = new Date()): Promise<boolean> {
+  const { data, error } = await supabase
+    .from('users')
+    .update({
+      is_active: true,
+      token_state: 'ok',
+      token_error: null,
+      token_state_changed_at: now.toISOString(),
+      reauth_notified_at: null,
+    })
+    .eq('id', userId)
+    .select('id');
+
+  if (error) {
+    throw new Error(`Failed to clear re-authentication state: ${error.message}`);
+  }
+  return !!data && data.length > 0;
+}
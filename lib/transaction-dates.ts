@@ -0,0 +1,42 @@
+/**
+ * Transaction Date Helpers
+ * Reads back the DD/MM/YYYY hh:mm AM/PM strings written by formatToIndianDateTime
+ */
+
+/**
+ * Parse a transaction dateTime. Returns null when the value is not a recognisable date.
+ */
+export function parseTransactionDateTime(value: string): Date | null {
+  const match = value.trim().match(/^(\d{1,2})\/(\d{1,2})\/(\d{2,4})(?:,?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?)?$/i);
+
+  if (!match) {
+    // Sheets may hand back ISO or locale strings for cells edited by hand
+    const fallback = new Date(value);
+    return value.trim() && !isNaN(fallback.getTime()) ? fallback : null;
+  }
+
+  const [, day, month, rawYear, rawHours, minutes, seconds, meridiem] = match;
+  const year = rawYear.length === 2 ? 2000 + parseInt(rawYear, 10) : parseInt(rawYear, 10);
+  let hours = rawHours ? parseInt(rawHours, 10) : 0;
+
+  if (meridiem) {
+    hours = hours % 12 + (meridiem.toUpperCase() === 'PM' ? 12 : 0);
+  }
+
+  const date = new Date(year, parseInt(month, 10) - 1, parseInt(day, 10), hours, parseInt(minutes || '0', 10), parseInt(seconds || '0', 10));
+  return isNaN(date.getTime()) ? null : date;
+}
+
+/**
+ * Calendar month of a date as YYYY-MM (local time)
+ */
+export function toMonthKey(date: Date): string {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+/**
+ * Calendar day of a date as YYYY-MM-DD (local time)
+ */
+export function toDayKey(date: Date): string {
+  return `${toMonthKey(date)}-${String(date.getDate()).padStart(2, '0')}`;
+}
@@ -0,0 +1,83 @@
+/**
+ * Transaction Storage
+ * Common interface over the places transactions can be written:
+ * the user's Google Sheet, a Supabase table, or SQLite for local dev and tests
+ */
+
+import type { ParsedTransaction } from './email-parser';
+import { logger } from './logger';
+
+export type TransactionSink = 'sheets' | 'database' | 'both';
+
+export const TRANSACTION_SINKS: TransactionSink[] = ['sheets', 'database', 'both'];
+
+export interface TransactionStore {
+  name: string;
+  // Append transactions whose reference number is not stored yet; returns the ones written
+  append(transactions: ParsedTransaction[]): Promise<ParsedTransaction[]>;
+  // Which of these reference numbers are already stored
+  findExistingRefs(referenceNumbers: string[]): Promise<Set<string>>;
+  list(): Promise<ParsedTransaction[]>;
+  findByReference(referenceNumber: string): Promise<ParsedTransaction | null>;
+  // Replace stored transactions matched by reference number; returns how many were found
+  updateMany(transactions: ParsedTransaction[]): Promise<number>;
+  remove(referenceNumber: string): Promise<boolean>;
+}
+
+/**
+ * Drop transactions that are already stored or repeated within the batch
+ */
+export function filterNewTransactions(
+  transactions: ParsedTransaction[],
+  existingRefs: Set<string>
+): ParsedTransaction[] {
+  const seen = new Set(existingRefs);
+  return transactions.filter(transaction => {
+    if (seen.has(transaction.referenceNumber)) return false;
+    seen.add(transaction.referenceNumber);
+    return true;
+  });
+}
+
+/**
+ * Write to a primary store and mirror every write to the others.
+ * Reads come from the primary; each mirror deduplicates on its own so a
+ * newly added mirror does not need to be in sync with the primary.
+ */
+export function createMirroredStore(primary: TransactionStore, mirrors: TransactionStore[]): TransactionStore {
+  const mirrorAll = async (operation: (store: TransactionStore) => Promise<unknown>) => {
+    for (const mirror of mirrors) {
+      try {
+        await operation(mirror);
+      } catch (error) {
+        logger.warn('Mirror write failed', { store: mirror.name, error: (error as Error).message });
+      }
+    }
+  };
+
+  return {
+    name: [primary, ...mirrors].map(store => store.name).join('+'),
+
+    async append(transactions) {
+      const written = await primary.append(transactions);
+      await mirrorAll(mirror => mirror.append(transactions));
+      return written;
+    },
+
+    findExistingRefs: referenceNumbers => primary.findExistingRefs(referenceNumbers),
+    list: () => primary.list(),
+    findByReference: referenceNumber => primary.findByReference(referenceNumber),
+
+    async updateMany(transactions) {
+      const updated = await primary.updateMany(transactions);
+      await mirrorAll(mirror => mirror.updateMany(transactions));
+      return updated;
+    },
+
+    async remove(referenceNumber) {
+      const removed = await primary.remove(referenceNumber);
+      await mirrorAll(mirror => mirror.remove(referenceNumber));
+      return removed;
+    },
+  };
+}
@@ -0,0 +1,106 @@
+/**
+ * Transactions Sheet Access
+ * Reads, appends and deletes rows in a user's Transactions tab
+ */
+
+import type { ParsedTransaction } from './email-parser';
+import type { SheetsClient } from './google-auth';
+import { transactionToRow, rowToTransaction } from './sheet-rows';
+import { TRANSACTIONS_TAB } from './sheet-schema';
+import { logger } from './logger';
+
+/**
+ * Read every reference number already in the Transactions sheet
+ */
+export async function loadExistingRefs(sheets: SheetsClient, spreadsheetId: string): Promise<Set<string>> {
+  const existingRefs = new Set<string>();
+  try {
+    const sheetData = await sheets.spreadsheets.values.get({
+      spreadsheetId,
+      range: `${TRANSACTIONS_TAB}!G2:G`,
+    });
+    (sheetData.data.values || []).forEach(row => {
+      if (row[0]) existingRefs.add(row[0]);
+    });
+  } catch (e) {
+    logger.warn('Could not fetch existing transactions', { error: e });
+  }
+  return existingRefs;
+}
+
+/**
+ * Append parsed transactions to the Transactions sheet
+ */
+export async function appendTransactions(
+  sheets: SheetsClient,
+  spreadsheetId: string,
+  transactions: ParsedTransaction[]
+): Promise<void> {
+  if (transactions.length === 0) return;
+
+  logger.info('Saving transactions', { count: transactions.length });
+
+  const values = transactions.map(transactionToRow);
+
+  await sheets.spreadsheets.values.append({
+    spreadsheetId,
+    range: `${TRANSACTIONS_TAB}!A:L`,
+    valueInputOption: 'USER_ENTERED',
+    requestBody: { values },
+  });
+}
+
+/**
+ * Find the sheet row (1-based) holding a reference number
+ */
+export async function findTransactionRow(
+  sheets: SheetsClient,
+  spreadsheetId: string,
+  referenceNumber: string
+): Promise<{ rowNumber: number; transaction: ParsedTransaction } | null> {
+  const sheetData = await sheets.spreadsheets.values.get({
+    spreadsheetId,
+    range: `${TRANSACTIONS_TAB}!A2:L`,
+  });
+
+  const rows = sheetData.data.values || [];
+  const index = rows.findIndex(row => row[6] === referenceNumber);
+  if (index === -1) return null;
+
+  return { rowNumber: index + 2, transaction: rowToTransaction(rows[index]) };
+}
+
+/**
+ * Remove one row from the Transactions sheet, shifting the rows below it up
+ */
+export async function deleteTransactionRow(
+  sheets: SheetsClient,
+  spreadsheetId: string,
+  rowNumber: number
+): Promise<void> {
+  const spreadsheet = await sheets.spreadsheets.get({
+    spreadsheetId,
+    fields: 'sheets.properties',
+  });
+
+  const tab = spreadsheet.data.sheets?.find(sheet => sheet.properties?.title === TRANSACTIONS_TAB);
+  if (tab?.properties?.sheetId === undefined || tab.properties.sheetId === null) {
+    throw new Error(`${TRANSACTIONS_TAB} tab not found`);
+  }
+
+  await sheets.spreadsheets.batchUpdate({
+    spreadsheetId,
+    requestBody: {
+      requests: [{
+        deleteDimension: {
+          range: {
+            sheetId: tab.properties.sheetId,
+            dimension: 'ROWS',
+            startIndex: rowNumber - 1,
+            endIndex: rowNumber,
+          },
+        },
+      }],
+    },
+  });
+}
@@ -0,0 +1,133 @@
+/**
+ * Internal Transfer Detection
+ * Money moved between a user's own accounts arrives as a debit on one and a
+ * credit on the other. Such pairs are marked with a shared transferId so
+ * totals can leave both sides out.
+ */
+
+import crypto from 'crypto';
+import type { ParsedTransaction } from './email-parser';
+import { extractVpa } from './categorizer';
+import { parseTransactionDateTime } from './transaction-dates';
+
+// Set by the user on a wrongly marked pair so detection leaves it alone
+export const NOT_A_TRANSFER = '-';
+
+export interface TransferOptions {
+  // Instant transfers (UPI, IMPS, own-account fund transfers) land within minutes
+  windowMinutes: number;
+  // Card bill payments and NEFT can take days; allowed when a side points at the other
+  hintedWindowMinutes: number;
+  // The user's own VPAs, e.g. name@okhdfcbank
+  selfVpas: string[];
+}
+
+export const DEFAULT_TRANSFER_OPTIONS: TransferOptions = {
+  windowMinutes: 30,
+  hintedWindowMinutes: 3 * 24 * 60,
+  selfVpas: [],
+};
+
+export interface TransferPair {
+  transferId: string;
+  debit: ParsedTransaction;
+  credit: ParsedTransaction;
+  minutesApart: number;
+}
+
+/**
+ * Whether a transaction is one side of an internal transfer
+ */
+export function isTransfer(transaction: ParsedTransaction): boolean {
+  return !!transaction.transferId && transaction.transferId !== NOT_A_TRANSFER;
+}
+
+/**
+ * Stable id for a pair, so re-detection gives the same mark
+ */
+export function transferIdFor(debit: ParsedTransaction, credit: ParsedTransaction): string {
+  const hash = crypto
+    .createHash('sha1')
+    .update(`${debit.referenceNumber}|${credit.referenceNumber}`)
+    .digest('hex')
+    .slice(0, 12);
+  return `TRF_${hash}`;
+}
+
+/**
+ * Whether either side names the other: the other account's last four digits,
+ * a card bill payment landing on a card, or one of the user's own VPAs
+ */
+function pointsAtEachOther(debit: ParsedTransaction, credit: ParsedTransaction, selfVpas: Set<string>): boolean {
+  const mentions = (transaction: ParsedTransaction, last4: string) =>
+    new RegExp(`(?:^|\\D)${last4}(?:\\D|$)`).test(`${transaction.description} ${transaction.notes}`);
+
+  if (mentions(debit, credit.account) || mentions(credit, debit.account)) return true;
+  if (credit.method === 'Credit Card' && /credit card|\bcc\b|card payment|bill ?pay/i.test(debit.description)) return true;
+
+  return [debit, credit].some(transaction => {
+    const vpa = extractVpa(transaction.description);
+    return !!vpa && selfVpas.has(vpa);
+  });
+}
+
+/**
+ * Pair debits with credits of the same amount on a different one of the user's
+ * accounts. Pairs must land within windowMinutes, or hintedWindowMinutes when
+ * one side points at the other. Each transaction joins at most one pair, the
+ * closest in time; transactions already marked (or unmarked by the user) are
+ * skipped.
+ */
+export function detectTransfers(
+  transactions: ParsedTransaction[],
+  overrides: Partial<TransferOptions> = {}
+): TransferPair[] {
+  const options = { ...DEFAULT_TRANSFER_OPTIONS, ...overrides };
+  const selfVpas = new Set(options.selfVpas.map(vpa => vpa.toLowerCase()));
+
+  const open = transactions
+    .filter(transaction => !transaction.transferId && transaction.account)
+    .map(transaction => ({ transaction, date: parseTransactionDateTime(transaction.dateTime) }))
+    .filter((entry): entry is { transaction: ParsedTransaction; date: Date } => !!entry.date);
+
+  const debits = open.filter(entry => entry.transaction.type === 'Debit');
+  const credits = open.filter(entry => entry.transaction.type === 'Credit');
+
+  const candidates: { debit: ParsedTransaction; credit: ParsedTransaction; minutesApart: number }[] = [];
+  for (const debit of debits) {
+    for (const credit of credits) {
+      if (debit.transaction.account === credit.transaction.account) continue;
+      if (Math.abs(debit.transaction.amount - credit.transaction.amount) >= 0.01) continue;
+
+      const minutesApart = Math.abs(debit.date.getTime() - credit.date.getTime()) / 60000;
+      const window = pointsAtEachOther(debit.transaction, credit.transaction, selfVpas)
+        ? options.hintedWindowMinutes
+        : options.windowMinutes;
+      if (minutesApart > window) continue;
+
+      candidates.push({ debit: debit.transaction, credit: credit.transaction, minutesApart });
+    }
+  }
+
+  const paired = new Set<ParsedTransaction>();
+  const pairs: TransferPair[] = [];
+
+  for (const candidate of candidates.sort((a, b) => a.minutesApart - b.minutesApart)) {
+    if (paired.has(candidate.debit) || paired.has(candidate.credit)) continue;
+    paired.add(candidate.debit);
+    paired.add(candidate.credit);
+    pairs.push({ transferId: transferIdFor(candidate.debit, candidate.credit), ...candidate });
+  }
+
+  return pairs;
+}
+
+/**
+ * The transactions of each pair with their transferId set, ready to write back
+ */
+export function markTransfers(pairs: TransferPair[]): ParsedTransaction[] {
+  return pairs.flatMap(pair => [
+    { ...pair.debit, transferId: pair.transferId },
+    { ...pair.credit, transferId: pair.transferId },
+  ]);
+}
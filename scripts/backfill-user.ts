@@ -0,0 +1,59 @@
+/**
+ * Script to import a user's historical bank emails
+ * Processes the date range in chunks and can be resumed if interrupted
+ * Run with: npx tsx scripts/backfill-user.ts <email> <from> <to> [chunkDays]
+ * Resume:   npx tsx scripts/backfill-user.ts <email>
+ */
+
+import { config } from 'dotenv';
+import { createClient } from '@supabase/supabase-js';
+import { backfillUser } from '../cron-service';
+
+config({ path: '.env' });
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+async function runBackfill(email: string, from?: string, to?: string, chunkDays?: string) {
+  console.log('📚 Starting backfill...\n');
+
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('id')
+    .eq('google_email', email)
+    .single();
+
+  if (error || !user) {
+    console.error(`❌ User not found: ${email}`);
+    return;
+  }
+
+  const options = from && to
+    ? { from: new Date(from), to: new Date(to), chunkDays: chunkDays ? parseInt(chunkDays, 10) : undefined }
+    : {};
+
+  if (options.from && (isNaN(options.from.getTime()) || isNaN(options.to!.getTime()))) {
+    console.error('❌ Invalid date range. Use YYYY-MM-DD.');
+    return;
+  }
+
+  const state = await backfillUser(user.id, options);
+
+  if (state.status === 'completed') {
+    console.log(`✅ Backfill completed for: ${email}`);
+  } else {
+    console.log(`❌ Backfill stopped at ${state.cursor}: ${state.error}`);
+    console.log('   Run again with only the email to resume.');
+  }
+  console.log(`   Transactions: ${state.transactions}, missed: ${state.missed}`);
+}
+
+const [email, from, to, chunkDays] = process.argv.slice(2);
+
+if (!email) {
+  console.error('Usage: npx tsx scripts/backfill-user.ts <email> [from] [to] [chunkDays]');
+  process.exit(1);
+}
+
+runBackfill(email, from, to, chunkDays).catch(console.error);
@@ -0,0 +1,105 @@
+/**
+ * Script to turn a missed email into a parser regression fixture
+ * Fetches the full message from Gmail when possible, otherwise uses the stored snippet
+ * List missed emails: npx tsx scripts/create-parser-fixture.ts <email>
+ * Create fixture:     npx tsx scripts/create-parser-fixture.ts <email> <email_id> [fixture-name]
+ */
+
+import { config } from 'dotenv';
+import { createClient } from '@supabase/supabase-js';
+import { decrypt } from '../lib/encryption';
+import { extractBody, getHeader } from '../lib/mime';
+import { refreshAccessToken, createGoogleClients } from '../lib/google-auth';
+import { parseHDFCEmail, isHDFCTransactionEmail } from '../lib/email-parser';
+import { writeFixture, type ParserFixture } from '../lib/parser-fixtures';
+
+config({ path: '.env' });
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+async function fetchFullEmail(encryptedRefreshToken: string, emailId: string) {
+  try {
+    const accessToken = await refreshAccessToken(decrypt(encryptedRefreshToken));
+    if (!accessToken) return null;
+
+    const { gmail } = createGoogleClients(accessToken);
+    const msg = (await gmail.users.messages.get({ userId: 'me', id: emailId, format: 'full' })).data;
+
+    return {
+      from: getHeader(msg.payload?.headers, 'from'),
+      subject: getHeader(msg.payload?.headers, 'subject'),
+      body: extractBody(msg.payload),
+    };
+  } catch (error) {
+    console.warn(`⚠️  Could not fetch full email from Gmail: ${(error as Error).message}`);
+    return null;
+  }
+}
+
+async function createFixture(email: string, emailId?: string, name?: string) {
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('google_refresh_token, missed_emails')
+    .eq('google_email', email)
+    .single();
+
+  if (error || !user) {
+    console.error(`❌ User not found: ${email}`);
+    return;
+  }
+
+  const missedEmails: any[] = user.missed_emails || [];
+
+  if (!emailId) {
+    console.log(`📭 ${missedEmails.length} missed email(s) for ${email}:\n`);
+    for (const missed of missedEmails) {
+      console.log(`   ${missed.email_id}  ${missed.received_date}  ${missed.subject}`);
+    }
+    return;
+  }
+
+  const missed = missedEmails.find(m => m.email_id === emailId);
+  if (!missed) {
+    console.error(`❌ No missed email with id ${emailId}`);
+    return;
+  }
+
+  const full = await fetchFullEmail(user.google_refresh_token, emailId);
+  if (!full) {
+    console.log('   Falling back to the stored 200-character snippet');
+  }
+
+  const from = full?.from || missed.from;
+  const subject = full?.subject || missed.subject;
+  const body = full?.body || missed.body_snippet;
+  const result = parseHDFCEmail(body, subject, missed.received_date, emailId);
+
+  const fixture: ParserFixture = {
+    description: subject,
+    email: {
+      from,
+      subject,
+      body,
+      receivedDate: missed.received_date,
+      emailId,
+    },
+    isTransaction: isHDFCTransactionEmail(from, subject, body),
+    expected: result.success ? result.transaction : null,
+    todo: 'Anonymise names, VPAs and account digits, then set the expected transaction and remove this field',
+  };
+
+  const filePath = writeFixture(name || `missed-${emailId}`, fixture);
+  console.log(`✅ Fixture written: ${filePath}`);
+  console.log(`   Current parser result: ${result.success ? 'parsed' : result.error}`);
+}
+
+const [email, emailId, name] = process.argv.slice(2);
+
+if (!email) {
+  console.error('Usage: npx tsx scripts/create-parser-fixture.ts <email> [email_id] [fixture-name]');
+  process.exit(1);
+}
+
+createFixture(email, emailId, name).catch(console.error);
@@ -0,0 +1,52 @@
+/**
+ * Script to retry missed emails after parser improvements
+ * Recovered transactions are appended to the sheet and removed from missed_emails
+ * Run with: npx tsx scripts/reprocess-missed.ts <email>
+ * Or all active users: npx tsx scripts/reprocess-missed.ts
+ */
+
+import { config } from 'dotenv';
+import { createClient } from '@supabase/supabase-js';
+import { reprocessMissedEmails } from '../cron-service';
+
+config({ path: '.env' });
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+async function reprocessMissed(email?: string) {
+  console.log('♻️  Reprocessing missed emails...\n');
+
+  let query = supabase.from('users').select('id, google_email').eq('is_active', true);
+  if (email) {
+    query = query.eq('google_email', email);
+  }
+
+  const { data: users, error } = await query;
+
+  if (error) {
+    console.error('❌ Error:', error.message);
+    return;
+  }
+
+  if (!users || users.length === 0) {
+    console.log(email ? `❌ User not found: ${email}` : 'No active users');
+    return;
+  }
+
+  for (const user of users) {
+    try {
+      const result = await reprocessMissedEmails(user.id);
+      console.log(`✅ ${user.google_email}: recovered ${result.recovered.length}, duplicates ${result.duplicates.length}, still failing ${result.stillFailing.length}`);
+      for (const failing of result.stillFailing) {
+        console.log(`   ${failing.email_id}: ${failing.error}`);
+      }
+    } catch (userError) {
+      console.error(`❌ ${user.google_email}: ${(userError as Error).message}`);
+    }
+  }
+}
+
+const email = process.argv[2];
+reprocessMissed(email).catch(console.error);
@@ -0,0 +1,45 @@
+/**
+ * Script to re-encrypt stored Google refresh tokens under the current key
+ * Add the new key first in ENCRYPTION_KEYS and keep the old ones listed until this has run
+ * Run with: npx tsx scripts/rotate-encryption-key.ts [--dry-run]
+ */
+
+import { config } from 'dotenv';
+import { createClient } from '@supabase/supabase-js';
+import { loadKeyring } from '../lib/encryption';
+import { rotateRefreshTokens } from '../lib/key-rotation';
+
+config({ path: '.env' });
+
+const SUPABASE_URL = process.env.NEXT_PUBLIC_SUPABASE_URL!;
+const SUPABASE_SERVICE_KEY = process.env.SUPABASE_SERVICE_ROLE_KEY!;
+const supabase = createClient(SUPABASE_URL, SUPABASE_SERVICE_KEY);
+
+async function rotateKeys(dryRun: boolean) {
+  const { current, keys } = loadKeyring();
+  console.log(`🔐 Re-encrypting refresh tokens under key "${current.id}"${dryRun ? ' (dry run)' : ''}`);
+  console.log(`   Keys available for decryption: ${keys.map(key => key.id).join(', ')}, plus legacy\n`);
+
+  let result;
+  try {
+    result = await rotateRefreshTokens(supabase, { dryRun });
+  } catch (error) {
+    console.error('❌ Error:', (error as Error).message);
+    return;
+  }
+
+  for (const failure of result.failed) {
+    console.error(`❌ ${failure.email}: ${failure.error}`);
+  }
+
+  console.log(`📊 Tokens by key before rotation: ${Array.from(result.byKey.entries()).map(([id, n]) => `${id}=${n}`).join(', ') || 'none'}`);
+  console.log(`✅ ${dryRun ? 'Would re-encrypt' : 'Re-encrypted'} ${result.rotated}, already current ${result.current}, failed ${result.failed.length}`);
+  if (result.failed.length > 0) {
+    console.log('   Failed tokens were not touched. Add the missing key to ENCRYPTION_KEYS and run again.');
+  } else if (!dryRun) {
+    console.log('   Old keys can now be removed from ENCRYPTION_KEYS.');
+  }
+}
+
+const dryRun = process.argv.includes('--dry-run');
+rotateKeys(dryRun).catch(console.error);
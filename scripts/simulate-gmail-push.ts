@@ -0,0 +1,44 @@
+/**
+ * Script to send the server a Gmail push notification as Pub/Sub would,
+ * for trying push syncs locally without a Pub/Sub subscription
+ * Run with: npx tsx scripts/simulate-gmail-push.ts <email> [historyId]
+ */
+
+import { config } from 'dotenv';
+import { buildPushNotification } from '../lib/gmail-watch';
+
+config({ path: '.env' });
+
+const PORT = process.env.PORT || 3001;
+const BACKEND_URL = process.env.BACKEND_URL || `http://localhost:${PORT}`;
+const GMAIL_PUSH_TOKEN = process.env.GMAIL_PUSH_TOKEN;
+
+async function simulatePush(emailAddress: string, historyId: string) {
+  if (!GMAIL_PUSH_TOKEN) {
+    console.error('❌ GMAIL_PUSH_TOKEN is not set');
+    process.exit(1);
+  }
+
+  console.log(`📬 Sending push notification for ${emailAddress} (historyId ${historyId})...`);
+
+  const response = await fetch(`${BACKEND_URL}/api/gmail/push?token=${encodeURIComponent(GMAIL_PUSH_TOKEN)}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(buildPushNotification({ emailAddress, historyId })),
+  });
+
+  if (!response.ok) {
+    console.error(`❌ Server responded ${response.status}: ${await response.text()}`);
+    process.exit(1);
+  }
+
+  console.log(`✅ Server responded ${response.status}; check the server logs for the queued sync`);
+}
+
+const [email, historyId] = process.argv.slice(2);
+if (!email) {
+  console.error('Usage: npx tsx scripts/simulate-gmail-push.ts <email> [historyId]');
+  process.exit(1);
+}
+
+simulatePush(email.toLowerCase(), historyId || String(Date.now()));
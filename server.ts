@@ -3,43 +3,262 @@
  * Provides webhook endpoint for triggering transaction syncs
  */
 
+import crypto from 'crypto';
 import express from 'express';
 import cors from 'cors';
 import { config } from 'dotenv';
-import { runCron } from './cron-service';
+import { createClient } from '@supabase/supabase-js';
+import {
+  runCron,
+  startBackfill,
+  reprocessMissedEmails,
+  recategorizeTransactions,
+  addManualTransaction,
+  updateManualTransaction,
+  deleteManualTransaction,
+  getSyncStatus,
+  triggerUserSync,
+  listUserTransactions,
+  getBudgetStatus,
+  detectUserRecurringPayments,
+  resolveDuplicate,
+  importStatement,
+  getAccountOverview,
+  getAccountBalances,
+  getCreditCardSummary,
+  detectUserTransfers,
+  listUserTransfers,
+  unmarkTransfer,
+  handleGmailPush,
+} from './cron-service';
+import { getBankParsers } from './lib/bank-registry';
+import { DEFAULT_RULES, validateCategoryRule } from './lib/categorizer';
+import { validateManualTransaction, isManualReference } from './lib/manual-transactions';
+import { validateBudget } from './lib/budgets';
+import { validateResolution } from './lib/reconciliation';
+import { validateAccountLabel } from './lib/accounts';
+import { getJobs, isUserBusyError, summariseJobs } from './lib/job-queue';
+import { TRANSACTION_SINKS } from './lib/transaction-store';
+import {
+  authenticate,
+  checkApiSecret,
+  createApiToken,
+  hasAccess,
+  listApiTokens,
+  revokeApiToken,
+  validateApiTokenRequest,
+  type ApiScope,
+  type AuthOptions,
+  type AuthPrincipal,
+} from './lib/auth';
+import { createRateLimiter, RATE_LIMITS } from './lib/rate-limit';
+import { bodyErrors, checkBody, type BodySchema } from './lib/request-schema';
+import { buildAuditEntry, parseAuditFilter, queryAuditLog, recordAudit } from './lib/audit';
+import { parsePushNotification, verifyPushToken } from './lib/gmail-watch';
+import { isStatementError } from './lib/statement-parser';
+import { clearReauth, countUsersByTokenState, listUsersByTokenState, TOKEN_STATES, type TokenState } from './lib/token-health';
+import {
+  ANALYTICS_SECTIONS,
+  createAnalyticsCache,
+  parseAnalyticsFilter,
+  type AnalyticsSection,
+} from './lib/analytics';
+import {
+  startEventPoller,
+  pruneEvents,
+  createStreamToken,
+  streamPrincipal,
+  verifyStreamToken,
+  type SyncEvent,
+} from './lib/events';
+import { logger, runWithLogContext } from './lib/logger';
+import { getRun, listRuns, loadMetricSeries, renderMetrics } from './lib/metrics';
 
 // Load .env file if it exists (local development)
 // In Docker, environment variables are injected by docker-compose
 config({ path: '.env' });
 
+const log = logger.child({ service: 'api' });
+
 const app = express();
 const PORT = process.env.PORT || 3003;
-const API_SECRET = process.env.API_SECRET || 'your-secret-key-here';
 
-// Middleware
+let API_SECRET: string;
+try {
+  API_SECRET = checkApiSecret(process.env.API_SECRET);
+} catch (secretError) {
+  log.error('Refusing to start', { error: (secretError as Error).message });
+  process.exit(1);
+}
+
+const authOptions: AuthOptions = { apiSecret: API_SECRET, jwtSecret: process.env.SUPABASE_JWT_SECRET };
+
+// Shared secret in the Pub/Sub push endpoint URL; the push route is disabled without it
+const GMAIL_PUSH_TOKEN = process.env.GMAIL_PUSH_TOKEN;
+
+const supabase = createClient(process.env.NEXT_PUBLIC_SUPABASE_URL!, process.env.SUPABASE_SERVICE_ROLE_KEY!);
+
+// Loaded transactions and computed analytics, reused until the user's next sync
+const analyticsCache = createAnalyticsCache();
+const rateLimiter = createRateLimiter();
+
+// Routes that read Gmail get the stricter sync limit
+const SYNC_ROUTES = new Set([
+  'POST /api/trigger-sync',
+  'POST /api/users/:id/sync',
+  'POST /api/users/:id/backfill',
+  'POST /api/users/:id/reprocess-missed',
+  'POST /api/users/:id/reconnected',
+]);
+
+// Middleware - browsers may only call from the configured frontend (comma-separated origins)
 app.use(cors({
-  origin: process.env.FRONTEND_URL || '*',
+  origin: process.env.FRONTEND_URL ? process.env.FRONTEND_URL.split(',').map(origin => origin.trim()) : false,
   credentials: true,
 }));
 app.use(express.json());
 
-// Authentication middleware
-const authenticateRequest = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+// Every log line written while handling a request carries its id
+app.use((req, res, next) => {
+  const header = req.headers['x-request-id'];
+  const requestId = typeof header === 'string' && /^[\w-]{1,64}$/.test(header) ? header : crypto.randomUUID();
+  res.setHeader('X-Request-Id', requestId);
+  res.locals.requestId = requestId;
+  runWithLogContext({ requestId, method: req.method, path: req.path }, next);
+});
+
+// Audit every authenticated call once its response has been sent
+app.use((req, res, next) => {
+  const started = Date.now();
+  res.on('finish', () => {
+    const principal: AuthPrincipal | undefined = res.locals.principal;
+    if (!principal) return;
+
+    const entry = buildAuditEntry(principal, {
+      requestId: res.locals.requestId,
+      method: req.method,
+      route: req.route ? `${req.baseUrl}${req.route.path}` : req.path,
+      targetUserId: res.locals.targetUserId,
+      status: res.statusCode,
+      durationMs: Date.now() - started,
+      ip: req.ip,
+    });
+    recordAudit(supabase, entry).catch(error => log.warn('Could not write audit log', { error }));
+  });
+  next();
+});
+
+// Authentication middleware - identifies the caller; routes then check what it may access
+const authenticateRequest = async (req: express.Request, res: express.Response, next: express.NextFunction) => {
   const authHeader = req.headers.authorization;
 
   if (!authHeader || !authHeader.startsWith('Bearer ')) {
-    return res.status(401).json({ error: 'Unauthorized: Missing or invalid token' });
+    return res.status(401).json({ success: false, error: 'Unauthorized: Missing or invalid token' });
   }
 
-  const token = authHeader.substring(7);
+  let principal: AuthPrincipal | null;
+  try {
+    principal = await authenticate(supabase, authHeader.substring(7), authOptions);
+  } catch (error) {
+    log.error('Error authenticating request', { error });
+    return res.status(500).json({ success: false, error: 'Authentication unavailable' });
+  }
+
+  if (!principal) {
+    return res.status(403).json({ success: false, error: 'Forbidden: Invalid or expired credentials' });
+  }
+
+  res.locals.principal = principal;
+  next();
+};
+
+function principalOf(res: express.Response): AuthPrincipal {
+  return res.locals.principal;
+}
+
+function callerKey(principal: AuthPrincipal): string {
+  if (principal.kind === 'service') return 'service';
+  if (principal.kind === 'session') return `session:${principal.userId}`;
+  return principal.tokenId ? `token:${principal.tokenId}` : `stream:${principal.userId}`;
+}
+
+// Take a token from the caller's bucket for this route (and target user)
+const rateLimit = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const route = `${req.method} ${req.baseUrl}${req.route?.path ?? req.path}`;
+  const limit = SYNC_ROUTES.has(route) ? RATE_LIMITS.sync : RATE_LIMITS.default;
+  const result = rateLimiter.take(`${callerKey(principalOf(res))}|${route}|${req.params.id ?? ''}`, limit);
+
+  res.setHeader('RateLimit-Limit', limit.capacity);
+  res.setHeader('RateLimit-Remaining', result.remaining);
+  if (!result.allowed) {
+    const retryAfter = Math.ceil(result.retryAfterMs / 1000);
+    res.setHeader('Retry-After', retryAfter);
+    return res.status(429).json({ success: false, error: 'Too many requests', retryAfter });
+  }
+  next();
+};
 
-  if (token !== API_SECRET) {
-    return res.status(403).json({ error: 'Forbidden: Invalid API secret' });
+// EventSource cannot send headers, so an event stream authenticates with a query token
+// from /stream-token. It stands for read access to that one user.
+const authenticateStreamToken = (req: express.Request, res: express.Response, next: express.NextFunction) => {
+  const token = typeof req.query.token === 'string' ? req.query.token : '';
+  if (!verifyStreamToken(token, req.params.id, API_SECRET)) {
+    return res.status(403).json({ success: false, error: 'Forbidden: Invalid or expired stream token' });
   }
 
+  res.locals.principal = streamPrincipal(req.params.id);
   next();
 };
 
+// Authenticate, let the request through only if allowed(principal, req), then rate limit it
+function authorize(
+  allowed: (principal: AuthPrincipal, req: express.Request) => boolean,
+  denied: string,
+  identify: express.RequestHandler = authenticateRequest
+): express.RequestHandler {
+  return (req, res, next) => identify(req, res, () => {
+    if (!allowed(principalOf(res), req)) {
+      return res.status(403).json({ success: false, error: `Forbidden: ${denied}` });
+    }
+    rateLimit(req, res, next);
+  });
+}
+
+// Reject bodies that do not match the schema, listing every problem
+function validateBody(schema: BodySchema): express.RequestHandler {
+  return (req, res, next) => {
+    const errors = checkBody(schema, req.body);
+    if (errors.length > 0) {
+      return res.status(400).json({ success: false, ...bodyErrors(errors) });
+    }
+    next();
+  };
+}
+
+// Routes any authenticated caller may use; they scope what they return themselves
+const anyCaller = authorize(() => true, 'Requires authentication');
+
+// Routes across all users - only the API_SECRET caller
+const requireService = authorize(principal => principal.kind === 'service', 'Requires the service credential');
+
+// Routes under /api/users/:id - the caller must own the user and hold one of the scopes
+function forUser(...scopes: ApiScope[]): express.RequestHandler {
+  const check = authorize(
+    (principal, req) => scopes.some(scope => hasAccess(principal, req.params.id, scope)),
+    `Requires ${scopes.join(' or ')} access to this user`
+  );
+  return (req, res, next) => {
+    res.locals.targetUserId = req.params.id;
+    check(req, res, next);
+  };
+}
+
+// Token management needs the user's own session (or the service), so a token cannot mint or revoke tokens
+const forTokenOwner = authorize(
+  (principal, req) => principal.kind !== 'token' && hasAccess(principal, req.params.id, 'write'),
+  'API tokens are managed from a signed-in session'
+);
+
 // Health check endpoint
 app.get('/health', (req, res) => {
   res.json({
@@ -49,21 +268,33 @@ app.get('/health', (req, res) => {
   });
 });
 
-// Webhook endpoint to trigger cron manually
-app.post('/api/trigger-sync', authenticateRequest, async (req, res) => {
-  console.log('📨 Manual sync triggered via API');
+// Prometheus metrics, cumulative over every cycle the cron worker has recorded
+app.get('/metrics', requireService, async (req, res) => {
+  try {
+    const series = await loadMetricSeries(supabase);
+    res.type('text/plain; version=0.0.4').send(renderMetrics(series));
+  } catch (error) {
+    log.error('Error loading metrics', { error });
+    res.status(500).type('text/plain').send('# metrics unavailable\n');
+  }
+});
+
+// Webhook endpoint to trigger cron manually - queues a job per user and returns immediately
+app.post('/api/trigger-sync', requireService, async (req, res) => {
+  log.info('Manual sync triggered');
 
   try {
     const result = await runCron();
 
-    res.json({
+    res.status(result.success ? 202 : 500).json({
       success: result.success,
-      message: result.success ? 'Sync completed successfully' : 'Sync failed',
+      message: result.success ? 'Sync queued' : 'Failed to queue sync',
+      jobId: result.batchId,
       data: result,
       timestamp: new Date().toISOString(),
     });
   } catch (error) {
-    console.error('Error during manual sync:', error);
+    log.error('Error during manual sync', { error });
     res.status(500).json({
       success: false,
       error: 'Internal server error',
@@ -72,28 +303,1111 @@ app.post('/api/trigger-sync', authenticateRequest, async (req, res) => {
   }
 });
 
-// Webhook endpoint to notify frontend cache to refresh
-app.post('/api/notify-update', authenticateRequest, async (req, res) => {
+// Status of a sync job, or of every job in a batch
+app.get('/api/jobs/:id', anyCaller, async (req, res) => {
+  if (!/^[0-9a-f-]{36}$/i.test(req.params.id)) {
+    return res.status(400).json({ success: false, error: 'Invalid job id' });
+  }
+
+  try {
+    // Users only see their own jobs in a batch
+    const principal = principalOf(res);
+    const jobs = (await getJobs(supabase, req.params.id))
+      .filter(job => hasAccess(principal, job.user_id, 'read') || hasAccess(principal, job.user_id, 'sync'));
+    if (jobs.length === 0) {
+      return res.status(404).json({ success: false, error: 'Job not found' });
+    }
+
+    res.json({ success: true, summary: summariseJobs(jobs), jobs });
+  } catch (error) {
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Past sync cycles, newest first
+app.get('/api/runs', requireService, async (req, res) => {
+  const limit = req.query.limit === undefined ? 20 : Number(req.query.limit);
+  if (!Number.isInteger(limit) || limit < 1 || limit > 500) {
+    return res.status(400).json({ success: false, error: 'limit must be an integer from 1 to 500' });
+  }
+
+  try {
+    res.json({ success: true, runs: await listRuns(supabase, limit) });
+  } catch (error) {
+    log.error('Error loading sync runs', { error });
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// One sync cycle with its jobs
+app.get('/api/runs/:id', requireService, async (req, res) => {
+  if (!/^[0-9a-f-]{36}$/i.test(req.params.id)) {
+    return res.status(400).json({ success: false, error: 'Invalid run id' });
+  }
+
+  try {
+    const [run, jobs] = await Promise.all([getRun(supabase, req.params.id), getJobs(supabase, req.params.id)]);
+    if (!run) {
+      return res.status(404).json({ success: false, error: 'Run not found' });
+    }
+
+    res.json({ success: true, run, jobs });
+  } catch (error) {
+    log.error('Error loading sync run', { error });
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Gmail push notifications, delivered by Pub/Sub (or scripts/simulate-gmail-push.ts).
+// Pub/Sub redelivers on anything but 2xx, so unusable notifications are acknowledged and dropped.
+app.post('/api/gmail/push', async (req, res) => {
+  if (!GMAIL_PUSH_TOKEN || !verifyPushToken(req.query.token, GMAIL_PUSH_TOKEN)) {
+    return res.status(403).json({ success: false, error: 'Forbidden: Invalid push token' });
+  }
+
+  const notification = parsePushNotification(req.body);
+  if (!notification) {
+    log.warn('Ignoring malformed Gmail push notification');
+    return res.status(204).end();
+  }
+
+  try {
+    const result = await handleGmailPush(notification);
+    log.info('Gmail push received', { historyId: notification.historyId, ...result });
+    res.status(204).end();
+  } catch (error) {
+    log.error('Error handling Gmail push', { error });
+    res.status(500).json({ success: false, error: 'Could not queue sync' });
+  }
+});
+
+// Audit log of authenticated calls, newest first
+app.get('/api/audit', requireService, async (req, res) => {
+  const { filter, error } = parseAuditFilter(req.query);
+  if (!filter) {
+    return res.status(400).json({ success: false, error });
+  }
+
+  try {
+    res.json({ success: true, entries: await queryAuditLog(supabase, filter) });
+  } catch (loadError) {
+    log.error('Error loading audit log', { error: loadError });
+    res.status(500).json({ success: false, error: (loadError as Error).message });
+  }
+});
+
+// Users by Google token state; without ?state= lists every user that is not ok
+app.get('/api/token-states', requireService, async (req, res) => {
+  const state = req.query.state as TokenState | undefined;
+  if (state !== undefined && !TOKEN_STATES.includes(state)) {
+    return res.status(400).json({ success: false, error: `state must be one of: ${TOKEN_STATES.join(', ')}` });
+  }
+
+  try {
+    res.json({
+      success: true,
+      counts: await countUsersByTokenState(supabase),
+      users: await listUsersByTokenState(supabase, state),
+    });
+  } catch (error) {
+    log.error('Error loading token states', { error });
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Called by the main app once the user has signed in with Google again - resumes syncing
+app.post('/api/users/:id/reconnected', forUser('write'), async (req, res) => {
+  try {
+    if (!(await clearReauth(supabase, req.params.id))) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+
+    log.info('User reconnected Google', { userId: req.params.id });
+    const sync = await triggerUserSync(req.params.id);
+    if (!sync?.job) {
+      return res.status(sync?.status || 404).json({ success: false, error: sync?.error || 'User not found' });
+    }
+
+    res.status(202).json({
+      success: true,
+      message: 'Syncing resumed',
+      jobId: sync.job.id,
+      batchId: sync.job.batch_id,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    log.error('Error resuming sync', { userId: req.params.id, error });
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Called after processing - returns the user's sync status so the caller can refresh
+// The target user is in the body, so access is checked once the body is known to be valid
+app.post('/api/notify-update', anyCaller, validateBody({
+  userId: { type: 'string', pattern: /^[0-9a-f-]{36}$/i, format: 'a user id' },
+  transactionCount: { type: 'integer', optional: true, min: 0 },
+}), async (req, res) => {
   const { userId, transactionCount } = req.body;
 
-  console.log(`📢 Update notification - User: ${userId}, Transactions: ${transactionCount}`);
+  res.locals.targetUserId = userId;
+  if (!hasAccess(principalOf(res), userId, 'read')) {
+    return res.status(403).json({ success: false, error: 'Forbidden: Requires read access to this user' });
+  }
+
+  log.info('Update notification', { userId, transactionCount });
+
+  const status = await getSyncStatus(userId);
+  if (!status) {
+    return res.status(404).json({ success: false, error: 'User not found' });
+  }
 
-  // This endpoint is called by cron service after processing
-  // Frontend can poll this or use WebSockets in future
   res.json({
     success: true,
     message: 'Notification received',
+    data: status,
     timestamp: new Date().toISOString(),
   });
 });
 
+// Sync a single user (queues a job and returns immediately)
+app.post('/api/users/:id/sync', forUser('sync'), async (req, res) => {
+  log.info('User sync triggered', { userId: req.params.id });
+
+  try {
+    const sync = await triggerUserSync(req.params.id);
+    if (!sync) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    if (!sync.job) {
+      return res.status(sync.status || 409).json({ success: false, error: sync.error });
+    }
+
+    res.status(202).json({
+      success: true,
+      message: sync.queued ? 'Sync queued' : 'Sync already queued or running',
+      jobId: sync.job.id,
+      batchId: sync.job.batch_id,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    log.error('Error queueing user sync', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to queue sync',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Sync status for a single user
+app.get('/api/users/:id/sync-status', forUser('read', 'sync'), async (req, res) => {
+  const status = await getSyncStatus(req.params.id);
+  if (!status) {
+    return res.status(404).json({ success: false, error: 'User not found' });
+  }
+
+  res.json({ success: true, data: status, timestamp: new Date().toISOString() });
+});
+
+// A user's API tokens (without the secrets)
+app.get('/api/users/:id/tokens', forTokenOwner, async (req, res) => {
+  try {
+    res.json({ success: true, tokens: await listApiTokens(supabase, req.params.id) });
+  } catch (error) {
+    log.error('Error loading API tokens', { error });
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// Issue a scoped API token - the token is only ever returned here
+app.post('/api/users/:id/tokens', forTokenOwner, async (req, res) => {
+  const { request, error, details } = validateApiTokenRequest(req.body);
+  if (!request) {
+    return res.status(400).json({ success: false, error, details });
+  }
+
+  try {
+    const { token, apiToken } = await createApiToken(supabase, req.params.id, request);
+    log.info('API token created', { userId: req.params.id, tokenId: apiToken.id, scopes: apiToken.scopes });
+    res.status(201).json({ success: true, token, apiToken });
+  } catch (createError) {
+    log.error('Error creating API token', { error: createError });
+    res.status(500).json({ success: false, error: (createError as Error).message });
+  }
+});
+
+// Revoke an API token
+app.delete('/api/users/:id/tokens/:tokenId', forTokenOwner, async (req, res) => {
+  if (!/^[0-9a-f-]{36}$/i.test(req.params.tokenId)) {
+    return res.status(400).json({ success: false, error: 'Invalid token id' });
+  }
+
+  try {
+    if (!(await revokeApiToken(supabase, req.params.id, req.params.tokenId))) {
+      return res.status(404).json({ success: false, error: 'Token not found or already revoked' });
+    }
+
+    log.info('API token revoked', { userId: req.params.id, tokenId: req.params.tokenId });
+    res.json({ success: true });
+  } catch (error) {
+    log.error('Error revoking API token', { error });
+    res.status(500).json({ success: false, error: (error as Error).message });
+  }
+});
+
+// List supported banks
+app.get('/api/banks', anyCaller, (req, res) => {
+  res.json({
+    success: true,
+    banks: getBankParsers().map(p => ({ id: p.id, name: p.name, senders: p.senders })),
+  });
+});
+
+// Choose which banks are synced for a user
+app.put('/api/users/:id/banks', forUser('write'), validateBody({
+  banks: { type: 'array', items: { type: 'string', maxLength: 50 }, minItems: 1, maxItems: 50 },
+}), async (req, res) => {
+  const { banks } = req.body;
+  const knownIds = getBankParsers().map(p => p.id);
+
+  const unknown = banks.filter((b: string) => !knownIds.includes(b.toLowerCase()));
+  if (unknown.length > 0) {
+    return res.status(400).json({ success: false, error: `Unknown banks: ${unknown.join(', ')}` });
+  }
+
+  const enabledBanks = Array.from(new Set(banks.map((b: string) => b.toLowerCase())));
+  const { data, error } = await supabase
+    .from('users')
+    .update({ enabled_banks: enabledBanks })
+    .eq('id', req.params.id)
+    .select('id, enabled_banks');
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+  if (!data || data.length === 0) {
+    return res.status(404).json({ success: false, error: 'User not found' });
+  }
+
+  res.json({ success: true, data: data[0] });
+});
+
+// Choose where a user's transactions are stored: their sheet, the database, or both
+app.put('/api/users/:id/sink', forUser('write'), validateBody({
+  sink: { type: 'string', pattern: new RegExp(`^(${TRANSACTION_SINKS.join('|')})$`), format: `one of: ${TRANSACTION_SINKS.join(', ')}` },
+}), async (req, res) => {
+  const { data, error } = await supabase
+    .from('users')
+    .update({ transaction_sink: req.body.sink })
+    .eq('id', req.params.id)
+    .select('id, transaction_sink, google_sheet_id');
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+  if (!data || data.length === 0) {
+    return res.status(404).json({ success: false, error: 'User not found' });
+  }
+
+  res.json({ success: true, data: data[0] });
+});
+
+// Start a historical import for a user (runs in the background)
+app.post('/api/users/:id/backfill', forUser('sync'), validateBody({
+  from: { type: 'date', optional: true },
+  to: { type: 'date', optional: true },
+  chunkDays: { type: 'integer', optional: true, min: 1, max: 365 },
+}), async (req, res) => {
+  const { from, to, chunkDays } = req.body;
+  const resume = from === undefined && to === undefined;
+
+  const fromDate = new Date(from);
+  const toDate = new Date(to);
+  if (!resume && (isNaN(fromDate.getTime()) || isNaN(toDate.getTime()) || fromDate >= toDate)) {
+    return res.status(400).json({ success: false, error: 'from and to must be valid dates with from before to' });
+  }
+
+  log.info('Backfill triggered', { userId: req.params.id });
+
+  try {
+    const started = await startBackfill(req.params.id, resume ? {} : { from: fromDate, to: toDate, chunkDays });
+    if (!started) {
+      return res.status(404).json({ success: false, error: 'User not found' });
+    }
+    if (!started.finished) {
+      return res.status(started.status || 409).json({ success: false, error: started.error });
+    }
+
+    started.finished.catch(error => log.error('Error during backfill', { userId: req.params.id, error }));
+
+    res.status(202).json({
+      success: true,
+      message: resume ? 'Backfill resumed' : 'Backfill started',
+      data: started.state,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    log.error('Error starting backfill', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to start backfill',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Backfill progress for a user
+app.get('/api/users/:id/backfill', forUser('read', 'sync'), async (req, res) => {
+  const { data, error } = await supabase
+    .from('users')
+    .select('backfill_state')
+    .eq('id', req.params.id)
+    .single();
+
+  if (error || !data) {
+    return res.status(404).json({ success: false, error: 'User not found' });
+  }
+
+  res.json({ success: true, data: data.backfill_state });
+});
+
+// Retry a user's missed emails with the current parsers
+app.post('/api/users/:id/reprocess-missed', forUser('sync'), async (req, res) => {
+  log.info('Missed email reprocessing triggered', { userId: req.params.id });
+
+  try {
+    const result = await reprocessMissedEmails(req.params.id);
+    analyticsCache.invalidate(req.params.id);
+
+    res.json({
+      success: true,
+      message: `Recovered ${result.recovered.length} transaction(s), ${result.stillFailing.length} still failing`,
+      data: result,
+      timestamp: new Date().toISOString(),
+    });
+  } catch (error) {
+    log.error('Error during missed email reprocessing', { error });
+    // A busy user can retry once the running sync has finished
+    res.status(isUserBusyError(error) ? 409 : 500).json({
+      success: false,
+      error: 'Reprocessing failed',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// List a user's category rules along with the built-in defaults
+app.get('/api/users/:id/category-rules', forUser('read'), async (req, res) => {
+  const { data, error } = await supabase
+    .from('category_rules')
+    .select('*')
+    .eq('user_id', req.params.id)
+    .order('priority', { ascending: true });
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+
+  res.json({ success: true, rules: data, defaults: DEFAULT_RULES });
+});
+
+// Create a category rule
+app.post('/api/users/:id/category-rules', forUser('write'), async (req, res) => {
+  const { rule, error: validationError, details } = validateCategoryRule(req.body);
+  if (!rule) {
+    return res.status(400).json({ success: false, error: validationError, details });
+  }
+
+  const { data, error } = await supabase
+    .from('category_rules')
+    .insert({ ...rule, user_id: req.params.id })
+    .select()
+    .single();
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+
+  res.status(201).json({ success: true, rule: data });
+});
+
+// Replace a category rule
+app.put('/api/users/:id/category-rules/:ruleId', forUser('write'), async (req, res) => {
+  const { rule, error: validationError, details } = validateCategoryRule(req.body);
+  if (!rule) {
+    return res.status(400).json({ success: false, error: validationError, details });
+  }
+
+  const { data, error } = await supabase
+    .from('category_rules')
+    .update(rule)
+    .eq('id', req.params.ruleId)
+    .eq('user_id', req.params.id)
+    .select();
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+  if (!data || data.length === 0) {
+    return res.status(404).json({ success: false, error: 'Rule not found' });
+  }
+
+  res.json({ success: true, rule: data[0] });
+});
+
+// Delete a category rule
+app.delete('/api/users/:id/category-rules/:ruleId', forUser('write'), async (req, res) => {
+  const { data, error } = await supabase
+    .from('category_rules')
+    .delete()
+    .eq('id', req.params.ruleId)
+    .eq('user_id', req.params.id)
+    .select();
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+  if (!data || data.length === 0) {
+    return res.status(404).json({ success: false, error: 'Rule not found' });
+  }
+
+  res.json({ success: true });
+});
+
+// Re-run category rules over existing sheet rows
+app.post('/api/users/:id/category-rules/apply', forUser('write'), validateBody({
+  overwrite: { type: 'boolean', optional: true },
+}), async (req, res) => {
+  const overwrite = req.body.overwrite === true;
+
+  try {
+    const result = await recategorizeTransactions(req.params.id, overwrite);
+    analyticsCache.invalidate(req.params.id);
+    res.json({ success: true, data: result, timestamp: new Date().toISOString() });
+  } catch (error) {
+    log.error('Error applying category rules', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to apply category rules',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Add a manual transaction (cash spends, banks without email alerts)
+app.post('/api/users/:id/transactions', forUser('write'), async (req, res) => {
+  const { input, error: validationError, details } = validateManualTransaction(req.body);
+  if (!input) {
+    return res.status(400).json({ success: false, error: validationError, details });
+  }
+
+  try {
+    const transaction = await addManualTransaction(req.params.id, input);
+    analyticsCache.invalidate(req.params.id);
+    res.status(201).json({ success: true, transaction });
+  } catch (error) {
+    log.error('Error adding manual transaction', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to add transaction',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Edit a manual transaction
+app.put('/api/users/:id/transactions/:referenceNumber', forUser('write'), async (req, res) => {
+  if (!isManualReference(req.params.referenceNumber)) {
+    return res.status(400).json({ success: false, error: 'Only manual transactions (MANUAL_*) can be edited' });
+  }
+
+  const { input, error: validationError, details } = validateManualTransaction(req.body);
+  if (!input) {
+    return res.status(400).json({ success: false, error: validationError, details });
+  }
+
+  try {
+    const transaction = await updateManualTransaction(req.params.id, req.params.referenceNumber, input);
+    if (!transaction) {
+      return res.status(404).json({ success: false, error: 'Transaction not found' });
+    }
+    analyticsCache.invalidate(req.params.id);
+    res.json({ success: true, transaction });
+  } catch (error) {
+    log.error('Error updating manual transaction', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to update transaction',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Delete a manual transaction
+app.delete('/api/users/:id/transactions/:referenceNumber', forUser('write'), async (req, res) => {
+  if (!isManualReference(req.params.referenceNumber)) {
+    return res.status(400).json({ success: false, error: 'Only manual transactions (MANUAL_*) can be deleted' });
+  }
+
+  try {
+    const deleted = await deleteManualTransaction(req.params.id, req.params.referenceNumber);
+    if (!deleted) {
+      return res.status(404).json({ success: false, error: 'Transaction not found' });
+    }
+    analyticsCache.invalidate(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    log.error('Error deleting manual transaction', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to delete transaction',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// List a user's budgets
+app.get('/api/users/:id/budgets', forUser('read'), async (req, res) => {
+  const { data, error } = await supabase
+    .from('budgets')
+    .select('*')
+    .eq('user_id', req.params.id)
+    .order('category', { ascending: true });
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+
+  res.json({ success: true, budgets: data });
+});
+
+// Create a budget for a category and period
+app.post('/api/users/:id/budgets', forUser('write'), async (req, res) => {
+  const { budget, error: validationError, details } = validateBudget(req.body);
+  if (!budget) {
+    return res.status(400).json({ success: false, error: validationError, details });
+  }
+
+  const { data, error } = await supabase
+    .from('budgets')
+    .insert({ ...budget, user_id: req.params.id })
+    .select()
+    .single();
+
+  if (error) {
+    const status = error.code === '23505' ? 409 : 500;
+    return res.status(status).json({
+      success: false,
+      error: status === 409 ? 'A budget for this category and period already exists' : error.message,
+    });
+  }
+
+  res.status(201).json({ success: true, budget: data });
+});
+
+// Replace a budget
+app.put('/api/users/:id/budgets/:budgetId', forUser('write'), async (req, res) => {
+  const { budget, error: validationError, details } = validateBudget(req.body);
+  if (!budget) {
+    return res.status(400).json({ success: false, error: validationError, details });
+  }
+
+  const { data, error } = await supabase
+    .from('budgets')
+    .update(budget)
+    .eq('id', req.params.budgetId)
+    .eq('user_id', req.params.id)
+    .select();
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+  if (!data || data.length === 0) {
+    return res.status(404).json({ success: false, error: 'Budget not found' });
+  }
+
+  res.json({ success: true, budget: data[0] });
+});
+
+// Delete a budget (its sent alerts go with it)
+app.delete('/api/users/:id/budgets/:budgetId', forUser('write'), async (req, res) => {
+  const { data, error } = await supabase
+    .from('budgets')
+    .delete()
+    .eq('id', req.params.budgetId)
+    .eq('user_id', req.params.id)
+    .select();
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+  if (!data || data.length === 0) {
+    return res.status(404).json({ success: false, error: 'Budget not found' });
+  }
+
+  res.json({ success: true });
+});
+
+// Current-period spend against each budget
+app.get('/api/users/:id/budgets/status', forUser('read'), async (req, res) => {
+  try {
+    const status = await getBudgetStatus(req.params.id);
+    res.json({ success: true, data: status, timestamp: new Date().toISOString() });
+  } catch (error) {
+    log.error('Error loading budget status', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load budget status',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Recurring payments detected for a user, soonest expected first
+app.get('/api/users/:id/recurring', forUser('read'), async (req, res) => {
+  const { data, error } = await supabase
+    .from('recurring_payments')
+    .select('*')
+    .eq('user_id', req.params.id)
+    .order('next_expected_date', { ascending: true });
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+
+  res.json({ success: true, recurring: data });
+});
+
+// Re-run recurring payment detection over the user's full history
+app.post('/api/users/:id/recurring/detect', forUser('write'), async (req, res) => {
+  try {
+    const groups = await detectUserRecurringPayments(req.params.id);
+    res.json({ success: true, recurring: groups, timestamp: new Date().toISOString() });
+  } catch (error) {
+    log.error('Error detecting recurring payments', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to detect recurring payments',
+      message: (error as Error).message,
+    });
+  }
+});
+
+async function sendAnalytics(req: express.Request, res: express.Response, section?: AnalyticsSection) {
+  const { filter, error: filterError } = parseAnalyticsFilter(req.query);
+  if (!filter) {
+    return res.status(400).json({ success: false, error: filterError });
+  }
+
+  const { data: user, error } = await supabase
+    .from('users')
+    .select('id, last_sync_time')
+    .eq('id', req.params.id)
+    .single();
+
+  if (error || !user) {
+    return res.status(404).json({ success: false, error: 'User not found' });
+  }
+
+  try {
+    const { analytics, cached } = await analyticsCache.get(
+      user.id,
+      user.last_sync_time,
+      filter,
+      () => listUserTransactions(user.id)
+    );
+
+    res.json({
+      success: true,
+      data: section ? analytics[ANALYTICS_SECTIONS[section]] : analytics,
+      range: analytics.range,
+      cached,
+      lastSyncTime: user.last_sync_time,
+    });
+  } catch (loadError) {
+    log.error('Error building analytics', { error: loadError });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to build analytics',
+      message: (loadError as Error).message,
+    });
+  }
+}
+
+// Every analytics section for a user, optionally limited with ?from=YYYY-MM-DD&to=YYYY-MM-DD&account=1234
+app.get('/api/users/:id/analytics', forUser('read'), (req, res) => {
+  sendAnalytics(req, res);
+});
+
+// One analytics section: totals, monthly, categories, methods, counterparties or balances
+app.get('/api/users/:id/analytics/:section', forUser('read'), (req, res) => {
+  const section = req.params.section;
+  if (!Object.prototype.hasOwnProperty.call(ANALYTICS_SECTIONS, section)) {
+    return res.status(404).json({
+      success: false,
+      error: `Unknown analytics section. Use one of: ${Object.keys(ANALYTICS_SECTIONS).join(', ')}`,
+    });
+  }
+  sendAnalytics(req, res, section as AnalyticsSection);
+});
+
+// Accounts and cards seen on a user's alerts, with labels and latest balances
+app.get('/api/users/:id/accounts', forUser('read'), async (req, res) => {
+  try {
+    const accounts = await getAccountOverview(req.params.id);
+    res.json({ success: true, accounts });
+  } catch (error) {
+    log.error('Error loading accounts', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load accounts',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Label an account: kind, nickname and credit card billing details
+app.put('/api/users/:id/accounts/:last4', forUser('write'), async (req, res) => {
+  const { label, error: validationError, details } = validateAccountLabel(req.body);
+  if (!label) {
+    return res.status(400).json({ success: false, error: validationError, details });
+  }
+
+  const { data, error } = await supabase
+    .from('accounts')
+    .update(label)
+    .eq('user_id', req.params.id)
+    .eq('last4', req.params.last4)
+    .select()
+    .maybeSingle();
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+  if (!data) {
+    return res.status(404).json({ success: false, error: 'Account not found - accounts are added when their first transaction syncs' });
+  }
+
+  res.json({ success: true, account: data });
+});
+
+// Daily closing balances for one account (?from=YYYY-MM-DD&to=YYYY-MM-DD)
+app.get('/api/users/:id/accounts/:last4/balances', forUser('read'), async (req, res) => {
+  const { filter, error: filterError } = parseAnalyticsFilter({ from: req.query.from, to: req.query.to });
+  if (!filter) {
+    return res.status(400).json({ success: false, error: filterError });
+  }
+
+  try {
+    const balances = await getAccountBalances(req.params.id, req.params.last4, filter);
+    if (!balances) {
+      return res.status(404).json({ success: false, error: 'Account not found' });
+    }
+    res.json({ success: true, balances });
+  } catch (error) {
+    log.error('Error loading balances', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load balances',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Statement cycle, outstanding amount and payments for a credit card
+app.get('/api/users/:id/accounts/:last4/card', forUser('read'), async (req, res) => {
+  try {
+    const result = await getCreditCardSummary(req.params.id, req.params.last4);
+    if (!result) {
+      return res.status(404).json({ success: false, error: 'Account not found' });
+    }
+    if (result.error) {
+      return res.status(400).json({ success: false, error: result.error });
+    }
+    res.json({ success: true, card: result.summary });
+  } catch (error) {
+    log.error('Error loading credit card summary', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load credit card summary',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// The user's own VPAs, used to recognise transfers between their accounts
+app.put('/api/users/:id/self-vpas', forUser('write'), validateBody({
+  vpas: { type: 'array', items: { type: 'string', pattern: /^\s*[^\s@]+@[^\s@]+\s*$/, format: 'a VPA (name@bank)' }, maxItems: 50 },
+}), async (req, res) => {
+  const { vpas } = req.body;
+
+  const selfVpas = Array.from(new Set(vpas.map((v: string) => v.trim().toLowerCase())));
+  const { data, error } = await supabase
+    .from('users')
+    .update({ self_vpas: selfVpas })
+    .eq('id', req.params.id)
+    .select('id, self_vpas');
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+  if (!data || data.length === 0) {
+    return res.status(404).json({ success: false, error: 'User not found' });
+  }
+
+  res.json({ success: true, data: data[0] });
+});
+
+// Transfers between the user's own accounts, newest first
+app.get('/api/users/:id/transfers', forUser('read'), async (req, res) => {
+  try {
+    const transfers = await listUserTransfers(req.params.id);
+    res.json({ success: true, transfers });
+  } catch (error) {
+    log.error('Error loading transfers', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to load transfers',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Look for transfers across the whole history now
+app.post('/api/users/:id/transfers/detect', forUser('write'), async (req, res) => {
+  try {
+    const pairs = await detectUserTransfers(req.params.id);
+    analyticsCache.invalidate(req.params.id);
+    res.json({ success: true, marked: pairs.length, transfers: pairs });
+  } catch (error) {
+    log.error('Error detecting transfers', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Transfer detection failed',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Unmark a pair that is not really a transfer; it will not be marked again
+app.delete('/api/users/:id/transfers/:transferId', forUser('write'), async (req, res) => {
+  try {
+    const unmarked = await unmarkTransfer(req.params.id, req.params.transferId);
+    if (!unmarked) {
+      return res.status(404).json({ success: false, error: 'Transfer not found' });
+    }
+    analyticsCache.invalidate(req.params.id);
+    res.json({ success: true });
+  } catch (error) {
+    log.error('Error unmarking transfer', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to unmark transfer',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Likely duplicate pairs found during sync (?status=pending|merged|dismissed|all, default pending)
+app.get('/api/users/:id/duplicates', forUser('read'), async (req, res) => {
+  const status = typeof req.query.status === 'string' ? req.query.status : 'pending';
+  if (!['pending', 'merged', 'dismissed', 'all'].includes(status)) {
+    return res.status(400).json({ success: false, error: 'status must be pending, merged, dismissed or all' });
+  }
+
+  let query = supabase
+    .from('duplicate_candidates')
+    .select('*')
+    .eq('user_id', req.params.id)
+    .order('score', { ascending: false });
+  if (status !== 'all') {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+
+  res.json({ success: true, duplicates: data });
+});
+
+// Merge, dismiss or restore a duplicate pair
+app.post('/api/users/:id/duplicates/:candidateId/resolve', forUser('write'), async (req, res) => {
+  const { action, keep, error: validationError, details } = validateResolution(req.body);
+  if (!action) {
+    return res.status(400).json({ success: false, error: validationError, details });
+  }
+
+  try {
+    const result = await resolveDuplicate(req.params.id, req.params.candidateId, action, keep);
+    if (!result) {
+      return res.status(404).json({ success: false, error: 'Duplicate pair not found' });
+    }
+    if (!result.candidate) {
+      return res.status(result.status || 409).json({ success: false, error: result.error });
+    }
+
+    analyticsCache.invalidate(req.params.id);
+    res.json({ success: true, duplicate: result.candidate });
+  } catch (error) {
+    log.error('Error resolving duplicate', { error });
+    res.status(500).json({
+      success: false,
+      error: 'Failed to resolve duplicate',
+      message: (error as Error).message,
+    });
+  }
+});
+
+// Import an HDFC statement (CSV, XLS/XLSX or text PDF) sent as the raw request body
+app.post(
+  '/api/users/:id/statements',
+  forUser('write'),
+  express.raw({ type: () => true, limit: '10mb' }),
+  async (req, res) => {
+    if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+      return res.status(400).json({ success: false, error: 'Send the statement file as the request body' });
+    }
+
+    const account = typeof req.query.account === 'string' ? req.query.account : undefined;
+    if (account !== undefined && !/^\d{4}$/.test(account)) {
+      return res.status(400).json({ success: false, error: 'account must be the last 4 digits' });
+    }
+
+    log.info('Statement import triggered', { userId: req.params.id, bytes: req.body.length });
+
+    try {
+      const result = await importStatement(req.params.id, req.body, account);
+      analyticsCache.invalidate(req.params.id);
+      res.status(201).json({ success: true, import: result });
+    } catch (error) {
+      log.error('Error importing statement', { error });
+      // Unreadable files are the caller's to fix; a busy user can retry; the rest are ours
+      const status = isStatementError(error) ? 422 : isUserBusyError(error) ? 409 : 500;
+      res.status(status).json({
+        success: false,
+        error: 'Statement import failed',
+        message: (error as Error).message,
+      });
+    }
+  }
+);
+
+// Past statement imports, newest first (reports omitted)
+app.get('/api/users/:id/statements', forUser('read'), async (req, res) => {
+  const { data, error } = await supabase
+    .from('statement_imports')
+    .select('id, format, account, period_from, period_to, statement_rows, matched, inserted, warnings, created_at')
+    .eq('user_id', req.params.id)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+
+  res.json({ success: true, imports: data });
+});
+
+// Gap report for one statement import
+app.get('/api/users/:id/statements/:importId', forUser('read'), async (req, res) => {
+  const { data, error } = await supabase
+    .from('statement_imports')
+    .select('*')
+    .eq('id', req.params.importId)
+    .eq('user_id', req.params.id)
+    .maybeSingle();
+
+  if (error) {
+    return res.status(500).json({ success: false, error: error.message });
+  }
+  if (!data) {
+    return res.status(404).json({ success: false, error: 'Statement import not found' });
+  }
+
+  res.json({ success: true, import: data });
+});
+
+// Open Server-Sent Events connections, keyed by user id
+const eventClients = new Map<string, Set<express.Response>>();
+
+function broadcastEvent(event: SyncEvent) {
+  const clients = eventClients.get(event.user_id);
+  if (!clients) return;
+
+  const message = `id: ${event.id}\nevent: ${event.type}\ndata: ${JSON.stringify(event.payload)}\n\n`;
+  for (const client of clients) {
+    client.write(message);
+  }
+}
+
+// Issue a short-lived token for subscribing to a user's event stream
+app.post('/api/users/:id/stream-token', forUser('read'), (req, res) => {
+  res.json({
+    success: true,
+    token: createStreamToken(req.params.id, API_SECRET),
+    expiresIn: 3600,
+  });
+});
+
+// Live stream of a user's sync events
+app.get('/api/users/:id/events', authorize(
+  (principal, req) => hasAccess(principal, req.params.id, 'read'),
+  'Requires read access to this user',
+  authenticateStreamToken
+), (req, res) => {
+  res.writeHead(200, {
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  });
+  res.write(`event: connected\ndata: ${JSON.stringify({ userId: req.params.id })}\n\n`);
+
+  const userId = req.params.id;
+  if (!eventClients.has(userId)) {
+    eventClients.set(userId, new Set());
+  }
+  eventClients.get(userId)!.add(res);
+
+  // Comment lines keep proxies (and the Cloudflare tunnel) from closing idle connections
+  const heartbeat = setInterval(() => res.write(': heartbeat\n\n'), 25 * 1000);
+
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    const clients = eventClients.get(userId);
+    clients?.delete(res);
+    if (clients && clients.size === 0) {
+      eventClients.delete(userId);
+    }
+  });
+});
+
+// Malformed or oversized bodies get the same JSON error shape as everything else
+app.use((error: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
+  if (res.headersSent) return next(error);
+  if (error.type === 'entity.parse.failed') {
+    return res.status(400).json({ success: false, error: 'Request body is not valid JSON' });
+  }
+  if (error.type === 'entity.too.large') {
+    return res.status(413).json({ success: false, error: 'Request body is too large' });
+  }
+
+  log.error('Unhandled request error', { error });
+  res.status(500).json({ success: false, error: 'Internal server error' });
+});
+
+startEventPoller(supabase, event => {
+  // Syncs and backfills in other processes change the data behind cached analytics
+  if (event.type === 'transactions.appended') {
+    analyticsCache.invalidate(event.user_id);
+  }
+  broadcastEvent(event);
+});
+setInterval(() => pruneEvents(supabase).catch(error => log.warn('Could not prune events', { error })), 60 * 60 * 1000);
+
 // Start server
 app.listen(PORT, () => {
-  console.log(`🚀 Finance Tracker Backend API`);
-  console.log(`📡 Server running on http://localhost:${PORT}`);
-  console.log(`🔐 API Secret: ${API_SECRET.substring(0, 10)}...`);
-  console.log(`🌐 Frontend URL: ${process.env.FRONTEND_URL || 'Not configured'}`);
-  console.log(`✅ Ready to accept requests\n`);
+  log.info('Server started', { port: Number(PORT), frontendUrl: process.env.FRONTEND_URL || null });
 });
 
 export default app;
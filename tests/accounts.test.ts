@@ -0,0 +1,126 @@
+// Transaction times are read in Indian time
+process.env.TZ = 'Asia/Kolkata';
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  accountKind,
+  buildBalanceTimeline,
+  discoverAccounts,
+  getCardCycleDates,
+  latestBalance,
+  summarizeCreditCard,
+  validateAccountLabel,
+} from '../lib/accounts';
+import { toDayKey } from '../lib/transaction-dates';
+import type { ParsedTransaction } from '../lib/email-parser';
+import { transaction } from './transaction-fixtures';
+
+const card = (overrides: Partial<ParsedTransaction>) =>
+  transaction({ account: '9876', method: 'Credit Card', description: 'AMAZON', ...overrides });
+
+test('accounts are discovered with a detected kind', () => {
+  const accounts = discoverAccounts([
+    transaction({ dateTime: '01/01/2026 10:00 AM' }),
+    transaction({ dateTime: '31/01/2026 9:00 AM', type: 'Credit', description: 'NEFT CR ACME SALARY JAN', amount: 50000 }),
+    card({ dateTime: '03/01/2026 8:00 PM' }),
+    card({ dateTime: '04/01/2026 8:00 PM' }),
+    transaction({ account: '5555', dateTime: '02/01/2026 8:00 PM' }),
+    transaction({ account: '' }),
+  ]);
+
+  const byLast4 = new Map(accounts.map(account => [account.last4, account]));
+  assert.equal(accounts.length, 3);
+  assert.equal(byLast4.get('1234')!.detected_kind, 'salary');
+  assert.equal(byLast4.get('1234')!.first_seen, '2026-01-01');
+  assert.equal(byLast4.get('1234')!.last_seen, '2026-01-31');
+  assert.equal(byLast4.get('1234')!.transaction_count, 2);
+  assert.equal(byLast4.get('9876')!.detected_kind, 'credit_card');
+  assert.equal(byLast4.get('5555')!.detected_kind, 'savings');
+});
+
+test('user labels win over the detected kind', () => {
+  assert.equal(accountKind({ kind: null, detected_kind: 'savings' }), 'savings');
+  assert.equal(accountKind({ kind: 'credit_card', detected_kind: 'savings' }), 'credit_card');
+});
+
+test('account labels are validated', () => {
+  assert.deepEqual(validateAccountLabel({ kind: 'credit_card', nickname: ' Regalia ', statement_day: 12 }).label, {
+    kind: 'credit_card',
+    nickname: 'Regalia',
+    statement_day: 12,
+  });
+  assert.deepEqual(validateAccountLabel({ kind: null, nickname: '' }).label, { kind: null, nickname: null });
+  assert.match(validateAccountLabel({ kind: 'wallet' }).error || '', /kind/);
+  assert.match(validateAccountLabel({ due_day: 32 }).error || '', /due_day/);
+  assert.match(validateAccountLabel({ credit_limit: -5 }).error || '', /credit_limit/);
+  assert.match(validateAccountLabel({}).error || '', /Nothing/);
+});
+
+test('balance timeline keeps the closing balance per day', () => {
+  const transactions = [
+    transaction({ dateTime: '02/01/2026 6:00 PM', availableBalance: 900 }),
+    transaction({ dateTime: '01/01/2026 9:00 AM', availableBalance: 1000 }),
+    transaction({ dateTime: '02/01/2026 9:00 AM', availableBalance: 950 }),
+    transaction({ dateTime: '03/01/2026 9:00 AM' }),
+    transaction({ account: '5555', dateTime: '03/01/2026 9:00 AM', availableBalance: 5 }),
+  ];
+
+  assert.deepEqual(buildBalanceTimeline(transactions, '1234'), [
+    { date: '2026-01-01', balance: 1000 },
+    { date: '2026-01-02', balance: 900 },
+  ]);
+  assert.deepEqual(latestBalance(transactions, '1234'), { balance: 900, date: '2026-01-02' });
+  assert.equal(latestBalance(transactions, '0000'), null);
+});
+
+test('card cycle dates clamp to short months', () => {
+  const { previous, last, next } = getCardCycleDates(31, new Date(2026, 2, 10));
+  assert.equal(toDayKey(previous), '2026-01-31');
+  assert.equal(toDayKey(last), '2026-02-28');
+  assert.equal(toDayKey(next), '2026-03-31');
+
+  const onTheDay = getCardCycleDates(12, new Date(2026, 2, 12, 15));
+  assert.equal(toDayKey(onTheDay.last), '2026-03-12');
+});
+
+test('credit card summary splits the statement from the open cycle', () => {
+  const transactions = [
+    card({ dateTime: '20/01/2026 8:00 PM', amount: 3000, referenceNumber: 'c1' }),
+    card({ dateTime: '10/02/2026 8:00 PM', amount: 2000, referenceNumber: 'c2' }),
+    card({ dateTime: '14/02/2026 8:00 PM', amount: 500, referenceNumber: 'c3' }),
+    card({ dateTime: '20/02/2026 9:00 AM', amount: 4000, type: 'Credit', description: 'PAYMENT RECEIVED', referenceNumber: 'p1' }),
+    transaction({ dateTime: '15/02/2026 9:00 AM', amount: 99999 }),
+  ];
+  const account = { last4: '9876', nickname: 'Regalia', statement_day: 12, due_day: 2, credit_limit: null };
+
+  const summary = summarizeCreditCard(account, transactions, new Date(2026, 2, 5));
+
+  assert.deepEqual(summary.lastStatement, {
+    start: '2026-01-13',
+    end: '2026-02-12',
+    spent: 5000,
+    credits: 0,
+    dueDate: '2026-03-02',
+    billed: 5000,
+    paid: 4000,
+    remaining: 1000,
+    overdue: true,
+  });
+  assert.deepEqual(summary.currentCycle, { start: '2026-02-13', end: '2026-03-12', spent: 500, credits: 4000 });
+  assert.equal(summary.outstanding, 1500);
+  assert.equal(summary.availableCredit, null);
+  assert.deepEqual(summary.payments.map(p => p.referenceNumber), ['p1']);
+});
+
+test('credit limit and available limit give the outstanding amount', () => {
+  const summary = summarizeCreditCard(
+    { last4: '9876', nickname: null, statement_day: null, due_day: null, credit_limit: 100000 },
+    [card({ amount: 500, availableBalance: 92000 })]
+  );
+
+  assert.equal(summary.outstanding, 8000);
+  assert.equal(summary.availableCredit, 92000);
+  assert.equal(summary.currentCycle, null);
+  assert.equal(summary.lastStatement, null);
+});
@@ -0,0 +1,79 @@
+// Month and day boundaries are calendar days in Indian time
+process.env.TZ = 'Asia/Kolkata';
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { buildAnalytics, parseAnalyticsFilter, createAnalyticsCache } from '../lib/analytics';
+import { parseTransactionDateTime } from '../lib/transaction-dates';
+import { transaction } from './transaction-fixtures';
+
+const transactions = [
+  transaction({ dateTime: '01/01/2026 9:00 AM', amount: 50000, type: 'Credit', method: 'NEFT', description: 'ACME CORP SALARY', category: 'Salary', availableBalance: 60000 }),
+  transaction({ dateTime: '03/01/2026 1:15 PM', amount: 450, description: 'SWIGGY (swiggy@icici)', category: 'Food & Dining', availableBalance: 59550 }),
+  transaction({ dateTime: '20/01/2026 8:45 PM', amount: 1200, description: 'SWIGGY (swiggy@icici)', category: 'Food & Dining' }),
+  transaction({ dateTime: '02/02/2026 11:30 AM', amount: 3000, method: 'Debit Card', description: 'AMAZON', availableBalance: 55000 }),
+  transaction({ dateTime: 'not a date', amount: 999, description: 'Merchant' }),
+];
+
+test('transaction dates are read back from the sheet format', () => {
+  assert.equal(parseTransactionDateTime('03/01/2026 1:15 PM')?.toISOString(), '2026-01-03T07:45:00.000Z');
+  assert.equal(parseTransactionDateTime('03/01/2026 12:05 AM')?.toISOString(), '2026-01-02T18:35:00.000Z');
+  assert.equal(parseTransactionDateTime('03/01/26')?.getFullYear(), 2026);
+  assert.equal(parseTransactionDateTime('N/A'), null);
+});
+
+test('totals and groups cover income, spend, category, method and VPA', () => {
+  const analytics = buildAnalytics(transactions, { from: null, to: null });
+
+  assert.deepEqual(analytics.totals, { income: 50000, spend: 4650, net: 45350, count: 4 });
+  assert.equal(analytics.undated, 1);
+  assert.deepEqual(analytics.byMonth.map(m => [m.key, m.spend]), [['2026-01', 1650], ['2026-02', 3000]]);
+  assert.deepEqual(analytics.byCategory.map(c => c.key), ['Uncategorised', 'Food & Dining', 'Salary']);
+  assert.deepEqual(analytics.byMethod.map(m => m.key), ['Debit Card', 'UPI', 'NEFT']);
+  assert.deepEqual(analytics.byCounterparty, [{ key: 'swiggy@icici', income: 0, spend: 1650, net: -1650, count: 2 }]);
+  assert.deepEqual(analytics.balances[0].points.map(p => p.balance), [60000, 59550, 55000]);
+});
+
+test('date filters are inclusive calendar days', () => {
+  const { filter } = parseAnalyticsFilter({ from: '2026-01-03', to: '2026-01-20' });
+  const analytics = buildAnalytics(transactions, filter!);
+
+  assert.equal(analytics.totals.count, 2);
+  assert.equal(analytics.totals.spend, 1650);
+});
+
+test('account filter keeps one account', () => {
+  const { filter } = parseAnalyticsFilter({ account: '9876' });
+  const analytics = buildAnalytics([...transactions, transaction({ account: '9876', amount: 700 })], filter!);
+
+  assert.deepEqual(analytics.totals, { income: 0, spend: 700, net: -700, count: 1 });
+  assert.match(parseAnalyticsFilter({ account: 'card' }).error || '', /account/);
+});
+
+test('invalid filters are rejected', () => {
+  assert.match(parseAnalyticsFilter({ from: 'yesterday' }).error || '', /dates/);
+  assert.match(parseAnalyticsFilter({ from: '2026-02-01', to: '2026-01-01' }).error || '', /after/);
+  assert.deepEqual(parseAnalyticsFilter({}).filter, { from: null, to: null });
+});
+
+test('cache reuses loaded transactions until the version changes', async () => {
+  const cache = createAnalyticsCache();
+  const filter = { from: null, to: null };
+  let loads = 0;
+  const load = async () => {
+    loads++;
+    return transactions;
+  };
+
+  assert.equal((await cache.get('user-1', 'sync-1', filter, load)).cached, false);
+  assert.equal((await cache.get('user-1', 'sync-1', filter, load)).cached, true);
+  await cache.get('user-1', 'sync-1', parseAnalyticsFilter({ from: '2026-02-01' }).filter!, load);
+  assert.equal(loads, 1);
+
+  await cache.get('user-1', 'sync-2', filter, load);
+  assert.equal(loads, 2);
+
+  cache.invalidate('user-1');
+  await cache.get('user-1', 'sync-2', filter, load);
+  assert.equal(loads, 3);
+});
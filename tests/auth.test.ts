@@ -0,0 +1,80 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import {
+  checkApiSecret,
+  generateApiToken,
+  hashApiToken,
+  hasAccess,
+  validateApiTokenRequest,
+  verifySupabaseJwt,
+  type AuthPrincipal,
+} from '../lib/auth';
+
+const JWT_SECRET = 'test-jwt-secret';
+
+function signJwt(claims: Record<string, unknown>, secret = JWT_SECRET, alg = 'HS256'): string {
+  const header = Buffer.from(JSON.stringify({ alg, typ: 'JWT' })).toString('base64url');
+  const payload = Buffer.from(JSON.stringify(claims)).toString('base64url');
+  const signature = crypto.createHmac('sha256', secret).update(`${header}.${payload}`).digest('base64url');
+  return `${header}.${payload}.${signature}`;
+}
+
+const NOW = Date.parse('2026-03-01T00:00:00Z');
+const valid = { sub: 'auth-user-1', aud: 'authenticated', exp: NOW / 1000 + 3600 };
+
+test('the server refuses missing and placeholder secrets', () => {
+  assert.throws(() => checkApiSecret(undefined), /must be set/);
+  assert.throws(() => checkApiSecret('your-secret-key-here'), /example value/);
+  assert.throws(() => checkApiSecret('generate-a-secure-random-string'), /example value/);
+  assert.equal(checkApiSecret('d2c1f0c9a8b7'), 'd2c1f0c9a8b7');
+});
+
+test('Supabase JWTs verify only with the right secret, audience and expiry', () => {
+  assert.equal(verifySupabaseJwt(signJwt(valid), JWT_SECRET, NOW), 'auth-user-1');
+  assert.equal(verifySupabaseJwt(signJwt(valid, 'other-secret'), JWT_SECRET, NOW), null);
+  assert.equal(verifySupabaseJwt(signJwt({ ...valid, exp: NOW / 1000 - 1 }), JWT_SECRET, NOW), null);
+  assert.equal(verifySupabaseJwt(signJwt({ ...valid, aud: 'anon' }), JWT_SECRET, NOW), null);
+  assert.equal(verifySupabaseJwt(signJwt(valid, JWT_SECRET, 'none'), JWT_SECRET, NOW), null);
+  assert.equal(verifySupabaseJwt('not.a.jwt', JWT_SECRET, NOW), null);
+
+  const [header, , signature] = signJwt(valid).split('.');
+  const forged = Buffer.from(JSON.stringify({ ...valid, sub: 'auth-user-2' })).toString('base64url');
+  assert.equal(verifySupabaseJwt(`${header}.${forged}.${signature}`, JWT_SECRET, NOW), null);
+});
+
+test('API tokens are random and stored only as a hash', () => {
+  const first = generateApiToken();
+  const second = generateApiToken();
+
+  assert.match(first.token, /^ft_[\w-]{43}$/);
+  assert.notEqual(first.token, second.token);
+  assert.equal(first.hash, hashApiToken(first.token));
+  assert.ok(!first.hash.includes(first.token.slice(3)));
+  assert.ok(first.token.startsWith(first.prefix));
+});
+
+test('principals only reach their own user, tokens only within their scopes', () => {
+  const service: AuthPrincipal = { kind: 'service' };
+  const session: AuthPrincipal = { kind: 'session', userId: 'u1' };
+  const readOnly: AuthPrincipal = { kind: 'token', userId: 'u1', tokenId: 't1', scopes: ['read'] };
+
+  assert.equal(hasAccess(service, 'u2', 'write'), true);
+  assert.equal(hasAccess(session, 'u1', 'write'), true);
+  assert.equal(hasAccess(session, 'u2', 'read'), false);
+  assert.equal(hasAccess(readOnly, 'u1', 'read'), true);
+  assert.equal(hasAccess(readOnly, 'u1', 'sync'), false);
+  assert.equal(hasAccess(readOnly, 'u2', 'read'), false);
+});
+
+test('token requests need a name and known scopes', () => {
+  const now = new Date('2026-03-01T00:00:00Z');
+  const { request } = validateApiTokenRequest({ name: ' Home Assistant ', scopes: ['sync', 'sync', 'read'], expiresInDays: 30 }, now);
+
+  assert.deepEqual(request, { name: 'Home Assistant', scopes: ['sync', 'read'], expiresAt: new Date('2026-03-31T00:00:00Z') });
+  assert.equal(validateApiTokenRequest({ name: 'x', scopes: ['read'] }).request?.expiresAt, null);
+  assert.match(validateApiTokenRequest({ name: '', scopes: ['read'] }).error!, /name/);
+  assert.match(validateApiTokenRequest({ name: 'x', scopes: ['admin'] }).error!, /scopes/);
+  assert.match(validateApiTokenRequest({ name: 'x', scopes: [] }).error!, /scopes/);
+  assert.match(validateApiTokenRequest({ name: 'x', scopes: ['read'], expiresInDays: 0 }).error!, /expiresInDays/);
+});
@@ -0,0 +1,66 @@
+// Expected dates in the fixtures are recorded in Indian time
+process.env.TZ = 'Asia/Kolkata';
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import path from 'path';
+import { buildGmailQuery, findParserForEmail, getBankParsers, getEnabledParsers } from '../lib/bank-registry';
+import { loadFixtures } from '../lib/parser-fixtures';
+
+for (const bank of ['icici', 'sbi', 'axis']) {
+  const parser = getBankParsers().find(p => p.id === bank)!;
+
+  for (const { name, fixture } of loadFixtures(path.join(__dirname, 'fixtures', bank))) {
+    const { from, subject, body, receivedDate, emailId } = fixture.email;
+
+    test(`${bank}/${name}: ${fixture.description}`, { todo: fixture.todo }, () => {
+      assert.equal(parser.detect(from, subject, body), fixture.isTransaction, `${bank} detect`);
+
+      if (fixture.expected === undefined) return;
+
+      const result = parser.parse(body, subject, receivedDate, emailId);
+
+      if (fixture.expected === null) {
+        assert.equal(result.success, false, 'expected the parser to reject this email');
+        if (fixture.expectedError) {
+          assert.equal(result.error, fixture.expectedError);
+        }
+        return;
+      }
+
+      assert.equal(result.success, true, result.error);
+      assert.deepEqual(result.transaction, fixture.expected);
+    });
+  }
+}
+
+test('emails are routed to the bank that sent them', () => {
+  const parsers = getEnabledParsers(['hdfc', 'icici', 'sbi', 'axis']);
+  const route = (from: string, subject = 'Transaction alert') => findParserForEmail(parsers, from, subject, '')?.id ?? null;
+
+  assert.equal(route('HDFC Bank InstaAlerts <alerts@hdfcbank.net>'), 'hdfc');
+  assert.equal(route('ICICI Bank Credit Cards <credit_cards@icicibank.com>'), 'icici');
+  assert.equal(route('donotreply.sbiatm@alerts.sbi.co.in'), 'sbi');
+  assert.equal(route('cbssbi.cas@alerts.sbi.co.in'), 'sbi');
+  assert.equal(route('cc.alerts@axisbank.com'), 'axis');
+  assert.equal(route('SBI Offers <offers@sbi.co.in>', 'Reward points credited'), null);
+  assert.equal(route('newsletter@example.com'), null);
+});
+
+test('only enabled banks are routed to', () => {
+  const parsers = getEnabledParsers(['icici']);
+  assert.equal(findParserForEmail(parsers, 'alerts@hdfcbank.net', 'UPI txn', '')?.id ?? null, null);
+  assert.equal(findParserForEmail(parsers, 'alerts@icicibank.com', 'Transaction alert', '')?.id, 'icici');
+});
+
+test('enabled banks default to HDFC and ignore unknown ids', () => {
+  assert.deepEqual(getEnabledParsers(null).map(p => p.id), ['hdfc']);
+  assert.deepEqual(getEnabledParsers([]).map(p => p.id), ['hdfc']);
+  assert.deepEqual(getEnabledParsers(['SBI', 'kotak', 'axis']).map(p => p.id), ['sbi', 'axis']);
+});
+
+test('the Gmail query combines each bank\'s query', () => {
+  const [hdfc, sbi] = getEnabledParsers(['hdfc', 'sbi']);
+  assert.equal(buildGmailQuery([hdfc]), hdfc.query);
+  assert.equal(buildGmailQuery([hdfc, sbi]), `((${hdfc.query}) OR (${sbi.query}))`);
+});
@@ -0,0 +1,75 @@
+// Periods are calendar months and weeks in Indian time
+process.env.TZ = 'Asia/Kolkata';
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateBudget, getPeriodBounds, evaluateBudgets, describeBudgetAlert, type Budget, type BudgetAlert } from '../lib/budgets';
+import { transaction } from './transaction-fixtures';
+
+const food: Budget = {
+  id: 'b1',
+  user_id: 'u1',
+  category: 'Food & Dining',
+  period: 'monthly',
+  amount: 5000,
+  thresholds: [80, 100],
+};
+
+test('budgets are validated with default period and thresholds', () => {
+  assert.deepEqual(validateBudget({ category: ' Food ', amount: 5000 }).budget, {
+    category: 'Food',
+    period: 'monthly',
+    amount: 5000,
+    thresholds: [80, 100],
+  });
+  assert.deepEqual(validateBudget({ category: 'Food', amount: 10, thresholds: [100, 50, 100] }).budget?.thresholds, [50, 100]);
+  assert.match(validateBudget({ amount: 10 }).error || '', /category/);
+  assert.match(validateBudget({ category: 'Food', amount: 0 }).error || '', /amount/);
+  assert.match(validateBudget({ category: 'Food', amount: 10, period: 'daily' }).error || '', /period/);
+  assert.match(validateBudget({ category: 'Food', amount: 10, thresholds: [0.8] }).error || '', /thresholds/);
+  assert.deepEqual(validateBudget({ category: 'Food', amount: '5000', period: 'daily' }).details, [
+    'period must be one of: weekly, monthly',
+    'amount must be a number',
+  ]);
+});
+
+test('weekly periods start on Monday', () => {
+  const { start, end } = getPeriodBounds('weekly', new Date(2026, 0, 18, 12));
+  assert.equal(start.toDateString(), 'Mon Jan 12 2026');
+  assert.equal(end.toDateString(), 'Mon Jan 19 2026');
+});
+
+test('spend counts debits in the category for the current period', () => {
+  const transactions = [
+    transaction({ dateTime: '02/01/2026 9:00 AM', amount: 3000, category: 'Food & Dining' }),
+    transaction({ dateTime: '15/01/2026 9:00 PM', amount: 1200, category: 'food & dining' }),
+    transaction({ dateTime: '16/01/2026 9:00 PM', amount: 500, category: 'Food & Dining', type: 'Credit' }),
+    transaction({ dateTime: '20/01/2026 9:00 PM', amount: 800, category: 'Shopping' }),
+    transaction({ dateTime: '31/12/2025 11:59 PM', amount: 4000, category: 'Food & Dining' }),
+  ];
+
+  const [status] = evaluateBudgets([food], transactions, new Date(2026, 0, 20));
+  assert.equal(status.spent, 4200);
+  assert.equal(status.percent, 84);
+  assert.deepEqual(status.crossed, [80]);
+  assert.equal(status.periodStart, '2026-01-01');
+  assert.equal(status.periodEnd, '2026-01-31');
+});
+
+test('alerts describe warnings and overspends', () => {
+  const alert: BudgetAlert = {
+    userId: 'u1',
+    email: 'user@example.com',
+    category: 'Food & Dining',
+    period: 'monthly',
+    periodStart: '2026-01-01',
+    periodEnd: '2026-01-31',
+    threshold: 80,
+    budgetAmount: 5000,
+    spent: 4200,
+    percent: 84,
+  };
+
+  assert.equal(describeBudgetAlert(alert), 'Food & Dining budget at 84%: ₹4,200 of ₹5,000');
+  assert.match(describeBudgetAlert({ ...alert, threshold: 100, spent: 5100, percent: 102 }), /exceeded/);
+});
@@ -0,0 +1,69 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { categorizeTransaction, extractVpa, validateCategoryRule, type CategoryRule } from '../lib/categorizer';
+import { createManualTransaction, type ParsedTransaction } from '../lib/email-parser';
+
+function upiDebit(description: string, amount = 250): ParsedTransaction {
+  return {
+    ...createManualTransaction(amount, 'Debit', new Date(2026, 0, 9), '', ''),
+    method: 'UPI',
+    description,
+  };
+}
+
+function userRule(overrides: Partial<CategoryRule>): CategoryRule {
+  return {
+    id: 'rule-1',
+    user_id: 'user-1',
+    category: 'Custom',
+    notes: null,
+    vpa: null,
+    merchant: null,
+    method: null,
+    type: null,
+    min_amount: null,
+    max_amount: null,
+    priority: 100,
+    ...overrides,
+  };
+}
+
+test('built-in rules categorise common merchants', () => {
+  const result = categorizeTransaction(upiDebit('SWIGGY (swiggy@icici)'), []);
+  assert.equal(result.category, 'Food & Dining');
+});
+
+test('the Jio rule matches mobile recharges but not other Jio brands', () => {
+  assert.equal(categorizeTransaction(upiDebit('RELIANCE JIO INFOCOMM LTD (jioinappdirect@paytm)'), []).category, 'Utilities');
+  assert.equal(categorizeTransaction(upiDebit('JIOMART (jiomart@axisbank)'), []).category, '');
+});
+
+test('user rules win over built-in rules', () => {
+  const rules = [userRule({ merchant: 'swiggy', category: 'Office Lunch', notes: 'Reimbursable' })];
+  const result = categorizeTransaction(upiDebit('SWIGGY (swiggy@icici)'), rules);
+  assert.equal(result.category, 'Office Lunch');
+  assert.equal(result.notes, 'Reimbursable');
+});
+
+test('VPA and amount range must all match', () => {
+  const rules = [userRule({ vpa: 'landlord@okhdfc', min_amount: 10000, category: 'Rent' })];
+  assert.equal(categorizeTransaction(upiDebit('Owner (landlord@okhdfc)', 15000), rules).category, 'Rent');
+  assert.equal(categorizeTransaction(upiDebit('Owner (landlord@okhdfc)', 500), rules).category, '');
+});
+
+test('existing categories are kept unless overwrite is set', () => {
+  const transaction = { ...upiDebit('ZOMATO (zomato@hdfcbank)'), category: 'Party' };
+  assert.equal(categorizeTransaction(transaction, []).category, 'Party');
+  assert.equal(categorizeTransaction(transaction, [], true).category, 'Food & Dining');
+});
+
+test('extractVpa reads the VPA from UPI descriptions', () => {
+  assert.equal(extractVpa('Tabrez Khan (tabrezkhan009@ybl)'), 'tabrezkhan009@ybl');
+  assert.equal(extractVpa('SRMIST FACULTY OF ENGI'), null);
+});
+
+test('validateCategoryRule requires a category and a condition', () => {
+  assert.equal(validateCategoryRule({ merchant: 'uber' }).error, 'category is required');
+  assert.match(validateCategoryRule({ category: 'Travel' }).error || '', /match condition/);
+  assert.equal(validateCategoryRule({ category: 'Travel', merchant: 'uber' }).rule?.merchant, 'uber');
+});
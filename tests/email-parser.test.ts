@@ -0,0 +1,34 @@
+// Expected dates in the fixtures are recorded in Indian time
+process.env.TZ = 'Asia/Kolkata';
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { parseHDFCEmail, isHDFCTransactionEmail } from '../lib/email-parser';
+import { loadFixtures } from '../lib/parser-fixtures';
+
+for (const { name, fixture } of loadFixtures()) {
+  const { from, subject, body, receivedDate, emailId } = fixture.email;
+
+  test(`${name}: ${fixture.description}`, { todo: fixture.todo }, () => {
+    assert.equal(
+      isHDFCTransactionEmail(from, subject, body),
+      fixture.isTransaction,
+      'isHDFCTransactionEmail'
+    );
+
+    if (fixture.expected === undefined) return;
+
+    const result = parseHDFCEmail(body, subject, receivedDate, emailId);
+
+    if (fixture.expected === null) {
+      assert.equal(result.success, false, 'expected the parser to reject this email');
+      if (fixture.expectedError) {
+        assert.equal(result.error, fixture.expectedError);
+      }
+      return;
+    }
+
+    assert.equal(result.success, true, result.error);
+    assert.deepEqual(result.transaction, fixture.expected);
+  });
+}
@@ -0,0 +1,96 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GmailClient } from '../lib/google-auth';
+import {
+  chunkQuery,
+  completeBackfillChunk,
+  createResumePoint,
+  listAllMessageIds,
+  newBackfillState,
+  nextBackfillChunk,
+  resumeBackfillState,
+  type BackfillState,
+} from '../lib/email-sync';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const day = (date: string) => new Date(`${date}T00:00:00Z`);
+
+test('message listing follows every page and returns oldest first', async () => {
+  const calls: any[] = [];
+  const pages: Record<string, any> = {
+    first: { messages: [{ id: 'm6' }, { id: 'm5' }, { id: 'm4' }], nextPageToken: 'second' },
+    second: { messages: [{ id: 'm3' }, { id: 'm2' }], nextPageToken: 'third' },
+    third: { messages: [{ id: 'm1' }] },
+  };
+  const gmail = {
+    users: {
+      messages: {
+        list: async (params: any) => {
+          calls.push(params);
+          return { data: pages[params.pageToken || 'first'] };
+        },
+      },
+    },
+  } as unknown as GmailClient;
+
+  assert.deepEqual(await listAllMessageIds(gmail, 'from:alerts@hdfcbank.net'), ['m1', 'm2', 'm3', 'm4', 'm5', 'm6']);
+  assert.deepEqual(calls.map(c => [c.q, c.pageToken]), [
+    ['from:alerts@hdfcbank.net', undefined],
+    ['from:alerts@hdfcbank.net', 'second'],
+    ['from:alerts@hdfcbank.net', 'third'],
+  ]);
+});
+
+test('the resume point stops at the first email that could not be fetched', () => {
+  const point = createResumePoint();
+  point.processed(new Date('2026-03-01T09:00:00Z'));
+  point.processed(new Date('2026-03-01T08:00:00Z'));
+  point.failed();
+  point.processed(new Date('2026-03-01T11:00:00Z'));
+
+  assert.deepEqual(point.latest, new Date('2026-03-01T09:00:00Z'));
+  assert.equal(point.complete, false);
+
+  const clean = createResumePoint();
+  assert.equal(clean.latest, null);
+  assert.equal(clean.complete, true);
+});
+
+test('a backfill walks its range in chunks, with a short last chunk', () => {
+  let state = newBackfillState(day('2026-01-01'), day('2026-01-20'), 7, NOW);
+  const chunks: string[] = [];
+
+  for (let chunk = nextBackfillChunk(state); chunk; chunk = nextBackfillChunk(state)) {
+    chunks.push(`${chunk.from.toISOString().slice(0, 10)}..${chunk.to.toISOString().slice(0, 10)}`);
+    state = completeBackfillChunk(state, chunk, { transactions: 2, missed: 1 }, NOW);
+  }
+
+  assert.deepEqual(chunks, ['2026-01-01..2026-01-08', '2026-01-08..2026-01-15', '2026-01-15..2026-01-20']);
+  assert.equal(state.cursor, day('2026-01-20').toISOString());
+  assert.equal(state.transactions, 6);
+  assert.equal(state.missed, 3);
+});
+
+test('an interrupted backfill resumes from the chunk it stopped at', () => {
+  const started = newBackfillState(day('2026-01-01'), day('2026-01-20'), 7, NOW);
+  const first = nextBackfillChunk(started)!;
+  const failed: BackfillState = { ...completeBackfillChunk(started, first, { transactions: 4, missed: 0 }, NOW), status: 'failed', error: 'Backend Error' };
+
+  const resumed = resumeBackfillState(failed)!;
+  assert.equal(resumed.status, 'running');
+  assert.equal(resumed.error, undefined);
+  assert.equal(resumed.transactions, 4);
+  assert.deepEqual(nextBackfillChunk(resumed), { from: day('2026-01-08'), to: day('2026-01-15') });
+});
+
+test('there is nothing to resume once a backfill has completed', () => {
+  const state = newBackfillState(day('2026-01-01'), day('2026-01-08'), 7, NOW);
+  assert.equal(resumeBackfillState(null), null);
+  assert.equal(resumeBackfillState({ ...state, status: 'completed' }), null);
+  assert.equal(nextBackfillChunk({ ...state, cursor: state.to }), null);
+});
+
+test('chunk queries are bounded in epoch seconds', () => {
+  const query = chunkQuery('from:alerts@hdfcbank.net', { from: day('2026-01-01'), to: day('2026-01-08') });
+  assert.equal(query, 'from:alerts@hdfcbank.net after:1767225600 before:1767830400');
+});
@@ -0,0 +1,64 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import { decrypt, encrypt, getKeyId, hasKeyFor, loadKeyring, needsReencryption, reencrypt } from '../lib/encryption';
+
+// The unversioned format the frontend writes: hex iv + tag + data, key = SHA-256 of the secret
+function legacyEncrypt(text: string, secret: string): string {
+  const iv = crypto.randomBytes(16);
+  const cipher = crypto.createCipheriv('aes-256-gcm', crypto.createHash('sha256').update(secret).digest(), iv);
+  const data = Buffer.concat([cipher.update(text, 'utf8'), cipher.final()]);
+  return iv.toString('hex') + cipher.getAuthTag().toString('hex') + data.toString('hex');
+}
+
+const oldEnv = { ENCRYPTION_SECRET_KEY: 'frontend-secret' };
+const rotatedEnv = { ENCRYPTION_SECRET_KEY: 'frontend-secret', ENCRYPTION_KEYS: 'k2:new-secret,k1:old-secret' };
+
+test('ciphertext is versioned with the current key id', () => {
+  const token = encrypt('1//refresh-token', rotatedEnv);
+
+  assert.match(token, /^v1:k2:/);
+  assert.equal(getKeyId(token), 'k2');
+  assert.equal(decrypt(token, rotatedEnv), '1//refresh-token');
+  assert.notEqual(encrypt('1//refresh-token', rotatedEnv), token);
+});
+
+test('any configured key decrypts; the current one encrypts', () => {
+  const underOld = encrypt('token', { ENCRYPTION_KEYS: 'k1:old-secret' });
+
+  assert.equal(decrypt(underOld, rotatedEnv), 'token');
+  assert.equal(needsReencryption(underOld, rotatedEnv), true);
+
+  const rotated = reencrypt(underOld, rotatedEnv);
+  assert.equal(getKeyId(rotated), 'k2');
+  assert.equal(needsReencryption(rotated, rotatedEnv), false);
+  assert.equal(decrypt(rotated, { ENCRYPTION_KEYS: 'k2:new-secret' }), 'token');
+});
+
+test('legacy ciphertext from the frontend still decrypts', () => {
+  const legacy = legacyEncrypt('token', 'frontend-secret');
+
+  assert.equal(getKeyId(legacy), 'legacy');
+  assert.equal(decrypt(legacy, oldEnv), 'token');
+  assert.equal(decrypt(legacy, rotatedEnv), 'token');
+  assert.equal(needsReencryption(legacy, oldEnv), true);
+  assert.equal(getKeyId(encrypt('token', oldEnv)), 'default');
+});
+
+test('unknown key ids are a configuration problem, wrong data is not', () => {
+  const underK2 = encrypt('token', rotatedEnv);
+
+  assert.equal(hasKeyFor(underK2, { ENCRYPTION_KEYS: 'k1:old-secret' }), false);
+  assert.equal(hasKeyFor(underK2, rotatedEnv), true);
+  assert.throws(() => decrypt(underK2, { ENCRYPTION_KEYS: 'k2:wrong-secret' }), /Failed to decrypt/);
+  assert.throws(() => decrypt(legacyEncrypt('token', 'someone-else'), oldEnv), /Failed to decrypt/);
+});
+
+test('key configuration is validated', () => {
+  assert.equal(loadKeyring({ ENCRYPTION_KEYS: 'a:1,b:2', ENCRYPTION_KEY_ID: 'b' }).current.id, 'b');
+  assert.equal(loadKeyring({ ENCRYPTION_KEYS: 'a:pass:with:colons' }).current.secret, 'pass:with:colons');
+  assert.throws(() => loadKeyring({}), /must be set/);
+  assert.throws(() => loadKeyring({ ENCRYPTION_KEYS: 'no-id' }), /id:secret/);
+  assert.throws(() => loadKeyring({ ENCRYPTION_KEYS: 'a:1,a:2' }), /twice/);
+  assert.throws(() => loadKeyring({ ENCRYPTION_KEYS: 'a:1', ENCRYPTION_KEY_ID: 'c' }), /not in ENCRYPTION_KEYS/);
+});
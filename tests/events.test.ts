@@ -0,0 +1,65 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { buildAuditEntry } from '../lib/audit';
+import { createStreamToken, startEventPoller, streamPrincipal, verifyStreamToken, type SyncEvent } from '../lib/events';
+import { fakeSupabase } from './fake-supabase';
+
+const SECRET = 'test-secret';
+
+test('stream tokens verify for the user they were issued to', () => {
+  const token = createStreamToken('user-1', SECRET);
+  assert.equal(verifyStreamToken(token, 'user-1', SECRET), true);
+  assert.equal(verifyStreamToken(token, 'user-2', SECRET), false);
+});
+
+test('stream tokens are rejected with the wrong secret or when tampered', () => {
+  const token = createStreamToken('user-1', SECRET);
+  assert.equal(verifyStreamToken(token, 'user-1', 'other-secret'), false);
+
+  const [, signature] = token.split('.');
+  const forged = `${Buffer.from(`user-2.${Date.now() + 60000}`).toString('base64url')}.${signature}`;
+  assert.equal(verifyStreamToken(forged, 'user-2', SECRET), false);
+  assert.equal(verifyStreamToken('garbage', 'user-1', SECRET), false);
+});
+
+test('expired stream tokens are rejected', () => {
+  const token = createStreamToken('user-1', SECRET, -1000);
+  assert.equal(verifyStreamToken(token, 'user-1', SECRET), false);
+});
+
+test('a stream request is audited without a token id', () => {
+  const entry = buildAuditEntry(streamPrincipal('0b7e8c1a-3f2d-4e5b-9a6c-1d2e3f4a5b6c'), {
+    method: 'GET', route: '/api/users/:id/events', targetUserId: '0b7e8c1a-3f2d-4e5b-9a6c-1d2e3f4a5b6c', status: 200, durationMs: 12,
+  });
+
+  // audit_log.token_id is a uuid column, so anything but a uuid or null fails the insert
+  assert.equal(entry.token_id, null);
+  assert.equal(entry.caller_kind, 'token');
+  assert.equal(entry.caller_user_id, '0b7e8c1a-3f2d-4e5b-9a6c-1d2e3f4a5b6c');
+  assert.equal(entry.outcome, 'success');
+});
+
+test('the event poller starts after the newest event, even when the first lookup fails', async () => {
+  const { supabase, tables } = fakeSupabase({
+    sync_events: [1, 2].map(id => ({ id, user_id: 'user-1', type: 'transactions.appended', payload: {} })),
+  });
+  const failing: any = {
+    select: () => failing,
+    order: () => failing,
+    limit: () => failing,
+    then: (resolve: (value: unknown) => void) => resolve({ data: null, error: { message: 'connection reset' } }),
+  };
+  let failures = 1;
+  const flaky = { from: (name: string) => (failures-- > 0 ? failing : supabase.from(name)) } as unknown as SupabaseClient;
+
+  const received: SyncEvent[] = [];
+  const stop = startEventPoller(flaky, event => received.push(event), 5);
+  await sleep(50);
+  tables.sync_events.push({ id: 3, user_id: 'user-1', type: 'transactions.appended', payload: {} });
+  await sleep(50);
+  stop();
+
+  assert.deepEqual(received.map(event => event.id), [3]);
+});
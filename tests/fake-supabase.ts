@@ -0,0 +1,188 @@
+/**
+ * In-memory stand-in for the parts of the Supabase query builder the lib
+ * modules use: select/insert/update/upsert with eq, neq, in, gt, lt, lte, is, PostgREST
+ * `or(...)` filters, order, limit and single. Each query runs synchronously
+ * when awaited, so a conditional update is atomic like a single SQL statement.
+ */
+
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+
+type Row = Record<string, any>;
+type Filter = (row: Row) => boolean;
+
+function compare(row: Row, column: string, op: string, value: string): boolean {
+  const actual = row[column];
+  switch (op) {
+    case 'eq': return actual !== null && actual !== undefined && String(actual) === value;
+    case 'neq': return String(actual) !== value;
+    case 'gt': return actual !== null && actual !== undefined && actual > value;
+    case 'lt': return actual !== null && actual !== undefined && actual < value;
+    case 'lte': return actual !== null && actual !== undefined && actual <= value;
+    case 'is': return value === 'null' ? actual === null || actual === undefined : String(actual) === value;
+    default: throw new Error(`Unsupported filter operator: ${op}`);
+  }
+}
+
+// Split on commas that are not inside parentheses
+function splitTerms(expression: string): string[] {
+  const terms: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of expression) {
+    if (char === ',' && depth === 0) {
+      terms.push(current);
+      current = '';
+      continue;
+    }
+    if (char === '(') depth++;
+    if (char === ')') depth--;
+    current += char;
+  }
+  terms.push(current);
+  return terms;
+}
+
+function parseTerm(term: string): Filter {
+  const and = term.match(/^and\((.*)\)$/);
+  if (and) {
+    const filters = splitTerms(and[1]).map(parseTerm);
+    return row => filters.every(filter => filter(row));
+  }
+  const [column, op, ...rest] = term.split('.');
+  const value = rest.join('.');
+  return row => compare(row, column, op, value);
+}
+
+class FakeQuery implements PromiseLike<{ data: any; error: null; count?: number }> {
+  private filters: Filter[] = [];
+  private action: 'select' | 'insert' | 'update' | 'upsert' = 'select';
+  private values: Row | Row[] = {};
+  private upsertOptions: { onConflict?: string; ignoreDuplicates?: boolean } = {};
+  private orderBy?: { column: string; ascending: boolean };
+  private limitTo?: number;
+  private singleRow = false;
+
+  constructor(private rows: Row[]) {}
+
+  select(): this {
+    return this;
+  }
+
+  insert(values: Row | Row[]): this {
+    this.action = 'insert';
+    this.values = values;
+    return this;
+  }
+
+  upsert(values: Row | Row[], options: { onConflict?: string; ignoreDuplicates?: boolean } = {}): this {
+    this.action = 'upsert';
+    this.values = values;
+    this.upsertOptions = options;
+    return this;
+  }
+
+  update(values: Row): this {
+    this.action = 'update';
+    this.values = values;
+    return this;
+  }
+
+  eq(column: string, value: unknown): this {
+    this.filters.push(row => compare(row, column, 'eq', String(value)));
+    return this;
+  }
+
+  neq(column: string, value: unknown): this {
+    this.filters.push(row => compare(row, column, 'neq', String(value)));
+    return this;
+  }
+
+  in(column: string, values: unknown[]): this {
+    this.filters.push(row => values.map(String).includes(String(row[column])));
+    return this;
+  }
+
+  gt(column: string, value: unknown): this {
+    this.filters.push(row => compare(row, column, 'gt', String(value)));
+    return this;
+  }
+
+  or(expression: string): this {
+    const terms = splitTerms(expression).map(parseTerm);
+    this.filters.push(row => terms.some(term => term(row)));
+    return this;
+  }
+
+  order(column: string, options: { ascending?: boolean } = {}): this {
+    this.orderBy = { column, ascending: options.ascending !== false };
+    return this;
+  }
+
+  limit(count: number): this {
+    this.limitTo = count;
+    return this;
+  }
+
+  single(): this {
+    this.singleRow = true;
+    return this;
+  }
+
+  private insertRows(values: Row[]): Row[] {
+    const inserted = values.map(row => ({ id: crypto.randomUUID(), created_at: new Date().toISOString(), ...row }));
+    this.rows.push(...inserted);
+    return inserted;
+  }
+
+  private run(): any {
+    const values = Array.isArray(this.values) ? this.values : [this.values];
+    if (this.action === 'insert') {
+      return this.insertRows(values).map(row => ({ ...row }));
+    }
+    if (this.action === 'upsert') {
+      // Rows that conflict are updated, or left alone with ignoreDuplicates
+      const columns = (this.upsertOptions.onConflict || 'id').split(',');
+      const written = values.flatMap(row => {
+        const existing = this.rows.find(stored => columns.every(column => String(stored[column]) === String(row[column])));
+        if (!existing) return this.insertRows([row]);
+        if (this.upsertOptions.ignoreDuplicates) return [];
+        return [Object.assign(existing, row)];
+      });
+      return written.map(row => ({ ...row }));
+    }
+
+    let matched = this.rows.filter(row => this.filters.every(filter => filter(row)));
+    if (this.action === 'update') {
+      matched.forEach(row => Object.assign(row, this.values));
+    }
+    if (this.orderBy) {
+      const { column, ascending } = this.orderBy;
+      matched = [...matched].sort((a, b) => (a[column] < b[column] ? -1 : a[column] > b[column] ? 1 : 0) * (ascending ? 1 : -1));
+    }
+    if (this.limitTo !== undefined) {
+      matched = matched.slice(0, this.limitTo);
+    }
+    return matched.map(row => ({ ...row }));
+  }
+
+  then<T1, T2>(
+    onfulfilled?: ((value: { data: any; error: null }) => T1 | PromiseLike<T1>) | null,
+    onrejected?: ((reason: any) => T2 | PromiseLike<T2>) | null
+  ): PromiseLike<T1 | T2> {
+    const rows = this.run();
+    const data = this.singleRow ? rows[0] ?? null : rows;
+    return Promise.resolve({ data, error: null }).then(onfulfilled, onrejected);
+  }
+}
+
+/**
+ * A client over in-memory tables. The tables are the live rows, so tests can
+ * read or change them directly.
+ */
+export function fakeSupabase(tables: Record<string, Row[]> = {}): { supabase: SupabaseClient; tables: Record<string, Row[]> } {
+  const supabase = {
+    from: (name: string) => new FakeQuery((tables[name] ||= [])),
+  } as unknown as SupabaseClient;
+  return { supabase, tables };
+}
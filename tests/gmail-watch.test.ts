@@ -0,0 +1,182 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { GmailClient } from '../lib/google-auth';
+import { getEnabledParsers } from '../lib/bank-registry';
+import {
+  buildPushNotification,
+  filterBankMessages,
+  getPushTopic,
+  isNewerHistory,
+  isWatchActive,
+  listHistoryMessageIds,
+  needsScheduledSync,
+  needsWatchRenewal,
+  parsePushNotification,
+  verifyPushToken,
+} from '../lib/gmail-watch';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+const hoursFromNow = (hours: number) => new Date(NOW.getTime() + hours * 60 * 60 * 1000).toISOString();
+
+function fakeGmail(parts: {
+  history?: (params: any) => any;
+  headers?: Record<string, { from: string; subject: string; snippet?: string }>;
+}): GmailClient {
+  return {
+    users: {
+      history: { list: async (params: any) => ({ data: parts.history!(params) }) },
+      messages: {
+        get: async ({ id }: any) => ({
+          data: {
+            snippet: parts.headers![id].snippet || '',
+            payload: {
+              headers: [
+                { name: 'From', value: parts.headers![id].from },
+                { name: 'Subject', value: parts.headers![id].subject },
+              ],
+            },
+          },
+        }),
+      },
+    },
+  } as unknown as GmailClient;
+}
+
+test('push notifications round-trip through a Pub/Sub body', () => {
+  const body = buildPushNotification({ emailAddress: 'Someone@Example.com', historyId: '12345' });
+  assert.deepEqual(parsePushNotification(body), { emailAddress: 'someone@example.com', historyId: '12345' });
+});
+
+test('bodies that are not Gmail notifications are rejected', () => {
+  const encode = (value: unknown) => ({ message: { data: Buffer.from(JSON.stringify(value)).toString('base64') } });
+
+  assert.equal(parsePushNotification(undefined), null);
+  assert.equal(parsePushNotification({}), null);
+  assert.equal(parsePushNotification({ message: { data: 42 } }), null);
+  assert.equal(parsePushNotification({ message: { data: 'not base64 json' } }), null);
+  assert.equal(parsePushNotification(encode({ historyId: '1' })), null);
+  assert.equal(parsePushNotification(encode({ emailAddress: 'someone@example.com', historyId: 'abc' })), null);
+  assert.deepEqual(parsePushNotification(encode({ emailAddress: 'someone@example.com', historyId: 99 })), {
+    emailAddress: 'someone@example.com',
+    historyId: '99',
+  });
+});
+
+test('history ids compare as 64-bit numbers, not strings', () => {
+  assert.equal(isNewerHistory('10', '9'), true);
+  assert.equal(isNewerHistory('9', '10'), false);
+  assert.equal(isNewerHistory('10', '10'), false);
+  assert.equal(isNewerHistory('18446744073709551615', '18446744073709551614'), true);
+});
+
+test('watches are renewed within a day of expiring', () => {
+  assert.equal(isWatchActive(null, NOW), false);
+  assert.equal(isWatchActive(hoursFromNow(-1), NOW), false);
+  assert.equal(isWatchActive(hoursFromNow(1), NOW), true);
+
+  assert.equal(needsWatchRenewal(null, NOW), true);
+  assert.equal(needsWatchRenewal(hoursFromNow(23), NOW), true);
+  assert.equal(needsWatchRenewal(hoursFromNow(25), NOW), false);
+});
+
+test('scheduled cycles skip watched users until the safety poll is due', () => {
+  const watched = { gmail_history_id: '100', gmail_watch_expires_at: hoursFromNow(72), last_sync_time: hoursFromNow(-1) };
+
+  assert.equal(needsScheduledSync(watched, NOW), false);
+  assert.equal(needsScheduledSync({ ...watched, last_sync_time: hoursFromNow(-6) }, NOW), true);
+  assert.equal(needsScheduledSync({ ...watched, last_sync_time: null }, NOW), true);
+  assert.equal(needsScheduledSync({ ...watched, gmail_history_id: null }, NOW), true);
+  assert.equal(needsScheduledSync({ ...watched, gmail_watch_expires_at: hoursFromNow(12) }, NOW), true);
+});
+
+test('the push topic must be a full Pub/Sub topic name', () => {
+  assert.equal(getPushTopic({}), null);
+  assert.equal(getPushTopic({ GMAIL_PUBSUB_TOPIC: ' ' }), null);
+  assert.equal(getPushTopic({ GMAIL_PUBSUB_TOPIC: 'projects/fintrack/topics/gmail' }), 'projects/fintrack/topics/gmail');
+  assert.throws(() => getPushTopic({ GMAIL_PUBSUB_TOPIC: 'gmail' }), /projects\/<project>\/topics\/<topic>/);
+});
+
+test('push tokens must match exactly', () => {
+  assert.equal(verifyPushToken('s3cret', 's3cret'), true);
+  assert.equal(verifyPushToken('s3cre', 's3cret'), false);
+  assert.equal(verifyPushToken('s3creT', 's3cret'), false);
+  assert.equal(verifyPushToken(undefined, 's3cret'), false);
+  assert.equal(verifyPushToken(['s3cret'], 's3cret'), false);
+});
+
+test('history listing follows pages and skips drafts and sent mail', async () => {
+  const calls: any[] = [];
+  const pages: Record<string, any> = {
+    first: {
+      history: [
+        { messagesAdded: [{ message: { id: 'm1', labelIds: ['INBOX'] } }, { message: { id: 'd1', labelIds: ['DRAFT'] } }] },
+        { messagesAdded: [{ message: { id: 's1', labelIds: ['SENT'] } }] },
+      ],
+      historyId: '150',
+      nextPageToken: 'second',
+    },
+    second: {
+      history: [{ messagesAdded: [{ message: { id: 'm2', labelIds: ['INBOX'] } }, { message: { id: 'm1', labelIds: ['INBOX'] } }] }],
+      historyId: '160',
+    },
+  };
+  const gmail = fakeGmail({
+    history: params => {
+      calls.push(params);
+      return pages[params.pageToken || 'first'];
+    },
+  });
+
+  assert.deepEqual(await listHistoryMessageIds(gmail, '100'), { messageIds: ['m1', 'm2'], historyId: '160' });
+  assert.deepEqual(calls.map(c => [c.startHistoryId, c.pageToken]), [['100', undefined], ['100', 'second']]);
+});
+
+test('history listing keeps the start id when nothing changed', async () => {
+  const gmail = fakeGmail({ history: () => ({}) });
+  assert.deepEqual(await listHistoryMessageIds(gmail, '100'), { messageIds: [], historyId: '100' });
+});
+
+test('expired history returns null so the caller falls back to a query', async () => {
+  const gmail = fakeGmail({
+    history: () => {
+      throw Object.assign(new Error('Requested entity was not found.'), { code: 404 });
+    },
+  });
+  assert.equal(await listHistoryMessageIds(gmail, '1'), null);
+
+  const failing = fakeGmail({
+    history: () => {
+      throw Object.assign(new Error('Backend Error'), { code: 500 });
+    },
+  });
+  await assert.rejects(listHistoryMessageIds(failing, '1'), /Backend Error/);
+});
+
+test('only messages from enabled banks are kept', async () => {
+  const gmail = fakeGmail({
+    headers: {
+      a: { from: 'HDFC Bank InstaAlerts <alerts@hdfcbank.net>', subject: 'You have done a UPI txn' },
+      b: { from: 'newsletter@example.com', subject: 'Weekly digest' },
+      c: { from: 'alerts@icicibank.com', subject: 'Transaction alert' },
+    },
+  });
+
+  assert.deepEqual(await filterBankMessages(gmail, getEnabledParsers(['hdfc']), ['a', 'b', 'c']), ['a']);
+  assert.deepEqual(await filterBankMessages(gmail, getEnabledParsers(['hdfc', 'icici']), ['a', 'b', 'c']), ['a', 'c']);
+});
+
+test('OTPs, offers and statements from alert senders are skipped like the polling query does', async () => {
+  const gmail = fakeGmail({
+    headers: {
+      otp: { from: 'alerts@hdfcbank.net', subject: 'OTP for your NetBanking login', snippet: 'Your OTP is 123456. Do not share it.' },
+      offer: { from: 'alerts@hdfcbank.net', subject: 'Pre-approved offer just for you', snippet: 'Get a personal loan in 10 seconds' },
+      statement: { from: 'cbssbi.cas@alerts.sbi.co.in', subject: 'Your e-Account Statement', snippet: 'Please find attached your statement' },
+      alert: { from: 'alerts@hdfcbank.net', subject: 'View: Account update for your HDFC Bank A/c', snippet: 'Rs.500.00 has been debited from account **1234' },
+      bodyOnly: { from: 'donotreply.sbiatm@alerts.sbi.co.in', subject: 'Alert', snippet: 'Your a/c no. XXXXXXXX5678 is credited by Rs.2000.00' },
+      impostor: { from: '"HDFC Bank" <offers@hdfc-rewards.example>', subject: 'Your account was debited', snippet: 'Click here' },
+    },
+  });
+
+  const ids = ['otp', 'offer', 'statement', 'alert', 'bodyOnly', 'impostor'];
+  assert.deepEqual(await filterBankMessages(gmail, getEnabledParsers(['hdfc', 'sbi']), ids), ['alert', 'bodyOnly']);
+});
@@ -0,0 +1,162 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { setTimeout as sleep } from 'timers/promises';
+import {
+  acquireUserLease,
+  claimJobs,
+  DEFAULT_WORKER_OPTIONS,
+  enqueueSyncJobs,
+  finishJob,
+  releaseUserLease,
+  runWorker,
+  userBusyError,
+  WORKER_ID,
+  type SyncJob,
+} from '../lib/job-queue';
+import { fakeSupabase } from './fake-supabase';
+
+const OPTIONS = { ...DEFAULT_WORKER_OPTIONS, baseBackoffMs: 1000 };
+const secondsFromNow = (seconds: number) => new Date(Date.now() + seconds * 1000).toISOString();
+
+test('users with a queued or running job are not queued again', async () => {
+  const { supabase, tables } = fakeSupabase();
+  const first = await enqueueSyncJobs(supabase, ['user-1', 'user-2']);
+  const second = await enqueueSyncJobs(supabase, ['user-1', 'user-3']);
+
+  assert.equal(first.jobs.length, 2);
+  assert.deepEqual(second.jobs.map(job => job.user_id), ['user-3']);
+  assert.deepEqual(second.existing.map(job => job.id), [first.jobs[0].id]);
+  assert.equal(tables.sync_jobs.length, 3);
+});
+
+test('two workers polling at once claim each job only once', async () => {
+  const { supabase } = fakeSupabase();
+  await enqueueSyncJobs(supabase, ['user-1', 'user-2', 'user-3']);
+
+  const [a, b] = await Promise.all([claimJobs(supabase, 3, 60_000), claimJobs(supabase, 3, 60_000)]);
+  const claimed = [...a, ...b].map(job => job.user_id).sort();
+
+  assert.deepEqual(claimed, ['user-1', 'user-2', 'user-3']);
+  assert.ok([...a, ...b].every(job => job.status === 'running' && job.attempts === 1 && job.lease_owner === WORKER_ID));
+});
+
+test('jobs are not claimed before they are due or while their lease is live', async () => {
+  const { supabase, tables } = fakeSupabase();
+  await enqueueSyncJobs(supabase, ['user-1']);
+  tables.sync_jobs[0].run_after = secondsFromNow(60);
+  assert.deepEqual(await claimJobs(supabase, 1, 60_000), []);
+
+  Object.assign(tables.sync_jobs[0], { status: 'running', attempts: 1, lease_owner: 'other', lease_expires_at: secondsFromNow(60) });
+  assert.deepEqual(await claimJobs(supabase, 1, 60_000), []);
+});
+
+test('a running job whose lease expired is taken over as a new attempt', async () => {
+  const { supabase, tables } = fakeSupabase();
+  await enqueueSyncJobs(supabase, ['user-1']);
+  Object.assign(tables.sync_jobs[0], { status: 'running', attempts: 1, lease_owner: 'dead-worker', lease_expires_at: secondsFromNow(-1) });
+
+  const [job] = await claimJobs(supabase, 1, 60_000);
+  assert.equal(job.attempts, 2);
+  assert.equal(job.lease_owner, WORKER_ID);
+});
+
+test('failed attempts back off exponentially, then the job fails', async () => {
+  const { supabase, tables } = fakeSupabase();
+  await enqueueSyncJobs(supabase, ['user-1']);
+  const row = tables.sync_jobs[0];
+
+  const delays: number[] = [];
+  for (let attempt = 1; attempt <= 3; attempt++) {
+    row.run_after = secondsFromNow(-1);
+    const [job] = await claimJobs(supabase, 1, 60_000);
+    const before = Date.now();
+    await finishJob(supabase, job, { error: new Error(`attempt ${attempt}`) }, OPTIONS);
+    if (row.status === 'queued') delays.push(Math.round((new Date(row.run_after).getTime() - before) / 1000));
+  }
+
+  assert.deepEqual(delays, [1, 2]);
+  assert.equal(row.status, 'failed');
+  assert.equal(row.error, 'attempt 3');
+  assert.equal(row.lease_owner, null);
+});
+
+test('a job whose user is busy is requeued without using an attempt', async () => {
+  const { supabase, tables } = fakeSupabase();
+  await enqueueSyncJobs(supabase, ['user-1']);
+
+  const [job] = await claimJobs(supabase, 1, 60_000);
+  await finishJob(supabase, job, { error: userBusyError() }, OPTIONS);
+
+  assert.equal(tables.sync_jobs[0].status, 'queued');
+  assert.equal(tables.sync_jobs[0].attempts, 0);
+  assert.ok(new Date(tables.sync_jobs[0].run_after).getTime() > Date.now());
+});
+
+test('a worker that lost its lease cannot overwrite the attempt that took over', async () => {
+  const { supabase, tables } = fakeSupabase();
+  await enqueueSyncJobs(supabase, ['user-1']);
+
+  const [stale] = await claimJobs(supabase, 1, 60_000);
+  Object.assign(tables.sync_jobs[0], { attempts: 2, lease_owner: 'other-worker', lease_expires_at: secondsFromNow(60) });
+
+  await finishJob(supabase, stale, { result: { transactions: 0 } }, OPTIONS);
+  assert.equal(tables.sync_jobs[0].status, 'running');
+  assert.equal(tables.sync_jobs[0].lease_owner, 'other-worker');
+});
+
+test('user leases are exclusive until released or expired', async () => {
+  const { supabase, tables } = fakeSupabase({ users: [{ id: 'user-1', lock_owner: null, lock_expires_at: null }] });
+
+  assert.equal(await acquireUserLease(supabase, 'user-1'), true);
+  assert.equal(await acquireUserLease(supabase, 'user-1'), false);
+
+  await releaseUserLease(supabase, 'user-1');
+  assert.equal(await acquireUserLease(supabase, 'user-1'), true);
+
+  tables.users[0].lock_expires_at = secondsFromNow(-1);
+  tables.users[0].lock_owner = 'dead-worker';
+  assert.equal(await acquireUserLease(supabase, 'user-1'), true);
+});
+
+test('the worker runs queued jobs, renews their leases and reports the finished batch', async () => {
+  const { supabase, tables } = fakeSupabase();
+  const { batchId } = await enqueueSyncJobs(supabase, ['user-1', 'user-2']);
+  tables.sync_jobs[1].max_attempts = 1;
+
+  const leaseMs = 60;
+  const renewedBy: number[] = [];
+  const controller = new AbortController();
+  let completed: SyncJob[] = [];
+  const lease = (job: SyncJob) => new Date(tables.sync_jobs.find(row => row.id === job.id)!.lease_expires_at).getTime();
+
+  const worker = runWorker(
+    supabase,
+    async job => {
+      const claimedUntil = lease(job);
+      // Run for several lease lengths; the lease has to keep moving
+      await sleep(leaseMs * 4);
+      renewedBy.push(lease(job) - claimedUntil);
+      if (job.user_id === 'user-2') throw new Error('Gmail is down');
+      return { transactions: 1 };
+    },
+    {
+      concurrency: 2,
+      pollIntervalMs: 10,
+      leaseMs,
+      baseBackoffMs: 60_000,
+      signal: controller.signal,
+      onBatchComplete: (id, jobs) => {
+        if (id === batchId) completed = jobs;
+      },
+    }
+  );
+
+  while (completed.length === 0) await sleep(10);
+  controller.abort();
+  await worker;
+
+  assert.ok(renewedBy.every(ms => ms >= leaseMs * 2), `leases moved by ${renewedBy.join(', ')}ms`);
+  assert.deepEqual(completed.map(job => [job.user_id, job.status]), [['user-1', 'succeeded'], ['user-2', 'failed']]);
+  assert.deepEqual(tables.sync_jobs[0].result, { transactions: 1 });
+  assert.equal(tables.sync_jobs[1].error, 'Gmail is down');
+});
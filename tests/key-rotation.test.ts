@@ -0,0 +1,62 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import crypto from 'crypto';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { decrypt, encrypt, getKeyId } from '../lib/encryption';
+import { rotateRefreshTokens } from '../lib/key-rotation';
+import { fakeSupabase } from './fake-supabase';
+
+const oldEnv = { ENCRYPTION_KEYS: 'k1:old-secret' };
+const rotatedEnv = { ENCRYPTION_KEYS: 'k2:new-secret,k1:old-secret' };
+const UUID = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+// users.id is a uuid: like PostgREST, fail any comparison against something that is not one
+function uuidChecked(supabase: SupabaseClient): SupabaseClient {
+  return {
+    from: (name: string) => {
+      const query = supabase.from(name) as any;
+      const gt = query.gt.bind(query);
+      query.gt = (column: string, value: string) => {
+        if (!UUID.test(value)) {
+          query.then = (resolve: (value: unknown) => void) =>
+            resolve({ data: null, error: { message: `invalid input syntax for type uuid: "${value}"` } });
+          return query;
+        }
+        return gt(column, value);
+      };
+      return query;
+    },
+  } as unknown as SupabaseClient;
+}
+
+test('every page of users is rotated, starting without a lower id bound', async () => {
+  const users = [1, 2, 3].map(n => ({
+    id: crypto.randomUUID(),
+    google_email: `user${n}@gmail.com`,
+    google_refresh_token: encrypt(`token-${n}`, n === 3 ? rotatedEnv : oldEnv),
+  }));
+  const { supabase, tables } = fakeSupabase({ users });
+
+  const result = await rotateRefreshTokens(uuidChecked(supabase), { pageSize: 2, env: rotatedEnv });
+
+  assert.equal(result.rotated, 2);
+  assert.equal(result.current, 1);
+  assert.deepEqual(result.failed, []);
+  assert.deepEqual(Object.fromEntries(result.byKey), { k1: 2, k2: 1 });
+  for (const [index, user] of tables.users.entries()) {
+    assert.equal(getKeyId(user.google_refresh_token), 'k2');
+    assert.equal(decrypt(user.google_refresh_token, rotatedEnv), `token-${index + 1}`);
+  }
+});
+
+test('a dry run counts tokens without writing them', async () => {
+  const token = encrypt('token', oldEnv);
+  const { supabase, tables } = fakeSupabase({
+    users: [{ id: crypto.randomUUID(), google_email: 'user@gmail.com', google_refresh_token: token }],
+  });
+
+  const result = await rotateRefreshTokens(uuidChecked(supabase), { dryRun: true, env: rotatedEnv });
+
+  assert.equal(result.rotated, 1);
+  assert.equal(tables.users[0].google_refresh_token, token);
+});
@@ -0,0 +1,76 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createLogger, redact, runWithLogContext, type LogLevel } from '../lib/logger';
+
+function capture(level: LogLevel = 'debug') {
+  const lines: { level: LogLevel; entry: any }[] = [];
+  const log = createLogger({ service: 'test' }, {
+    level,
+    write: (line, lineLevel) => lines.push({ level: lineLevel, entry: JSON.parse(line) }),
+  });
+  return { log, lines };
+}
+
+test('secrets and email content are redacted by field name', () => {
+  const redacted = redact({
+    refreshToken: 'r',
+    google_refresh_token: 'g',
+    api_key: 'k',
+    authorization: 'Bearer abc',
+    body: 'Dear customer...',
+    body_snippet: 'Rs 500 debited',
+    html: '<p>',
+    nested: { password: 'p', clientSecret: 's' },
+    token_failures: 3,
+    subject: 'Alert',
+  }) as any;
+
+  assert.equal(redacted.refreshToken, '[REDACTED]');
+  assert.equal(redacted.google_refresh_token, '[REDACTED]');
+  assert.equal(redacted.api_key, '[REDACTED]');
+  assert.equal(redacted.authorization, '[REDACTED]');
+  assert.equal(redacted.body, '[REDACTED]');
+  assert.equal(redacted.body_snippet, '[REDACTED]');
+  assert.equal(redacted.html, '[REDACTED]');
+  assert.deepEqual(redacted.nested, { password: '[REDACTED]', clientSecret: '[REDACTED]' });
+  assert.equal(redacted.token_failures, 3);
+  assert.equal(redacted.subject, 'Alert');
+});
+
+test('bearer tokens inside strings and errors are masked', () => {
+  assert.equal(redact('sent Bearer abc.def-123 to api'), 'sent Bearer [REDACTED] to api');
+
+  const error = Object.assign(new Error('401 for Bearer xyz'), { status: 401 });
+  const redacted = redact(error) as any;
+  assert.equal(redacted.name, 'Error');
+  assert.equal(redacted.message, '401 for Bearer [REDACTED]');
+  assert.equal(redacted.status, 401);
+});
+
+test('lines below the level are dropped and warnings go to the error stream', () => {
+  const { log, lines } = capture('info');
+  log.debug('hidden');
+  log.info('shown', { count: 2 });
+  log.error('failed');
+
+  assert.deepEqual(lines.map(line => line.entry.message), ['shown', 'failed']);
+  assert.equal(lines[0].entry.count, 2);
+  assert.equal(lines[0].entry.service, 'test');
+  assert.equal(lines[1].level, 'error');
+});
+
+test('context fields reach every line logged inside, across awaits', async () => {
+  const { log, lines } = capture();
+
+  await runWithLogContext({ cycleId: 'c1', userId: 'u1' }, async () => {
+    await new Promise(resolve => setImmediate(resolve));
+    log.child({ step: 'sync' }).info('inside');
+    await runWithLogContext({ jobId: 'j1' }, async () => log.info('nested'));
+  });
+  log.info('outside');
+
+  assert.equal(lines[0].entry.cycleId, 'c1');
+  assert.equal(lines[0].entry.step, 'sync');
+  assert.deepEqual([lines[1].entry.userId, lines[1].entry.jobId], ['u1', 'j1']);
+  assert.equal(lines[2].entry.cycleId, undefined);
+});
@@ -0,0 +1,42 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { validateManualTransaction, buildManualTransaction, isManualReference } from '../lib/manual-transactions';
+
+test('valid bodies produce manual transactions', () => {
+  const { input, error } = validateManualTransaction({
+    amount: 120.5,
+    type: 'Debit',
+    dateTime: '2026-01-12T18:30:00',
+    category: 'Food',
+    method: 'Cash',
+  });
+
+  assert.equal(error, undefined);
+  const transaction = buildManualTransaction(input!);
+  assert.equal(transaction.amount, 120.5);
+  assert.equal(transaction.method, 'Cash');
+  assert.equal(transaction.dateTime, '12/01/2026 6:30 PM');
+  assert.ok(isManualReference(transaction.referenceNumber));
+});
+
+test('editing keeps the original reference number', () => {
+  const { input } = validateManualTransaction({ amount: 50, type: 'Credit' });
+  assert.equal(buildManualTransaction(input!, 'MANUAL_123').referenceNumber, 'MANUAL_123');
+});
+
+test('invalid bodies are rejected', () => {
+  assert.match(validateManualTransaction({ amount: -5, type: 'Debit' }).error || '', /amount/);
+  assert.match(validateManualTransaction({ amount: 5, type: 'debit' }).error || '', /type/);
+  assert.match(validateManualTransaction({ amount: 5, type: 'Debit', dateTime: 'yesterday' }).error || '', /dateTime/);
+  assert.match(validateManualTransaction({ amount: 5, type: 'Debit', account: '12' }).error || '', /account/);
+  assert.deepEqual(validateManualTransaction({ amount: '5', category: 7 }).details, [
+    'amount must be a number',
+    'type is required',
+    'category must be a string',
+  ]);
+});
+
+test('only MANUAL_ references are manual', () => {
+  assert.equal(isManualReference('537932190659'), false);
+  assert.equal(isManualReference('EMAIL_abc'), false);
+});
@@ -0,0 +1,100 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import { applyRun, emptySyncMetrics, recordRun, renderMetrics, summariseRun } from '../lib/metrics';
+import type { SyncJob } from '../lib/job-queue';
+import { fakeSupabase } from './fake-supabase';
+
+function job(overrides: Partial<SyncJob>): SyncJob {
+  return {
+    id: 'job',
+    batch_id: 'batch-1',
+    user_id: 'user',
+    status: 'succeeded',
+    attempts: 1,
+    max_attempts: 3,
+    run_after: '2026-01-01T00:00:00.000Z',
+    lease_owner: null,
+    lease_expires_at: null,
+    result: null,
+    error: null,
+    created_at: '2026-01-01T00:00:00.000Z',
+    started_at: null,
+    finished_at: null,
+    ...overrides,
+  };
+}
+
+test('a run sums the metrics of its jobs and the attempt errors', () => {
+  const jobs = [
+    job({ result: { metrics: { ...emptySyncMetrics(), emails_fetched: 5, emails_parsed: 4, emails_missed: 1, transactions: 3, duplicates: 1 } } }),
+    job({ result: { metrics: { ...emptySyncMetrics(), token_failures: 1 }, tokenFailure: true } }),
+    job({ status: 'failed', created_at: '2026-01-01T00:00:30.000Z' }),
+  ];
+
+  const run = summariseRun('batch-1', jobs, { google_api_errors: 2 }, new Date('2026-01-01T00:01:30.000Z'));
+
+  assert.equal(run.id, 'batch-1');
+  assert.equal(run.duration_ms, 90000);
+  assert.deepEqual([run.jobs, run.succeeded, run.failed], [3, 2, 1]);
+  assert.deepEqual(
+    [run.emails_fetched, run.emails_parsed, run.emails_missed, run.duplicates, run.transactions],
+    [5, 4, 1, 1, 3]
+  );
+  assert.equal(run.token_failures, 1);
+  assert.equal(run.google_api_errors, 2);
+});
+
+test('runs accumulate into counters and the duration histogram', () => {
+  const first = summariseRun('a', [job({ result: { metrics: { ...emptySyncMetrics(), emails_fetched: 2 } } })], {}, new Date('2026-01-01T00:00:45.000Z'));
+  const second = summariseRun('b', [job({ status: 'failed' })], {}, new Date('2026-01-01T00:05:00.000Z'));
+  const series = applyRun(applyRun({}, first), second);
+
+  assert.equal(series.finance_sync_cycles_total, 2);
+  assert.equal(series.finance_sync_emails_fetched_total, 2);
+  assert.equal(series['finance_sync_jobs_total{status="failed"}'], 1);
+  assert.equal(series['finance_sync_cycle_duration_seconds_bucket{le="30"}'], 0);
+  assert.equal(series['finance_sync_cycle_duration_seconds_bucket{le="60"}'], 1);
+  assert.equal(series['finance_sync_cycle_duration_seconds_bucket{le="300"}'], 2);
+  assert.equal(series['finance_sync_cycle_duration_seconds_bucket{le="+Inf"}'], 2);
+  assert.equal(series.finance_sync_cycle_duration_seconds_sum, 345);
+  assert.equal(series.finance_sync_last_cycle_timestamp_seconds, Date.parse('2026-01-01T00:05:00.000Z') / 1000);
+});
+
+test('a run finished by two jobs at once is recorded and counted once', async () => {
+  const { supabase, tables } = fakeSupabase();
+  const increments: Record<string, number>[] = [];
+  const client = {
+    ...supabase,
+    rpc: async (fn: string, args: { increments: Record<string, number> }) => {
+      assert.equal(fn, 'increment_sync_metrics');
+      increments.push(args.increments);
+      return { data: null, error: null };
+    },
+  } as unknown as SupabaseClient;
+
+  const run = summariseRun('batch-1', [job({ id: 'a' }), job({ id: 'b' })], {}, new Date('2026-01-01T00:00:45.000Z'));
+  const recorded = await Promise.all([recordRun(client, run), recordRun(client, run)]);
+
+  assert.deepEqual(recorded.sort(), [false, true]);
+  assert.equal(tables.sync_runs.length, 1);
+  assert.equal(increments.length, 1);
+  assert.equal(increments[0].finance_sync_cycles_total, 1);
+  assert.equal(increments[0]['finance_sync_jobs_total{status="succeeded"}'], 2);
+});
+
+test('metrics render in Prometheus text format with buckets in order', () => {
+  const run = summariseRun('a', [job({})], {}, new Date('2026-01-01T00:00:20.000Z'));
+  const text = renderMetrics(applyRun({}, run));
+  const lines = text.trim().split('\n');
+
+  assert.ok(lines.includes('# TYPE finance_sync_cycle_duration_seconds histogram'));
+  assert.ok(lines.includes('finance_sync_cycles_total 1'));
+
+  const histogram = lines.filter(line => line.startsWith('finance_sync_cycle_duration_seconds'));
+  assert.equal(histogram[0], 'finance_sync_cycle_duration_seconds_bucket{le="10"} 0');
+  assert.equal(histogram[histogram.length - 3], 'finance_sync_cycle_duration_seconds_bucket{le="+Inf"} 1');
+  assert.equal(histogram[histogram.length - 2], 'finance_sync_cycle_duration_seconds_sum 20');
+  assert.equal(histogram[histogram.length - 1], 'finance_sync_cycle_duration_seconds_count 1');
+  assert.equal(renderMetrics({}), '\n');
+});
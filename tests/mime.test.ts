@@ -0,0 +1,83 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { readFileSync } from 'fs';
+import path from 'path';
+import { parseRawEmail, extractBody, htmlToText, decodeHtmlEntities, getHeader } from '../lib/mime';
+import { parseHDFCEmail } from '../lib/email-parser';
+
+const EML_DIR = path.join(__dirname, 'fixtures', 'eml');
+
+function loadEml(name: string) {
+  const payload = parseRawEmail(readFileSync(path.join(EML_DIR, name), 'utf-8'));
+  return {
+    payload,
+    subject: getHeader(payload.headers, 'subject'),
+    date: getHeader(payload.headers, 'date'),
+  };
+}
+
+test('plain text alert is read as-is', () => {
+  const { payload, subject, date } = loadEml('hdfc-plain-upi-debit.eml');
+  const body = extractBody(payload);
+
+  assert.match(body, /Rs\.250\.00 has been debited/);
+
+  const result = parseHDFCEmail(body, subject, date, 'plain-1');
+  assert.equal(result.success, true);
+  assert.equal(result.transaction?.amount, 250);
+  assert.equal(result.transaction?.type, 'Debit');
+  assert.equal(result.transaction?.referenceNumber, '537932190659');
+});
+
+test('HTML-only alert is converted to text with entities decoded', () => {
+  const { payload, subject, date } = loadEml('hdfc-html-only-credit.eml');
+  const body = extractBody(payload);
+
+  assert.doesNotMatch(body, /<|&nbsp;|font-family/);
+  assert.match(body, /Rs\. 4,000\.00 is successfully credited/);
+
+  const result = parseHDFCEmail(body, subject, date, 'html-1');
+  assert.equal(result.success, true);
+  assert.equal(result.transaction?.amount, 4000);
+  assert.equal(result.transaction?.type, 'Credit');
+  assert.equal(result.transaction?.account, '8256');
+  assert.equal(result.transaction?.description, 'Tabrez Khan (tabrezkhan009@ybl)');
+});
+
+test('nested multipart alert skips empty text part and attachments', () => {
+  const { payload, subject, date } = loadEml('hdfc-nested-multipart-card.eml');
+  const body = extractBody(payload);
+
+  assert.match(body, /Authorization code: 004512/);
+  assert.doesNotMatch(body, /PNG/);
+
+  const result = parseHDFCEmail(body, subject, date, 'nested-1');
+  assert.equal(result.success, true);
+  assert.equal(result.transaction?.amount, 1299);
+  assert.equal(result.transaction?.method, 'Debit Card');
+  assert.equal(result.transaction?.account, '4118');
+  assert.equal(result.transaction?.description, 'SRMIST FACULTY OF ENGI');
+  assert.equal(result.transaction?.dateTime, '13/01/2026 7:30 PM');
+});
+
+test('text/plain is preferred over HTML when both are present', () => {
+  const encode = (text: string) => Buffer.from(text, 'utf-8').toString('base64');
+  const body = extractBody({
+    mimeType: 'multipart/alternative',
+    parts: [
+      { mimeType: 'text/html', body: { data: encode('<p>html version</p>') } },
+      { mimeType: 'text/plain', body: { data: encode('plain version') } },
+    ],
+  });
+
+  assert.equal(body, 'plain version');
+});
+
+test('table rows are flattened onto single lines', () => {
+  const text = htmlToText('<table><tr><td>Amount</td><td>Rs. 500</td></tr><tr><td>Account</td><td>XX8256</td></tr></table>');
+  assert.equal(text, 'Amount Rs. 500\nAccount XX8256');
+});
+
+test('numeric and named entities are decoded', () => {
+  assert.equal(decodeHtmlEntities('&#8377;100 &amp; &#x20B9;5&nbsp;only'), '₹100 & ₹5 only');
+});
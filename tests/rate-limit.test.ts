@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createRateLimiter, RATE_LIMITS } from '../lib/rate-limit';
+
+const limit = { capacity: 3, refillPerMinute: 1 };
+
+test('a bucket allows its capacity at once, then refills over time', () => {
+  const limiter = createRateLimiter();
+  const now = 1_000_000;
+
+  assert.deepEqual([1, 2, 3].map(() => limiter.take('a', limit, now).allowed), [true, true, true]);
+
+  const blocked = limiter.take('a', limit, now);
+  assert.equal(blocked.allowed, false);
+  assert.equal(blocked.retryAfterMs, 60000);
+
+  assert.equal(limiter.take('a', limit, now + 30000).allowed, false);
+  const refilled = limiter.take('a', limit, now + 61000);
+  assert.equal(refilled.allowed, true);
+  assert.equal(refilled.remaining, 0);
+});
+
+test('buckets are separate per key and never exceed capacity', () => {
+  const limiter = createRateLimiter();
+  const now = 1_000_000;
+
+  for (let i = 0; i < 3; i++) limiter.take('a', limit, now);
+  assert.equal(limiter.take('b', limit, now).allowed, true);
+
+  // A long idle period refills only to capacity
+  assert.equal(limiter.take('a', limit, now + 60 * 60000).remaining, 2);
+});
+
+test('the sync limit allows a few triggers, then one per cron interval', () => {
+  const limiter = createRateLimiter();
+  const now = 1_000_000;
+
+  for (let i = 0; i < RATE_LIMITS.sync.capacity; i++) {
+    assert.equal(limiter.take('sync', RATE_LIMITS.sync, now).allowed, true);
+  }
+  assert.equal(limiter.take('sync', RATE_LIMITS.sync, now).retryAfterMs, 5 * 60000);
+});
+
+test('full buckets are dropped when there are too many', () => {
+  const limiter = createRateLimiter(2);
+  const now = 1_000_000;
+
+  limiter.take('a', limit, now);
+  limiter.take('b', limit, now);
+  limiter.take('c', limit, now + 5 * 60000);
+
+  assert.equal(limiter.size(), 1);
+});
@@ -0,0 +1,99 @@
+// Transaction times are read in Indian time
+process.env.TZ = 'Asia/Kolkata';
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { scoreDuplicate, reconcileTransactions, validateResolution } from '../lib/reconciliation';
+import { transaction } from './transaction-fixtures';
+
+test('same spend from two alerts scores high', () => {
+  const upi = transaction();
+  const fallback = transaction({ referenceNumber: 'EMAIL_18c2f', dateTime: '12/01/2026 6:32 PM', description: 'SWIGGY' });
+
+  const result = scoreDuplicate(fallback, upi)!;
+  assert.ok(result.score >= 0.9, `score ${result.score}`);
+  assert.ok(result.reasons.includes('same account'));
+});
+
+test('different amounts, directions or distant times never match', () => {
+  const base = transaction();
+  assert.equal(scoreDuplicate(transaction({ referenceNumber: 'x', amount: 451 }), base), null);
+  assert.equal(scoreDuplicate(transaction({ referenceNumber: 'x', type: 'Credit' }), base), null);
+  assert.equal(scoreDuplicate(transaction({ referenceNumber: 'x', dateTime: '14/01/2026 6:30 PM' }), base), null);
+  assert.equal(scoreDuplicate(base, base), null);
+});
+
+test('fallback references are merged, bank references are only flagged', () => {
+  const stored = [transaction()];
+  const { keep, merged, flagged } = reconcileTransactions([
+    transaction({ referenceNumber: 'EMAIL_18c2f', method: 'Debit Card', dateTime: '12/01/2026 6:31 PM' }),
+    transaction({ referenceNumber: '600999999999', dateTime: '12/01/2026 6:35 PM' }),
+  ], stored);
+
+  assert.deepEqual(merged.map(m => m.transaction.referenceNumber), ['EMAIL_18c2f']);
+  assert.deepEqual(flagged.map(m => m.transaction.referenceNumber), ['600999999999']);
+  assert.deepEqual(keep.map(t => t.referenceNumber), ['600999999999']);
+});
+
+test('repeat spends at the same merchant are flagged, never merged', () => {
+  const metro = (referenceNumber: string, dateTime: string) => transaction({
+    referenceNumber,
+    dateTime,
+    amount: 40,
+    method: 'Debit Card',
+    account: '4118',
+    description: 'DELHI METRO RAIL',
+  });
+  const morning = metro('EMAIL_18c2f', '12/01/2026 9:00 AM');
+
+  const hoursApart = reconcileTransactions([metro('EMAIL_18d07', '12/01/2026 1:00 PM')], [morning]);
+  assert.equal(hoursApart.merged.length, 0);
+  assert.deepEqual(hoursApart.keep.map(t => t.referenceNumber), ['EMAIL_18d07']);
+
+  // Even minutes apart, two card alerts are two taps
+  const minutesApart = reconcileTransactions([metro('EMAIL_18d07', '12/01/2026 9:05 AM')], [morning]);
+  assert.equal(minutesApart.merged.length, 0);
+  assert.equal(minutesApart.flagged.length, 1);
+  assert.equal(minutesApart.keep.length, 1);
+});
+
+test('reports from different channels are only merged when minutes apart', () => {
+  const upi = transaction();
+  const card = (dateTime: string) => transaction({ referenceNumber: 'EMAIL_18c2f', method: 'Debit Card', dateTime });
+
+  assert.equal(reconcileTransactions([card('12/01/2026 6:45 PM')], [upi]).merged.length, 1);
+  const later = reconcileTransactions([card('12/01/2026 6:50 PM')], [upi]);
+  assert.equal(later.merged.length, 0);
+  assert.equal(later.keep.length, 1);
+});
+
+test('manual entries match their bank email with neutral description and account', () => {
+  const manual = transaction({
+    referenceNumber: 'MANUAL_1768222800000',
+    account: '',
+    description: 'Manual Entry',
+    dateTime: '12/01/2026 6:00 PM',
+  });
+
+  const { merged, flagged } = reconcileTransactions([transaction()], [manual]);
+  assert.equal(merged.length + flagged.length, 1);
+
+  const manualOnly = reconcileTransactions([transaction()], [manual], { mergeThreshold: Infinity });
+  assert.equal(manualOnly.merged.length, 0);
+  assert.equal(manualOnly.flagged.length, 1);
+});
+
+test('unrelated transactions pass through', () => {
+  const { keep, merged, flagged } = reconcileTransactions(
+    [transaction({ referenceNumber: 'a', amount: 99 })],
+    [transaction()]
+  );
+  assert.equal(keep.length, 1);
+  assert.equal(merged.length + flagged.length, 0);
+});
+
+test('resolutions are validated', () => {
+  assert.deepEqual(validateResolution({ action: 'merge', keep: '600123456789' }), { action: 'merge', keep: '600123456789' });
+  assert.match(validateResolution({ action: 'delete' }).error || '', /action/);
+  assert.match(validateResolution({ action: 'dismiss', keep: 'x' }).error || '', /keep/);
+});
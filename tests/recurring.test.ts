@@ -0,0 +1,99 @@
+// Expected dates are calendar days in Indian time
+process.env.TZ = 'Asia/Kolkata';
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectRecurring, findMissedPayments, findAmountJumps, counterpartyOf } from '../lib/recurring';
+import { transaction } from './transaction-fixtures';
+
+const RENT = 'Landlord Name (landlord@okaxis)';
+
+test('counterparties come from the VPA, or the normalised description', () => {
+  assert.equal(counterpartyOf(transaction({ dateTime: '01/01/2026', amount: 1, description: RENT })), 'landlord@okaxis');
+  assert.equal(counterpartyOf(transaction({ dateTime: '01/01/2026', amount: 1, description: 'NETFLIX  COM 1234' })), 'netflix com');
+});
+
+test('monthly rent and salary are grouped with the next expected date', () => {
+  const history = [
+    transaction({ dateTime: '01/01/2026 9:00 AM', amount: 15000, description: RENT }),
+    transaction({ dateTime: '31/01/2026 9:00 PM', amount: 100000, description: 'ACME CORP SALARY', type: 'Credit' }),
+    transaction({ dateTime: '02/02/2026 10:00 AM', amount: 15000, description: RENT }),
+    transaction({ dateTime: '05/02/2026 1:00 PM', amount: 450, description: 'Swiggy (swiggy@icici)' }),
+    transaction({ dateTime: '28/02/2026 9:00 PM', amount: 101500, description: 'ACME CORP SALARY', type: 'Credit' }),
+    transaction({ dateTime: '01/03/2026 8:30 AM', amount: 15000, description: RENT }),
+    transaction({ dateTime: '31/03/2026 9:00 PM', amount: 100000, description: 'ACME CORP SALARY', type: 'Credit' }),
+    transaction({ dateTime: '01/03/2026 11:00 AM', amount: 2000, description: RENT }),
+  ];
+
+  const groups = detectRecurring(history);
+  assert.equal(groups.length, 2);
+
+  const rent = groups.find(g => g.type === 'Debit')!;
+  assert.equal(rent.cadence, 'monthly');
+  assert.equal(rent.occurrences, 3);
+  assert.equal(rent.next_expected_date, '2026-04-01');
+  assert.equal(rent.next_expected_amount, 15000);
+
+  const salary = groups.find(g => g.type === 'Credit')!;
+  assert.equal(salary.counterparty, 'acme corp salary');
+  assert.equal(salary.occurrences, 3);
+});
+
+test('group keys stay the same when older occurrences are imported', () => {
+  const rent = [
+    transaction({ dateTime: '01/02/2026', amount: 15000, description: RENT }),
+    transaction({ dateTime: '01/03/2026', amount: 15000, description: RENT }),
+    transaction({ dateTime: '01/04/2026', amount: 15000, description: RENT }),
+  ];
+  const [before] = detectRecurring(rent);
+  const [after] = detectRecurring([transaction({ dateTime: '01/01/2026', amount: 15000, description: RENT }), ...rent]);
+
+  assert.equal(before.group_key, 'Debit:landlord@okaxis:monthly');
+  assert.equal(after.group_key, before.group_key);
+  assert.equal(after.occurrences, 4);
+
+  const maintenance = ['05/02/2026', '05/03/2026', '05/04/2026']
+    .map(dateTime => transaction({ dateTime, amount: 2000, description: RENT }));
+  const keys = detectRecurring([...rent, ...maintenance]).map(group => group.group_key).sort();
+  assert.deepEqual(keys, ['Debit:landlord@okaxis:monthly', 'Debit:landlord@okaxis:monthly:2']);
+});
+
+test('irregular payments are not recurring', () => {
+  const history = [
+    transaction({ dateTime: '01/01/2026', amount: 500, description: 'Swiggy (swiggy@icici)' }),
+    transaction({ dateTime: '04/01/2026', amount: 500, description: 'Swiggy (swiggy@icici)' }),
+    transaction({ dateTime: '20/01/2026', amount: 500, description: 'Swiggy (swiggy@icici)' }),
+    transaction({ dateTime: '22/02/2026', amount: 500, description: 'Swiggy (swiggy@icici)' }),
+  ];
+  assert.deepEqual(detectRecurring(history), []);
+});
+
+test('a price rise on the expected date stays in the series and is flagged', () => {
+  const history = [
+    transaction({ dateTime: '10/01/2026', amount: 649, description: 'NETFLIX' }),
+    transaction({ dateTime: '10/02/2026', amount: 649, description: 'NETFLIX' }),
+    transaction({ dateTime: '10/03/2026', amount: 649, description: 'NETFLIX' }),
+    transaction({ dateTime: '10/04/2026', amount: 799, description: 'NETFLIX' }),
+  ];
+
+  const [netflix] = detectRecurring(history);
+  assert.equal(netflix.occurrences, 4);
+  assert.deepEqual(
+    { from: netflix.last_change?.from, to: netflix.last_change?.to },
+    { from: 649, to: 799 }
+  );
+  assert.deepEqual(findAmountJumps([netflix]), [netflix]);
+  assert.equal(netflix.next_expected_amount, 799);
+});
+
+test('missed debits are reported after the grace period, until a cycle has passed', () => {
+  const [rent] = detectRecurring([
+    transaction({ dateTime: '01/01/2026', amount: 15000, description: RENT }),
+    transaction({ dateTime: '01/02/2026', amount: 15000, description: RENT }),
+    transaction({ dateTime: '01/03/2026', amount: 15000, description: RENT }),
+  ]);
+
+  assert.deepEqual(findMissedPayments([rent], new Date(2026, 3, 4)), []);
+  assert.deepEqual(findMissedPayments([rent], new Date(2026, 3, 7)), [rent]);
+  assert.deepEqual(findMissedPayments([rent], new Date(2026, 4, 5)), []);
+});
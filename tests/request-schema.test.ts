@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { checkBody, type BodySchema } from '../lib/request-schema';
+import { auditOutcome, buildAuditEntry, parseAuditFilter } from '../lib/audit';
+
+const schema: BodySchema = {
+  userId: { type: 'string', pattern: /^u\d+$/, format: 'a user id' },
+  count: { type: 'integer', optional: true, min: 0 },
+  vpas: { type: 'array', optional: true, items: { type: 'string', maxLength: 10 }, maxItems: 2 },
+  from: { type: 'date', optional: true },
+  overwrite: { type: 'boolean', optional: true },
+};
+
+test('valid bodies pass and unknown fields are ignored', () => {
+  assert.deepEqual(checkBody(schema, { userId: 'u1', count: 0, vpas: ['a@ok'], from: '2026-01-01', extra: 1 }), []);
+  assert.deepEqual(checkBody(schema, { userId: 'u1', count: null }), []);
+});
+
+test('every problem is reported with its field', () => {
+  assert.deepEqual(checkBody(schema, { count: 1.5, vpas: ['a@ok', 42], from: 'soon', overwrite: 'yes' }), [
+    'userId is required',
+    'count must be an integer',
+    'vpas[1] must be a string',
+    'from must be a date',
+    'overwrite must be true or false',
+  ]);
+  assert.deepEqual(checkBody(schema, { userId: 'x', count: -1, vpas: ['a', 'b', 'c'] }), [
+    'userId must be a user id',
+    'count must be at least 0',
+    'vpas must have at most 2 items',
+  ]);
+  assert.deepEqual(checkBody(schema, ['u1']), ['Request body must be a JSON object']);
+});
+
+test('audit entries record the caller, target and outcome', () => {
+  const entry = buildAuditEntry(
+    { kind: 'token', userId: 'u1', tokenId: 't1', scopes: ['sync'] },
+    { requestId: 'r1', method: 'POST', route: '/api/users/:id/sync', targetUserId: 'u1', status: 429, durationMs: 3 }
+  );
+
+  assert.equal(entry.caller_kind, 'token');
+  assert.equal(entry.caller_user_id, 'u1');
+  assert.equal(entry.token_id, 't1');
+  assert.equal(entry.outcome, 'rate_limited');
+  assert.equal(entry.ip, null);
+
+  assert.deepEqual([200, 201, 400, 403, 404, 500].map(auditOutcome), ['success', 'success', 'invalid', 'denied', 'not_found', 'error']);
+});
+
+test('audit filters are parsed from the query string', () => {
+  const { filter } = parseAuditFilter({
+    userId: '00000000-0000-0000-0000-000000000001',
+    caller: 'token',
+    outcome: 'denied',
+    route: '/api/users/:id/sync',
+    from: '2026-01-01',
+    limit: '50',
+  });
+  assert.equal(filter?.limit, 50);
+  assert.equal(filter?.callerKind, 'token');
+  assert.equal(filter?.from?.toISOString(), '2026-01-01T00:00:00.000Z');
+
+  assert.equal(parseAuditFilter({}).filter?.limit, 100);
+  assert.match(parseAuditFilter({ limit: '5000' }).error!, /limit/);
+  assert.match(parseAuditFilter({ userId: 'abc' }).error!, /userId/);
+  assert.match(parseAuditFilter({ caller: 'root' }).error!, /caller/);
+  assert.match(parseAuditFilter({ from: '2026-02-01', to: '2026-01-01' }).error!, /from/);
+});
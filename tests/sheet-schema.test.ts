@@ -0,0 +1,157 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import type { SheetsClient } from '../lib/google-auth';
+import {
+  checkSheetHeader,
+  checkUnversionedRows,
+  columnLetter,
+  columnsAt,
+  ensureSheetSchema,
+  isSheetSchemaError,
+  parseSchemaVersion,
+  planSheetMigration,
+  SHEET_SCHEMA_VERSION,
+} from '../lib/sheet-schema';
+
+const V1_HEADERS = [
+  'Date & Time', 'Amount', 'Type', 'Method', 'Account', 'Description',
+  'Reference Number', 'Available Balance', 'Category', 'Notes', 'Email Received',
+];
+const CURRENT_HEADERS = [...V1_HEADERS, 'Transfer ID'];
+
+function fakeSheets(state: { tabs: string[]; header: string[]; version?: string; rows?: unknown[][] }) {
+  const calls: { method: string; params: any }[] = [];
+  const sheets = {
+    spreadsheets: {
+      get: async (params: any) => {
+        calls.push({ method: 'get', params });
+        return { data: { sheets: state.tabs.map((title, index) => ({ properties: { title, sheetId: index + 10 } })) } };
+      },
+      batchUpdate: async (params: any) => {
+        calls.push({ method: 'batchUpdate', params });
+        return { data: {} };
+      },
+      values: {
+        get: async (params: any) => {
+          calls.push({ method: 'values.get', params });
+          return { data: { values: state.rows } };
+        },
+        batchGet: async (params: any) => {
+          calls.push({ method: 'values.batchGet', params });
+          const valueRanges = params.ranges.map((range: string) =>
+            range.startsWith('Transactions') ? { values: [state.header] } : { values: state.version ? [[state.version]] : undefined }
+          );
+          return { data: { valueRanges } };
+        },
+        batchUpdate: async (params: any) => {
+          calls.push({ method: 'values.batchUpdate', params });
+          return { data: {} };
+        },
+      },
+    },
+  } as unknown as SheetsClient;
+  return { sheets, calls };
+}
+
+test('column letters run past Z', () => {
+  assert.deepEqual([0, 11, 25, 26, 27, 51, 52, 701, 702].map(columnLetter), ['A', 'L', 'Z', 'AA', 'AB', 'AZ', 'BA', 'ZZ', 'AAA']);
+});
+
+test('each version has the columns added up to it', () => {
+  assert.equal(columnsAt(1).length, 11);
+  assert.equal(columnsAt(SHEET_SCHEMA_VERSION).at(-1), 'transferId');
+  assert.equal(parseSchemaVersion('2'), 2);
+  assert.equal(parseSchemaVersion(''), 0);
+  assert.equal(parseSchemaVersion('two'), 0);
+  assert.equal(parseSchemaVersion(undefined), 0);
+});
+
+test('headers match by name ignoring case and spacing, and extra columns are the user\'s', () => {
+  assert.deepEqual(checkSheetHeader([...CURRENT_HEADERS, 'My Notes'], SHEET_SCHEMA_VERSION), []);
+  assert.deepEqual(checkSheetHeader(CURRENT_HEADERS.map(h => ` ${h.toUpperCase()} `), SHEET_SCHEMA_VERSION), []);
+  assert.deepEqual(checkSheetHeader(V1_HEADERS, 1), []);
+});
+
+test('an inserted or renamed column is reported by letter', () => {
+  const inserted = [...V1_HEADERS.slice(0, 2), 'Merchant', ...V1_HEADERS.slice(2), 'Transfer ID'];
+  const problems = checkSheetHeader(inserted, SHEET_SCHEMA_VERSION);
+  assert.equal(problems[0], 'Column C should be "Type" but is "Merchant"');
+  assert.equal(problems.length, 10);
+
+  assert.deepEqual(checkSheetHeader(V1_HEADERS, SHEET_SCHEMA_VERSION), ['Column L should be "Transfer ID" but is empty']);
+});
+
+test('new columns fill an empty column but never overwrite one of the user\'s', () => {
+  assert.deepEqual(planSheetMigration(1, V1_HEADERS), { insertColumns: [] });
+  assert.deepEqual(planSheetMigration(1, [...V1_HEADERS, 'Transfer ID']), { insertColumns: [] });
+  assert.deepEqual(planSheetMigration(1, [...V1_HEADERS, 'My Notes']), { insertColumns: [11] });
+  assert.deepEqual(planSheetMigration(SHEET_SCHEMA_VERSION, [...CURRENT_HEADERS, 'My Notes']), { insertColumns: [] });
+});
+
+test('a current sheet is only checked', async () => {
+  const { sheets, calls } = fakeSheets({ tabs: ['Transactions', 'Metadata'], header: CURRENT_HEADERS, version: String(SHEET_SCHEMA_VERSION) });
+  await ensureSheetSchema(sheets, 'sheet-1');
+  assert.deepEqual(calls.map(c => c.method), ['get', 'values.batchGet']);
+});
+
+test('a version 1 sheet gets the Transfer ID column inserted before the user\'s column', async () => {
+  const { sheets, calls } = fakeSheets({ tabs: ['Transactions', 'Metadata'], header: [...V1_HEADERS, 'My Notes'], version: '1' });
+  await ensureSheetSchema(sheets, 'sheet-1');
+
+  const structural = calls.find(c => c.method === 'batchUpdate')!.params.requestBody.requests;
+  assert.deepEqual(structural, [{
+    insertDimension: { range: { sheetId: 10, dimension: 'COLUMNS', startIndex: 11, endIndex: 12 }, inheritFromBefore: true },
+  }]);
+
+  const written = calls.find(c => c.method === 'values.batchUpdate')!.params.requestBody.data;
+  assert.deepEqual(written[0], { range: 'Transactions!A1:L1', values: [CURRENT_HEADERS] });
+  assert.deepEqual(written[1], { range: 'Metadata!A3:B3', values: [['Schema Version', SHEET_SCHEMA_VERSION]] });
+});
+
+const V0_ROW = ['15/03/2026, 10:30 am', '1,299.00', 'Debit', 'UPI', '1234', 'SWIGGY', '607512345678', '45,000.00', 'Food', '', '15/03/2026, 10:31 am'];
+
+test('unversioned rows need an amount in B, Credit or Debit in C and a reference in G', () => {
+  assert.deepEqual(checkUnversionedRows([V0_ROW, ['', '', ''], [...V0_ROW.slice(0, 2), 'Credit', ...V0_ROW.slice(3)]]), []);
+
+  const inserted = [V0_ROW[0], 'Swiggy order', ...V0_ROW.slice(1)];
+  assert.deepEqual(checkUnversionedRows([V0_ROW, inserted]), [
+    'Row 3: column B should be an amount but is "Swiggy order"',
+    'Row 3: column C should be Credit or Debit but is "1,299.00"',
+  ]);
+  assert.deepEqual(checkUnversionedRows([V0_ROW.map((value, index) => (index === 6 ? '' : value))]), [
+    'Row 2: column G should be a reference number but is empty',
+  ]);
+});
+
+test('an unversioned sheet is adopted and given a Metadata tab', async () => {
+  const { sheets, calls } = fakeSheets({ tabs: ['Transactions'], header: ['Date', 'Amt', 'Type'], rows: [V0_ROW] });
+  await ensureSheetSchema(sheets, 'sheet-1');
+  assert.equal(calls.find(c => c.method === 'values.get')!.params.range, 'Transactions!A2:L21');
+
+  const structural = calls.find(c => c.method === 'batchUpdate')!.params.requestBody.requests;
+  assert.deepEqual(structural, [{ addSheet: { properties: { title: 'Metadata' } } }]);
+
+  const written = calls.find(c => c.method === 'values.batchUpdate')!.params.requestBody.data;
+  assert.deepEqual(written[0].values, [CURRENT_HEADERS]);
+  assert.equal(written[1].range, 'Metadata!A1:B3');
+});
+
+test('broken sheets are refused without writing anything', async () => {
+  const renamed = fakeSheets({ tabs: ['My Transactions', 'Metadata'], header: CURRENT_HEADERS });
+  await assert.rejects(ensureSheetSchema(renamed.sheets, 'sheet-1'), (error: unknown) =>
+    isSheetSchemaError(error) && /no "Transactions" tab/.test(error.problems[0])
+  );
+
+  const inserted = fakeSheets({ tabs: ['Transactions', 'Metadata'], header: ['Merchant', ...V1_HEADERS], version: '1' });
+  await assert.rejects(ensureSheetSchema(inserted.sheets, 'sheet-1'), (error: unknown) => isSheetSchemaError(error));
+  assert.ok(!inserted.calls.some(c => c.method.endsWith('batchUpdate')));
+
+  const reshaped = fakeSheets({ tabs: ['Transactions', 'Metadata'], header: ['Date', 'Merchant', 'Amount'], rows: [[V0_ROW[0], 'Swiggy', ...V0_ROW.slice(1)]] });
+  await assert.rejects(ensureSheetSchema(reshaped.sheets, 'sheet-1'), (error: unknown) =>
+    isSheetSchemaError(error) && /column B should be an amount/.test(error.problems[0])
+  );
+  assert.ok(!reshaped.calls.some(c => c.method.endsWith('batchUpdate')));
+
+  const newer = fakeSheets({ tabs: ['Transactions', 'Metadata'], header: CURRENT_HEADERS, version: String(SHEET_SCHEMA_VERSION + 1) });
+  await assert.rejects(ensureSheetSchema(newer.sheets, 'sheet-1'), /newer than this service supports/);
+});
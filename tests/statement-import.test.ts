@@ -0,0 +1,130 @@
+// Transaction times are read in Indian time
+process.env.TZ = 'Asia/Kolkata';
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import * as XLSX from 'xlsx';
+import { detectStatementFormat, isStatementError, parseHDFCStatement } from '../lib/statement-parser';
+import { reconcileStatement } from '../lib/reconciliation';
+import { transaction } from './transaction-fixtures';
+
+const CSV = [
+  'HDFC BANK Ltd.',
+  'Account No : XXXXXXXX1234',
+  '',
+  'Date,Narration,Chq./Ref.No.,Value Dt,Withdrawal Amt.,Deposit Amt.,Closing Balance',
+  '********,********,********,********,********,********,********',
+  '05/01/26,UPI-SWIGGY-swiggy@icici-ICIC0000001-600123456789-UPI,0000600123456789,05/01/26,450.00,,9550.00',
+  '07/01/26,"NEFT CR-SBIN0001234-ACME PVT LTD, SALARY",N12345678901,07/01/26,,"50,000.00","59,550.00"',
+  '09/01/26,ATW-512345XXXXXX6789-S1ANMU01-MUMBAI,,09/01/26,2000.00,,57550.00',
+  '',
+  'STATEMENT SUMMARY :-',
+].join('\n');
+
+test('file type is detected from the first bytes', () => {
+  assert.equal(detectStatementFormat(Buffer.from('%PDF-1.4\n')), 'pdf');
+  assert.equal(detectStatementFormat(Buffer.from([0xd0, 0xcf, 0x11, 0xe0, 0xa1])), 'xls');
+  assert.equal(detectStatementFormat(Buffer.from('PK\x03\x04')), 'xls');
+  assert.equal(detectStatementFormat(Buffer.from('Date,Narration\n')), 'csv');
+});
+
+test('CSV statement rows are read under the header', async () => {
+  const statement = await parseHDFCStatement(Buffer.from(CSV));
+
+  assert.equal(statement.format, 'csv');
+  assert.equal(statement.account, '1234');
+  assert.deepEqual(statement.warnings, []);
+  assert.equal(statement.transactions.length, 3);
+
+  const [upi, salary, atm] = statement.transactions;
+  assert.equal(upi.referenceNumber, '600123456789');
+  assert.equal(upi.description, 'SWIGGY (swiggy@icici)');
+  assert.equal(upi.method, 'UPI');
+  assert.equal(upi.type, 'Debit');
+  assert.equal(upi.dateTime, '05/01/2026 12:00 AM');
+
+  assert.equal(salary.type, 'Credit');
+  assert.equal(salary.amount, 50000);
+  assert.equal(salary.method, 'NEFT');
+  assert.equal(salary.availableBalance, 59550);
+
+  assert.equal(atm.method, 'ATM Withdrawal');
+  assert.match(atm.referenceNumber, /^STMT_[0-9a-f]{12}$/);
+});
+
+test('made-up references are stable across imports', async () => {
+  const first = await parseHDFCStatement(Buffer.from(CSV));
+  const second = await parseHDFCStatement(Buffer.from(CSV));
+  assert.equal(first.transactions[2].referenceNumber, second.transactions[2].referenceNumber);
+});
+
+test('account falls back to the given one when the file has none', async () => {
+  const csv = CSV.split('\n').slice(3).join('\n');
+  const statement = await parseHDFCStatement(Buffer.from(csv), '9876');
+  assert.equal(statement.account, '9876');
+  assert.equal(statement.transactions[0].account, '9876');
+});
+
+test('XLSX statements are read like CSV', async () => {
+  const rows = CSV.split('\n').map(line => line.split(/,(?=(?:[^"]*"[^"]*")*[^"]*$)/).map(cell => cell.replace(/"/g, '')));
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), 'Statement');
+  const file = XLSX.write(workbook, { type: 'buffer', bookType: 'xlsx' }) as Buffer;
+
+  const statement = await parseHDFCStatement(file);
+  assert.equal(statement.format, 'xls');
+  assert.equal(statement.account, '1234');
+  assert.deepEqual(statement.transactions.map(t => t.amount), [450, 50000, 2000]);
+});
+
+test('files without a statement header are reported', async () => {
+  const statement = await parseHDFCStatement(Buffer.from('hello,world\n1,2\n'));
+  assert.equal(statement.transactions.length, 0);
+  assert.match(statement.warnings[0], /header/);
+});
+
+test('corrupt spreadsheets and PDFs are rejected as unreadable statements', async () => {
+  const zip = Buffer.concat([Buffer.from('PK\x03\x04'), Buffer.alloc(64, 0xff)]);
+  await assert.rejects(parseHDFCStatement(zip), (error: unknown) => isStatementError(error) && /spreadsheet/.test((error as Error).message));
+
+  const pdf = Buffer.from('%PDF-1.4\nnot really a pdf');
+  await assert.rejects(parseHDFCStatement(pdf), isStatementError);
+});
+
+test('statement rows match stored ones by reference, then date and amount', () => {
+  const statement = [
+    transaction({ referenceNumber: '600123456789', dateTime: '05/01/2026 6:30 PM' }),
+    transaction({ referenceNumber: 'STMT_aaaaaaaaaaaa', dateTime: '09/01/2026 12:00 AM', amount: 2000, description: 'ATW' }),
+    transaction({ referenceNumber: 'N12345678901', dateTime: '07/01/2026 12:00 AM', amount: 50000, type: 'Credit' }),
+  ];
+  const stored = [
+    transaction({ referenceNumber: '600123456789', dateTime: '05/01/2026 6:30 PM' }),
+    // Card alert with no reference, a day after the value date
+    transaction({ referenceNumber: 'EMAIL_18c2f', dateTime: '10/01/2026 9:15 AM', amount: 2000 }),
+    // In the period but not in the statement
+    transaction({ referenceNumber: '600999', dateTime: '08/01/2026 1:00 PM', amount: 99 }),
+    // Other account and outside the period are ignored
+    transaction({ referenceNumber: '600888', dateTime: '08/01/2026 1:00 PM', amount: 50000, type: 'Credit', account: '5678' }),
+    transaction({ referenceNumber: '600777', dateTime: '20/01/2026 1:00 PM', amount: 10 }),
+  ];
+
+  const report = reconcileStatement(statement, stored);
+
+  assert.deepEqual(report.period, { from: '2026-01-05', to: '2026-01-09' });
+  assert.equal(report.matchedByReference, 1);
+  assert.equal(report.matchedByAmount.length, 1);
+  assert.equal(report.matchedByAmount[0].stored.referenceNumber, 'EMAIL_18c2f');
+  assert.deepEqual(report.missing.map(t => t.referenceNumber), ['N12345678901']);
+  assert.deepEqual(report.notInStatement.map(t => t.referenceNumber), ['600999']);
+});
+
+test('a stored transaction matches only one statement row', () => {
+  const statement = [
+    transaction({ referenceNumber: 'STMT_1', dateTime: '05/01/2026 12:00 AM' }),
+    transaction({ referenceNumber: 'STMT_2', dateTime: '05/01/2026 12:00 AM' }),
+  ];
+  const report = reconcileStatement(statement, [transaction({ referenceNumber: 'EMAIL_1', dateTime: '05/01/2026 6:30 PM' })]);
+
+  assert.equal(report.matchedByAmount.length, 1);
+  assert.deepEqual(report.missing.map(t => t.referenceNumber), ['STMT_2']);
+});
@@ -0,0 +1,68 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  buildReauthNotification,
+  classifyRefreshResponse,
+  tokenStateFor,
+  tokenStateUpdate,
+} from '../lib/token-health';
+
+const NOW = new Date('2026-03-01T12:00:00Z');
+
+test('only invalid_grant means the user must reconnect', () => {
+  assert.deepEqual(classifyRefreshResponse(400, { error: 'invalid_grant', error_description: 'Token has been expired or revoked.' }), {
+    kind: 'revoked',
+    reason: 'invalid_grant',
+  });
+  assert.deepEqual(classifyRefreshResponse(401, { error: 'invalid_client' }), { kind: 'transient', reason: 'invalid_client' });
+  assert.deepEqual(classifyRefreshResponse(429, {}), { kind: 'transient', reason: 'http_429' });
+  assert.deepEqual(classifyRefreshResponse(503, null), { kind: 'transient', reason: 'http_503' });
+});
+
+test('transient failures retry and the rest need re-authentication', () => {
+  assert.equal(tokenStateFor({ kind: 'transient', reason: 'network_error' }), 'retrying');
+  assert.equal(tokenStateFor({ kind: 'revoked', reason: 'invalid_grant' }), 'needs_reauth');
+  assert.equal(tokenStateFor({ kind: 'key_mismatch', reason: 'decrypt_failed' }), 'needs_reauth');
+});
+
+test('healthy users are not written to on every sync', () => {
+  assert.equal(tokenStateUpdate({ token_state: 'ok' }, 'ok', undefined, NOW), null);
+  assert.equal(tokenStateUpdate({}, 'ok', undefined, NOW), null);
+});
+
+test('a state change records when it happened and resets the notice', () => {
+  assert.deepEqual(tokenStateUpdate({ token_state: 'ok' }, 'needs_reauth', { kind: 'revoked', reason: 'invalid_grant' }, NOW), {
+    token_state: 'needs_reauth',
+    token_error: 'invalid_grant',
+    token_state_changed_at: NOW.toISOString(),
+    reauth_notified_at: null,
+  });
+  assert.deepEqual(tokenStateUpdate({ token_state: 'retrying' }, 'ok', undefined, NOW), {
+    token_state: 'ok',
+    token_error: null,
+    token_state_changed_at: NOW.toISOString(),
+    reauth_notified_at: null,
+  });
+});
+
+test('repeated failures keep the time the state began', () => {
+  assert.deepEqual(tokenStateUpdate({ token_state: 'retrying' }, 'retrying', { kind: 'transient', reason: 'http_503' }, NOW), {
+    token_state: 'retrying',
+    token_error: 'http_503',
+  });
+});
+
+test('re-authentication notices link to the reconnect page when one is set', () => {
+  const user = { id: 'user-1', google_email: 'someone@example.com' };
+
+  const revoked = buildReauthNotification(user, { kind: 'revoked', reason: 'invalid_grant' }, 'https://app.example.com/settings');
+  assert.equal(revoked.type, 'auth.reauth_required');
+  assert.equal(revoked.email, 'someone@example.com');
+  assert.match(revoked.text, /revoked or has expired/);
+  assert.match(revoked.text, /https:\/\/app\.example\.com\/settings/);
+  assert.deepEqual(revoked.data, { kind: 'revoked', reason: 'invalid_grant' });
+
+  const mismatch = buildReauthNotification(user, { kind: 'key_mismatch', reason: 'decrypt_failed' });
+  assert.match(mismatch.text, /could no longer read/);
+  assert.match(mismatch.text, /Sign in to Finance Tracker again/);
+});
@@ -0,0 +1,25 @@
+/**
+ * Parsed transactions for tests: a ₹450 UPI debit on account 1234 unless
+ * overridden. Each gets its own reference number unless one is given.
+ */
+
+import type { ParsedTransaction } from '../lib/email-parser';
+
+let nextReference = 600000000000;
+
+export function transaction(overrides: Partial<ParsedTransaction> = {}): ParsedTransaction {
+  return {
+    dateTime: '12/01/2026 6:30 PM',
+    amount: 450,
+    type: 'Debit',
+    method: 'UPI',
+    account: '1234',
+    description: 'SWIGGY (swiggy@icici)',
+    referenceNumber: String(nextReference++),
+    availableBalance: 'N/A',
+    category: '',
+    notes: '',
+    emailReceivedDate: '12/01/2026 6:31 PM',
+    ...overrides,
+  };
+}
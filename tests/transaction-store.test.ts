@@ -0,0 +1,79 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { openSqliteDatabase, createSqliteStore } from '../lib/stores/sqlite-store';
+import { createMirroredStore } from '../lib/transaction-store';
+import { createTransactionStore } from '../lib/stores';
+import { fakeSupabase } from './fake-supabase';
+import { transaction } from './transaction-fixtures';
+
+test('sqlite store appends only new reference numbers', async () => {
+  const store = createSqliteStore(openSqliteDatabase(':memory:'), 'user-1');
+
+  const first = await store.append([transaction({ referenceNumber: 'A' }), transaction({ referenceNumber: 'B' }), transaction({ referenceNumber: 'A' })]);
+  assert.deepEqual(first.map(t => t.referenceNumber), ['A', 'B']);
+
+  const second = await store.append([transaction({ referenceNumber: 'B' }), transaction({ referenceNumber: 'C' })]);
+  assert.deepEqual(second.map(t => t.referenceNumber), ['C']);
+
+  assert.deepEqual((await store.list()).map(t => t.referenceNumber), ['A', 'B', 'C']);
+  assert.deepEqual([...await store.findExistingRefs(['A', 'Z'])], ['A']);
+});
+
+test('sqlite store round-trips balances and isolates users', async () => {
+  const db = openSqliteDatabase(':memory:');
+  const store = createSqliteStore(db, 'user-1');
+  const other = createSqliteStore(db, 'user-2');
+
+  await store.append([transaction({ referenceNumber: 'A', availableBalance: 1523.75 }), transaction({ referenceNumber: 'B' })]);
+  await other.append([transaction({ referenceNumber: 'A' })]);
+
+  assert.equal((await store.findByReference('A'))?.availableBalance, 1523.75);
+  assert.equal((await store.findByReference('B'))?.availableBalance, 'N/A');
+  assert.equal((await other.list()).length, 1);
+});
+
+test('sqlite store keeps transfer marks', async () => {
+  const store = createSqliteStore(openSqliteDatabase(':memory:'), 'user-1');
+  await store.append([transaction({ referenceNumber: 'A' }), transaction({ referenceNumber: 'B' })]);
+  await store.updateMany([transaction({ referenceNumber: 'A', transferId: 'TRF_abc' })]);
+
+  assert.equal((await store.findByReference('A'))?.transferId, 'TRF_abc');
+  assert.equal('transferId' in (await store.findByReference('B'))!, false);
+});
+
+test('sqlite store updates and removes by reference number', async () => {
+  const store = createSqliteStore(openSqliteDatabase(':memory:'), 'user-1');
+  await store.append([transaction({ referenceNumber: 'A' })]);
+
+  assert.equal(await store.updateMany([transaction({ referenceNumber: 'A', category: 'Food & Dining' }), transaction({ referenceNumber: 'Z' })]), 1);
+  assert.equal((await store.findByReference('A'))?.category, 'Food & Dining');
+
+  assert.equal(await store.remove('A'), true);
+  assert.equal(await store.remove('A'), false);
+  assert.equal(await store.findByReference('A'), null);
+});
+
+test('mirrored store writes to every store and reads from the primary', async () => {
+  const db = openSqliteDatabase(':memory:');
+  const primary = createSqliteStore(db, 'primary');
+  const mirror = createSqliteStore(db, 'mirror');
+  await mirror.append([transaction({ referenceNumber: 'A' })]);
+
+  const store = createMirroredStore(primary, [mirror]);
+  const written = await store.append([transaction({ referenceNumber: 'A' }), transaction({ referenceNumber: 'B' })]);
+
+  assert.deepEqual(written.map(t => t.referenceNumber), ['A', 'B']);
+  assert.deepEqual((await mirror.list()).map(t => t.referenceNumber), ['A', 'B']);
+
+  await store.remove('A');
+  assert.equal(await mirror.findByReference('A'), null);
+});
+
+test('only sheet sinks need a Google Sheets client', () => {
+  const { supabase } = fakeSupabase();
+  assert.ok(createTransactionStore({ id: 'user-1', google_sheet_id: null, transaction_sink: 'database' }, { supabase }));
+  assert.throws(
+    () => createTransactionStore({ id: 'user-1', google_sheet_id: 'sheet-1', transaction_sink: 'both' }, { supabase }),
+    /Sheets client is required/
+  );
+});
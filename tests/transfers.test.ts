@@ -0,0 +1,76 @@
+// Transaction times are read in Indian time
+process.env.TZ = 'Asia/Kolkata';
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { detectTransfers, isTransfer, markTransfers, NOT_A_TRANSFER } from '../lib/transfers';
+import { buildAnalytics } from '../lib/analytics';
+import { transaction } from './transaction-fixtures';
+
+test('opposite legs on two accounts within minutes are paired', () => {
+  const debit = transaction({ referenceNumber: 'D1' });
+  const credit = transaction({ referenceNumber: 'C1', type: 'Credit', account: '5678', dateTime: '12/01/2026 6:32 PM' });
+  const unrelated = transaction({ referenceNumber: 'X1', type: 'Credit', account: '1234', dateTime: '12/01/2026 6:31 PM' });
+
+  const pairs = detectTransfers([debit, credit, unrelated]);
+
+  assert.equal(pairs.length, 1);
+  assert.equal(pairs[0].debit.referenceNumber, 'D1');
+  assert.equal(pairs[0].credit.referenceNumber, 'C1');
+  assert.match(pairs[0].transferId, /^TRF_[0-9a-f]{12}$/);
+  assert.equal(detectTransfers([debit, credit])[0].transferId, pairs[0].transferId);
+});
+
+test('amount, direction and time must line up', () => {
+  const debit = transaction();
+  assert.equal(detectTransfers([debit, transaction({ type: 'Credit', account: '5678', amount: 4999 })]).length, 0);
+  assert.equal(detectTransfers([debit, transaction({ account: '5678' })]).length, 0);
+  assert.equal(detectTransfers([debit, transaction({ type: 'Credit', account: '5678', dateTime: '12/01/2026 8:00 PM' })]).length, 0);
+});
+
+test('card bill payments may take days', () => {
+  const payment = transaction({ method: 'Net Banking', description: 'HDFC CREDIT CARD BILLPAY' });
+  const received = transaction({ type: 'Credit', account: '9876', method: 'Credit Card', dateTime: '14/01/2026 10:00 AM' });
+
+  assert.equal(detectTransfers([payment, received]).length, 1);
+});
+
+test('self VPAs and account mentions widen the window', () => {
+  const upi = transaction({ method: 'UPI', description: 'ME (me@okhdfcbank)' });
+  const credit = transaction({ type: 'Credit', account: '5678', dateTime: '13/01/2026 9:00 AM' });
+  assert.equal(detectTransfers([upi, credit]).length, 0);
+  assert.equal(detectTransfers([upi, credit], { selfVpas: ['ME@okhdfcbank'] }).length, 1);
+
+  const neft = transaction({ description: 'NEFT to own a/c XX5678' });
+  assert.equal(detectTransfers([neft, credit]).length, 1);
+});
+
+test('each leg joins only the closest pair', () => {
+  const debit = transaction({ referenceNumber: 'D1' });
+  const far = transaction({ referenceNumber: 'C1', type: 'Credit', account: '5678', dateTime: '12/01/2026 6:50 PM' });
+  const near = transaction({ referenceNumber: 'C2', type: 'Credit', account: '5678', dateTime: '12/01/2026 6:31 PM' });
+
+  const pairs = detectTransfers([debit, far, near]);
+  assert.deepEqual(pairs.map(p => p.credit.referenceNumber), ['C2']);
+});
+
+test('marked and unmarked transactions are skipped', () => {
+  const debit = transaction({ transferId: NOT_A_TRANSFER });
+  const credit = transaction({ type: 'Credit', account: '5678' });
+  assert.equal(detectTransfers([debit, credit]).length, 0);
+  assert.equal(isTransfer(debit), false);
+});
+
+test('marked transfers are left out of analytics totals', () => {
+  const salary = transaction({ type: 'Credit', amount: 50000, method: 'NEFT', referenceNumber: 'S1', dateTime: '01/01/2026 9:00 AM' });
+  const debit = transaction();
+  const credit = transaction({ type: 'Credit', account: '5678' });
+  const marked = markTransfers(detectTransfers([salary, debit, credit]));
+
+  assert.equal(marked.length, 2);
+  assert.ok(marked.every(isTransfer));
+
+  const analytics = buildAnalytics([salary, ...marked], { from: null, to: null });
+  assert.deepEqual(analytics.totals, { income: 50000, spend: 0, net: 50000, count: 1 });
+  assert.equal(analytics.transfers, 2);
+});